@@ -1,11 +1,14 @@
 import { Component, EventEmitter, Output } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { ElementRegistryService } from '../simulation/element-registry.service';
+import { ElementCategory } from '../simulation/elements-data';
 
 export interface PeriodicElement {
   name: string;
   symbol: string;
   atomicNumber: number;
   neutrons: number; // Most common stable isotope
+  category: ElementCategory;
   row: number;
   col: number;
 }
@@ -21,18 +24,22 @@ export class PeriodicTableComponent {
   @Output() elementSelect = new EventEmitter<PeriodicElement>();
   @Output() close = new EventEmitter<void>();
 
-  elements: PeriodicElement[] = [
-    { name: 'Hydrogen', symbol: 'H', atomicNumber: 1, neutrons: 0, row: 1, col: 1 },
-    { name: 'Helium', symbol: 'He', atomicNumber: 2, neutrons: 2, row: 1, col: 18 },
-    { name: 'Lithium', symbol: 'Li', atomicNumber: 3, neutrons: 4, row: 2, col: 1 },
-    { name: 'Beryllium', symbol: 'Be', atomicNumber: 4, neutrons: 5, row: 2, col: 2 },
-    { name: 'Boron', symbol: 'B', atomicNumber: 5, neutrons: 6, row: 2, col: 13 },
-    { name: 'Carbon', symbol: 'C', atomicNumber: 6, neutrons: 6, row: 2, col: 14 },
-    { name: 'Nitrogen', symbol: 'N', atomicNumber: 7, neutrons: 7, row: 2, col: 15 },
-    { name: 'Oxygen', symbol: 'O', atomicNumber: 8, neutrons: 8, row: 2, col: 16 },
-    { name: 'Fluorine', symbol: 'F', atomicNumber: 9, neutrons: 10, row: 2, col: 17 },
-    { name: 'Neon', symbol: 'Ne', atomicNumber: 10, neutrons: 10, row: 2, col: 18 },
-  ];
+  elements: PeriodicElement[];
+
+  constructor(private elementRegistry: ElementRegistryService) {
+    this.elements = this.elementRegistry.getAll().map(element => {
+      const { row, col } = this.getGridPosition(element.atomicNumber, element.period, element.group);
+      return {
+        name: element.name,
+        symbol: element.symbol,
+        atomicNumber: element.atomicNumber,
+        neutrons: this.elementRegistry.getDefaultNeutrons(element.atomicNumber),
+        category: element.category,
+        row,
+        col
+      };
+    });
+  }
 
   selectElement(element: PeriodicElement): void {
     this.elementSelect.emit(element);
@@ -42,4 +49,13 @@ export class PeriodicTableComponent {
   closeModal(): void {
     this.close.emit();
   }
-}
\ No newline at end of file
+
+  // Lanthanides and actinides go in two separate rows below the main table
+  private getGridPosition(atomicNumber: number, period: number, group: number | null): { row: number, col: number } {
+    if (group !== null) {
+      return { row: period, col: group };
+    }
+    const seriesStart = period === 6 ? 57 : 89;
+    return { row: period + 3, col: 3 + atomicNumber - seriesStart };
+  }
+}
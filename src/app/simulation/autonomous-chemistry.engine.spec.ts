@@ -0,0 +1,254 @@
+import { AutonomousChemistryEngine, ChargedAtom, ChemicalAtom } from './autonomous-chemistry.engine';
+import { ElementRegistryService } from './element-registry.service';
+import * as THREE from 'three';
+
+describe('AutonomousChemistryEngine', () => {
+  let engine: AutonomousChemistryEngine;
+  let nextId: number;
+
+  const atom = (protons: number): ChemicalAtom => ({ id: nextId++, protons });
+  const neutral = (protons: number): ChargedAtom => ({ id: nextId++, protons, electronsCount: protons });
+
+  beforeEach(() => {
+    engine = new AutonomousChemistryEngine(new ElementRegistryService());
+    nextId = 0;
+  });
+
+  describe('bond graph', () => {
+    it('should add and remove bonds symmetrically', () => {
+      const o = atom(8);
+      const h = atom(1);
+
+      expect(engine.addBond(o, h)).toBeTrue();
+      expect(engine.hasBond(h, o)).toBeTrue();
+      expect(engine.getNeighbours(o)).toEqual([h]);
+
+      expect(engine.removeBond(h, o)).toBeTrue();
+      expect(engine.hasBond(o, h)).toBeFalse();
+      expect(engine.getNeighbours(o)).toEqual([]);
+    });
+
+    it('should refuse duplicate and self bonds', () => {
+      const a = atom(6);
+      const b = atom(6);
+
+      expect(engine.addBond(a, a)).toBeFalse();
+      expect(engine.addBond(a, b)).toBeTrue();
+      expect(engine.addBond(b, a)).toBeFalse();
+    });
+
+    it('should enforce valence', () => {
+      const o = atom(8);
+      const [h1, h2, h3] = [atom(1), atom(1), atom(1)];
+
+      expect(engine.addBond(o, h1)).toBeTrue();
+      expect(engine.addBond(o, h2)).toBeTrue();
+      expect(engine.getFreeValence(o)).toBe(0);
+      expect(engine.addBond(o, h3)).toBeFalse();
+      expect(engine.canFormBond(o, h3)).toBeFalse();
+    });
+
+    it('should count bond orders towards valence', () => {
+      const c = atom(6);
+      const o = atom(8);
+
+      expect(engine.addBond(c, o, 2)).toBeTrue();
+      expect(engine.getBondOrderSum(c)).toBe(2);
+      expect(engine.getFreeValence(c)).toBe(2);
+      expect(engine.getFreeValence(o)).toBe(0);
+    });
+
+    it('should drop every bond of a removed atom', () => {
+      const c = atom(6);
+      const hs = [atom(1), atom(1), atom(1), atom(1)];
+      hs.forEach(h => engine.addBond(c, h));
+
+      engine.removeAtom(c);
+
+      hs.forEach(h => expect(engine.getBondOrderSum(h)).toBe(0));
+      expect(engine.getFreeValence(c)).toBe(4);
+    });
+  });
+
+  describe('bond orders', () => {
+    it('should raise a bond up to triple', () => {
+      const n1 = atom(7);
+      const n2 = atom(7);
+      engine.addBond(n1, n2);
+
+      expect(engine.raiseBondOrder(n1, n2)).toBeTrue();
+      expect(engine.raiseBondOrder(n2, n1)).toBeTrue();
+      expect(engine.getBondOrder(n1, n2)).toBe(3);
+      expect(engine.raiseBondOrder(n1, n2)).toBeFalse();
+    });
+
+    it('should not raise an order past the available valence', () => {
+      const o = atom(8);
+      const h = atom(1);
+      engine.addBond(o, h);
+
+      expect(engine.raiseBondOrder(o, h)).toBeFalse();
+      expect(engine.getBondOrder(o, h)).toBe(1);
+    });
+
+    it('should suggest the natural order for a pair', () => {
+      expect(engine.suggestBondOrder(atom(8), atom(8))).toBe(2);
+      expect(engine.suggestBondOrder(atom(7), atom(7))).toBe(3);
+      expect(engine.suggestBondOrder(atom(1), atom(8))).toBe(1);
+    });
+  });
+
+  describe('ions', () => {
+    it('should treat metal and halogen as an ionic pair', () => {
+      expect(engine.isIonicPair(atom(11), atom(17))).toBeTrue();
+      expect(engine.isIonicPair(atom(1), atom(8))).toBeFalse();
+      // H–F crosses the threshold but hydrogen is not a metal
+      expect(engine.isIonicPair(atom(1), atom(9))).toBeFalse();
+    });
+
+    it('should move one electron from sodium to chlorine', () => {
+      const na = neutral(11);
+      const cl = neutral(17);
+
+      const transfer = engine.planElectronTransfer(cl, na)!;
+      expect(transfer.donor).toBe(na);
+      expect(transfer.acceptor).toBe(cl);
+      expect(transfer.electrons).toBe(1);
+    });
+
+    it('should account for existing charge', () => {
+      const mg = neutral(12);
+      const o = neutral(8);
+      expect(engine.planElectronTransfer(mg, o)!.electrons).toBe(2);
+
+      mg.electronsCount -= 2;
+      o.electronsCount += 2;
+      expect(engine.getCharge(mg)).toBe(2);
+      expect(engine.getCharge(o)).toBe(-2);
+      expect(engine.planElectronTransfer(mg, o)).toBeNull();
+    });
+  });
+
+  describe('VSEPR placement', () => {
+    const bondAngle = (positions: Map<number, THREE.Vector3>, centre: ChemicalAtom, a: ChemicalAtom, b: ChemicalAtom) => {
+      const origin = positions.get(centre.id)!;
+      const da = positions.get(a.id)!.clone().sub(origin);
+      const db = positions.get(b.id)!.clone().sub(origin);
+      return THREE.MathUtils.radToDeg(da.angleTo(db));
+    };
+
+    const star = (centreProtons: number, ligandProtons: number, count: number) => {
+      const centre = atom(centreProtons);
+      const ligands = Array.from({ length: count }, () => atom(ligandProtons));
+      ligands.forEach(l => engine.addBond(centre, l));
+      return { centre, ligands };
+    };
+
+    it('should compress water and ammonia angles with lone pairs', () => {
+      const water = star(8, 1, 2);
+      const ammonia = star(7, 1, 3);
+      expect(engine.getAtomGeometry(water.centre)).toBe('bent');
+      expect(engine.getAtomGeometry(ammonia.centre)).toBe('trigonal_pyramidal');
+
+      const waterPositions = engine.calculateGraphPositions([water.centre, ...water.ligands], 2);
+      expect(bondAngle(waterPositions, water.centre, water.ligands[0], water.ligands[1])).toBeCloseTo(104.5, 0);
+
+      const nh3 = [ammonia.centre, ...ammonia.ligands];
+      const ammoniaPositions = engine.calculateGraphPositions(nh3, 2);
+      expect(bondAngle(ammoniaPositions, ammonia.centre, ammonia.ligands[0], ammonia.ligands[1])).toBeCloseTo(106.8, 0);
+    });
+
+    it('should build a trigonal bipyramid for PCl5', () => {
+      const { centre, ligands } = star(15, 17, 5);
+      expect(engine.getAtomGeometry(centre)).toBe('trigonal_bipyramidal');
+
+      const positions = engine.calculateGraphPositions([centre, ...ligands], 2);
+      const angles = [];
+      for (let i = 0; i < 5; i++) {
+        for (let j = i + 1; j < 5; j++) {
+          angles.push(Math.round(bondAngle(positions, centre, ligands[i], ligands[j])));
+        }
+      }
+      expect(angles.filter(a => a === 180).length).toBe(1);
+      expect(angles.filter(a => a === 120).length).toBe(3);
+      expect(angles.filter(a => a === 90).length).toBe(6);
+    });
+
+    it('should build an octahedron for SF6 and a seesaw for SF4', () => {
+      const sf6 = star(16, 9, 6);
+      expect(engine.getAtomGeometry(sf6.centre)).toBe('octahedral');
+      const positions = engine.calculateGraphPositions([sf6.centre, ...sf6.ligands], 2);
+      sf6.ligands.slice(1).forEach(l => {
+        expect([90, 180]).toContain(Math.round(bondAngle(positions, sf6.centre, sf6.ligands[0], l)));
+      });
+
+      const sf4 = star(16, 9, 4);
+      expect(engine.getAtomGeometry(sf4.centre)).toBe('seesaw');
+    });
+
+    it('should count multiple bonds once when finding lone pairs', () => {
+      const c = atom(6);
+      const [o1, o2] = [atom(8), atom(8)];
+      engine.addBond(c, o1, 2);
+      engine.addBond(c, o2, 2);
+      expect(engine.getAtomGeometry(c)).toBe('linear');
+    });
+
+    it('should keep tetrahedral angles along a chain', () => {
+      // CH3–CH2–OH
+      const [c1, c2, o] = [atom(6), atom(6), atom(8)];
+      engine.addBond(c1, c2);
+      engine.addBond(c2, o);
+      const hs = [atom(1), atom(1), atom(1), atom(1), atom(1), atom(1)];
+      hs.slice(0, 3).forEach(h => engine.addBond(c1, h));
+      hs.slice(3, 5).forEach(h => engine.addBond(c2, h));
+      engine.addBond(o, hs[5]);
+
+      const positions = engine.calculateGraphPositions([c1, c2, o, ...hs], 2);
+      expect(bondAngle(positions, c2, c1, o)).toBeCloseTo(109.5, 0);
+      expect(bondAngle(positions, c1, c2, hs[0])).toBeCloseTo(109.5, 0);
+      expect(positions.get(c1.id)!.distanceTo(positions.get(c2.id)!)).toBeCloseTo(2, 5);
+    });
+  });
+
+  describe('structure identification', () => {
+    const build = (protons: number[], bonds: [number, number, number?][]) => {
+      const atoms = protons.map(p => atom(p));
+      bonds.forEach(([a, b, order]) => engine.addBond(atoms[a], atoms[b], (order ?? 1) as 1 | 2 | 3));
+      return atoms;
+    };
+
+    it('should recognise water from its bond graph', () => {
+      const water = build([1, 8, 1], [[0, 1], [1, 2]]);
+      const result = engine.identifyStructure(water);
+      expect(result.status).toBe('known');
+      expect(result.structure?.id).toBe('water');
+    });
+
+    it('should tell ethanol from dimethyl ether', () => {
+      const ethanol = build([6, 6, 8, 1, 1, 1, 1, 1, 1], [[0, 1], [1, 2], [0, 3], [0, 4], [0, 5], [1, 6], [1, 7], [2, 8]]);
+      const ether = build([6, 8, 6, 1, 1, 1, 1, 1, 1], [[0, 1], [1, 2], [0, 3], [0, 4], [0, 5], [2, 6], [2, 7], [2, 8]]);
+
+      expect(engine.identifyStructure(ethanol).structure?.id).toBe('ethanol');
+      expect(engine.identifyStructure(ether).structure?.id).toBe('dimethyl_ether');
+      expect(engine.findStructuresByFormula(ethanol).map(s => s.id)).toEqual(['ethanol', 'dimethyl_ether']);
+    });
+
+    it('should not name a different connectivity after a known formula', () => {
+      // H–N=C has the formula of hydrogen cyanide (H–C≡N) but hydrogen sits on the nitrogen
+      const isocyanide = build([1, 7, 6], [[0, 1], [1, 2, 2]]);
+      expect(engine.findStructuresByFormula(isocyanide).map(s => s.id)).toEqual(['hydrogen_cyanide']);
+      expect(engine.identifyStructure(isocyanide).status).toBe('unknown');
+    });
+
+    it('should report impossible connectivity', () => {
+      const methane = build([6, 1, 1, 1, 1], [[0, 1], [0, 2], [0, 3], [0, 4]]);
+      // Turning the carbon into boron leaves four bonds on an atom that allows three
+      methane[0].protons = 5;
+
+      const result = engine.identifyStructure(methane);
+      expect(result.status).toBe('impossible');
+      expect(result.problems.length).toBe(1);
+    });
+  });
+});
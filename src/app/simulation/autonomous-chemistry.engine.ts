@@ -1,18 +1,111 @@
 import * as THREE from 'three';
 import * as CANNON from 'cannon-es';
+import { ChemicalElement } from './elements-data';
+import { ElementRegistryService } from './element-registry.service';
+import { KnownStructure, KNOWN_STRUCTURES } from './known-structures';
 
-// Comprehensive chemical data based on real chemistry
-export interface ChemicalElement {
-  atomicNumber: number;
-  symbol: string;
-  name: string;
-  valenceElectrons: number;
-  maxBonds: number;
-  electronegativity: number;
-  atomicRadius: number;
-  ionizationEnergy: number;
-  electronAffinity: number;
-  preferredOxidationStates: number[];
+// Minimal atom shape the engine needs; lets chemistry rules be tested without Three.js
+export interface ChemicalAtom {
+  id: number;
+  protons: number;
+}
+
+// Atoms that can gain or lose electrons; charge = protons - electronsCount
+export interface ChargedAtom extends ChemicalAtom {
+  electronsCount: number;
+}
+
+export interface ElectronTransfer {
+  donor: ChargedAtom;
+  acceptor: ChargedAtom;
+  electrons: number;
+}
+
+// Pauling's rule of thumb: above this electronegativity difference a bond is mostly ionic
+export const IONIC_ELECTRONEGATIVITY_DIFFERENCE = 1.7;
+
+export type BondOrder = 1 | 2 | 3;
+
+// Simulation energy units per kelvin: kT at room temperature (300 K) is 5 units,
+// on the same scale as recipe activation energies
+export const BOLTZMANN_CONSTANT = 1 / 60;
+
+// A catalyst that suits the pair (see ReactionEngine.catalysesBond) lowers the barrier of a plain atom–atom bond by this factor
+export const CATALYST_ACTIVATION_FACTOR = 0.5;
+
+/**
+ * Chance that one close encounter reacts: the Arrhenius factor exp(-Ea/kT),
+ * scaled by the mode's reaction speed
+ */
+export function reactionProbability(activationEnergy: number, temperature: number, reactionSpeed: number): number {
+  if (temperature <= 0) return 0;
+  const boltzmannFactor = Math.exp(-activationEnergy / (BOLTZMANN_CONSTANT * temperature));
+  return Math.min(1, Math.max(0, reactionSpeed * boltzmannFactor));
+}
+
+// Multiple bonds are shorter than single bonds (e.g. C–C 1.54 Å, C=C 1.34 Å, C≡C 1.20 Å)
+export const BOND_ORDER_LENGTH_FACTOR: { [order: number]: number } = {
+  1: 1.0,
+  2: 0.87,
+  3: 0.78
+};
+
+// Ideal electron-domain directions for 1–6 domains around an atom. Within each set the
+// slots that lone pairs prefer come first: equatorial for the trigonal bipyramid
+// (seesaw, T-shaped, linear) and trans-axial for the octahedron (square pyramidal, square planar).
+const ELECTRON_DOMAIN_DIRECTIONS: { [domains: number]: THREE.Vector3[] } = {
+  1: [new THREE.Vector3(1, 0, 0)],
+  2: [new THREE.Vector3(1, 0, 0), new THREE.Vector3(-1, 0, 0)],
+  3: [
+    new THREE.Vector3(0, 1, 0),
+    new THREE.Vector3(-Math.sqrt(3) / 2, -0.5, 0),
+    new THREE.Vector3(Math.sqrt(3) / 2, -0.5, 0)
+  ],
+  4: [
+    new THREE.Vector3(0, 1, 0),
+    new THREE.Vector3(Math.sqrt(8 / 9), -1 / 3, 0),
+    new THREE.Vector3(-Math.sqrt(2 / 9), -1 / 3, Math.sqrt(2 / 3)),
+    new THREE.Vector3(-Math.sqrt(2 / 9), -1 / 3, -Math.sqrt(2 / 3))
+  ],
+  5: [
+    new THREE.Vector3(1, 0, 0),
+    new THREE.Vector3(-0.5, 0, Math.sqrt(3) / 2),
+    new THREE.Vector3(-0.5, 0, -Math.sqrt(3) / 2),
+    new THREE.Vector3(0, 1, 0),
+    new THREE.Vector3(0, -1, 0)
+  ],
+  6: [
+    new THREE.Vector3(0, 1, 0),
+    new THREE.Vector3(0, -1, 0),
+    new THREE.Vector3(1, 0, 0),
+    new THREE.Vector3(-1, 0, 0),
+    new THREE.Vector3(0, 0, 1),
+    new THREE.Vector3(0, 0, -1)
+  ]
+};
+
+// Electron domains and lone pairs behind each VSEPR geometry name
+const GEOMETRY_DOMAINS: { [geometry: string]: { domains: number, lonePairs: number } } = {
+  linear: { domains: 2, lonePairs: 0 },
+  bent: { domains: 4, lonePairs: 2 },
+  trigonal_planar: { domains: 3, lonePairs: 0 },
+  tetrahedral: { domains: 4, lonePairs: 0 },
+  trigonal_pyramidal: { domains: 4, lonePairs: 1 },
+  trigonal_bipyramidal: { domains: 5, lonePairs: 0 },
+  seesaw: { domains: 5, lonePairs: 1 },
+  T_shaped: { domains: 5, lonePairs: 2 },
+  octahedral: { domains: 6, lonePairs: 0 },
+  square_pyramidal: { domains: 6, lonePairs: 1 },
+  square_planar: { domains: 6, lonePairs: 2 }
+};
+
+// How far lone pairs push bonding pairs together (gives H–O–H ≈ 104.5°, H–N–H ≈ 107°)
+const LONE_PAIR_REPULSION = 0.047;
+
+export interface StructureIdentification {
+  status: 'known' | 'unknown' | 'impossible';
+  structure?: KnownStructure;
+  problems: string[];
 }
 
 export interface BondingPair {
@@ -29,47 +122,30 @@ export interface MolecularStructure {
   atoms: any[];
   bonds: BondingPair[];
   geometry: string;
-  dipole: THREE.Vector3;
   stability: number;
   name: string;
   formula: string;
 }
 
 export class AutonomousChemistryEngine {
-  private static readonly CHEMICAL_ELEMENTS: Map<number, ChemicalElement> = new Map([
-    [1, { atomicNumber: 1, symbol: 'H', name: 'Hydrogen', valenceElectrons: 1, maxBonds: 1, electronegativity: 2.20, atomicRadius: 0.37, ionizationEnergy: 13.6, electronAffinity: 0.75, preferredOxidationStates: [-1, 1] }],
-    [2, { atomicNumber: 2, symbol: 'He', name: 'Helium', valenceElectrons: 2, maxBonds: 0, electronegativity: 0.0, atomicRadius: 0.32, ionizationEnergy: 24.6, electronAffinity: 0.0, preferredOxidationStates: [0] }],
-    [3, { atomicNumber: 3, symbol: 'Li', name: 'Lithium', valenceElectrons: 1, maxBonds: 1, electronegativity: 0.98, atomicRadius: 1.52, ionizationEnergy: 5.4, electronAffinity: 0.62, preferredOxidationStates: [1] }],
-    [4, { atomicNumber: 4, symbol: 'Be', name: 'Beryllium', valenceElectrons: 2, maxBonds: 2, electronegativity: 1.57, atomicRadius: 1.12, ionizationEnergy: 9.3, electronAffinity: 0.0, preferredOxidationStates: [2] }],
-    [5, { atomicNumber: 5, symbol: 'B', name: 'Boron', valenceElectrons: 3, maxBonds: 3, electronegativity: 2.04, atomicRadius: 0.88, ionizationEnergy: 8.3, electronAffinity: 0.28, preferredOxidationStates: [3] }],
-    [6, { atomicNumber: 6, symbol: 'C', name: 'Carbon', valenceElectrons: 4, maxBonds: 4, electronegativity: 2.55, atomicRadius: 0.77, ionizationEnergy: 11.3, electronAffinity: 1.26, preferredOxidationStates: [-4, -3, -2, -1, 0, 1, 2, 3, 4] }],
-    [7, { atomicNumber: 7, symbol: 'N', name: 'Nitrogen', valenceElectrons: 5, maxBonds: 3, electronegativity: 3.04, atomicRadius: 0.75, ionizationEnergy: 14.5, electronAffinity: 0.07, preferredOxidationStates: [-3, -2, -1, 0, 1, 2, 3, 4, 5] }],
-    [8, { atomicNumber: 8, symbol: 'O', name: 'Oxygen', valenceElectrons: 6, maxBonds: 2, electronegativity: 3.44, atomicRadius: 0.73, ionizationEnergy: 13.6, electronAffinity: 1.46, preferredOxidationStates: [-2, -1, 0, 1, 2] }],
-    [9, { atomicNumber: 9, symbol: 'F', name: 'Fluorine', valenceElectrons: 7, maxBonds: 1, electronegativity: 3.98, atomicRadius: 0.71, ionizationEnergy: 17.4, electronAffinity: 3.40, preferredOxidationStates: [-1] }],
-    [10, { atomicNumber: 10, symbol: 'Ne', name: 'Neon', valenceElectrons: 8, maxBonds: 0, electronegativity: 0.0, atomicRadius: 0.69, ionizationEnergy: 21.6, electronAffinity: 0.0, preferredOxidationStates: [0] }],
-    [11, { atomicNumber: 11, symbol: 'Na', name: 'Sodium', valenceElectrons: 1, maxBonds: 1, electronegativity: 0.93, atomicRadius: 1.86, ionizationEnergy: 5.1, electronAffinity: 0.55, preferredOxidationStates: [1] }],
-    [12, { atomicNumber: 12, symbol: 'Mg', name: 'Magnesium', valenceElectrons: 2, maxBonds: 2, electronegativity: 1.31, atomicRadius: 1.60, ionizationEnergy: 7.6, electronAffinity: 0.0, preferredOxidationStates: [2] }],
-    [13, { atomicNumber: 13, symbol: 'Al', name: 'Aluminum', valenceElectrons: 3, maxBonds: 3, electronegativity: 1.61, atomicRadius: 1.43, ionizationEnergy: 6.0, electronAffinity: 0.43, preferredOxidationStates: [3] }],
-    [14, { atomicNumber: 14, symbol: 'Si', name: 'Silicon', valenceElectrons: 4, maxBonds: 4, electronegativity: 1.90, atomicRadius: 1.18, ionizationEnergy: 8.2, electronAffinity: 1.39, preferredOxidationStates: [-4, 2, 4] }],
-    [15, { atomicNumber: 15, symbol: 'P', name: 'Phosphorus', valenceElectrons: 5, maxBonds: 5, electronegativity: 2.19, atomicRadius: 1.10, ionizationEnergy: 10.5, electronAffinity: 0.75, preferredOxidationStates: [-3, 3, 5] }],
-    [16, { atomicNumber: 16, symbol: 'S', name: 'Sulfur', valenceElectrons: 6, maxBonds: 6, electronegativity: 2.58, atomicRadius: 1.04, ionizationEnergy: 10.4, electronAffinity: 2.08, preferredOxidationStates: [-2, 2, 4, 6] }],
-    [17, { atomicNumber: 17, symbol: 'Cl', name: 'Chlorine', valenceElectrons: 7, maxBonds: 7, electronegativity: 3.16, atomicRadius: 0.99, ionizationEnergy: 13.0, electronAffinity: 3.61, preferredOxidationStates: [-1, 1, 3, 5, 7] }],
-    [18, { atomicNumber: 18, symbol: 'Ar', name: 'Argon', valenceElectrons: 8, maxBonds: 0, electronegativity: 0.0, atomicRadius: 0.97, ionizationEnergy: 15.8, electronAffinity: 0.0, preferredOxidationStates: [0] }]
-  ]);
+  // Bond graph: atom id -> (neighbour id -> bond order)
+  private bondGraph = new Map<number, Map<number, number>>();
+  private graphAtoms = new Map<number, ChemicalAtom>();
 
   // Molecular vibration parameters
   private vibrationAmplitude = 0.1;
   private vibrationFrequency = 2.0;
   private rotationSpeed = 0.5;
 
-  constructor() {}
+  constructor(private elements: ElementRegistryService) {}
 
   /**
-   * Determines if two atoms can form a bond based on chemical principles
+   * Determines if two atoms can form a bond based on chemical principles.
+   * Whether they actually do is left to bondFormationProbability.
    */
-  canFormBond(atomA: any, atomB: any, systemEnergy: number): boolean {
-    const elementA = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(atomA.protons);
-    const elementB = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(atomB.protons);
+  canFormBond(atomA: any, atomB: any): boolean {
+    const elementA = this.elements.getElement(atomA.protons);
+    const elementB = this.elements.getElement(atomB.protons);
     
     if (!elementA || !elementB) return false;
     
@@ -80,12 +156,254 @@ export class AutonomousChemistryEngine {
     const bondsA = this.getCurrentBondCount(atomA);
     const bondsB = this.getCurrentBondCount(atomB);
     
-    if (bondsA >= elementA.maxBonds || bondsB >= elementB.maxBonds) return false;
-    
-    // Calculate bond formation energy requirement
-    const activationEnergy = this.calculateActivationEnergy(atomA, atomB);
-    
-    return systemEnergy >= activationEnergy;
+    return bondsA < elementA.maxBonds && bondsB < elementB.maxBonds;
+  }
+
+  /**
+   * Chance that an encounter at the given local temperature forms the bond
+   */
+  bondFormationProbability(atomA: any, atomB: any, temperature: number, reactionSpeed: number, catalysed: boolean = false): number {
+    const activationEnergy = this.getActivationEnergy(atomA, atomB) * (catalysed ? CATALYST_ACTIVATION_FACTOR : 1);
+    return reactionProbability(activationEnergy, temperature, reactionSpeed);
+  }
+
+  // ==================== BOND GRAPH ====================
+
+  /**
+   * Registers a bond between two atoms. Returns false if it would break valence rules.
+   */
+  addBond(atomA: ChemicalAtom, atomB: ChemicalAtom, order: BondOrder = 1): boolean {
+    if (atomA.id === atomB.id || this.hasBond(atomA, atomB)) return false;
+    if (this.getFreeValence(atomA) < order || this.getFreeValence(atomB) < order) return false;
+
+    this.linkAtoms(atomA, atomB, order);
+    return true;
+  }
+
+  /**
+   * Turns a single bond into a double bond, or a double into a triple, if both atoms have valence left
+   */
+  raiseBondOrder(atomA: ChemicalAtom, atomB: ChemicalAtom): boolean {
+    const order = this.getBondOrder(atomA, atomB);
+    if (order === 0 || order >= 3) return false;
+    if (this.getFreeValence(atomA) < 1 || this.getFreeValence(atomB) < 1) return false;
+
+    this.linkAtoms(atomA, atomB, order + 1);
+    return true;
+  }
+
+  /**
+   * Picks the bond order two atoms would naturally form given their remaining valence
+   */
+  suggestBondOrder(atomA: ChemicalAtom, atomB: ChemicalAtom): BondOrder {
+    const elementA = this.elements.getElement(atomA.protons);
+    const elementB = this.elements.getElement(atomB.protons);
+    if (!elementA || !elementB) return 1;
+
+    const order = Math.min(
+      this.calculateBondOrder(elementA, elementB),
+      this.getFreeValence(atomA),
+      this.getFreeValence(atomB)
+    );
+    return Math.max(1, Math.min(order, 3)) as BondOrder;
+  }
+
+  removeBond(atomA: ChemicalAtom, atomB: ChemicalAtom): boolean {
+    if (!this.hasBond(atomA, atomB)) return false;
+
+    this.bondGraph.get(atomA.id)!.delete(atomB.id);
+    this.bondGraph.get(atomB.id)!.delete(atomA.id);
+    return true;
+  }
+
+  /**
+   * Drops an atom and every bond attached to it from the graph
+   */
+  removeAtom(atom: ChemicalAtom): void {
+    const neighbours = this.bondGraph.get(atom.id);
+    if (neighbours) {
+      neighbours.forEach((_, neighbourId) => this.bondGraph.get(neighbourId)?.delete(atom.id));
+    }
+    this.bondGraph.delete(atom.id);
+    this.graphAtoms.delete(atom.id);
+  }
+
+  clearBonds(): void {
+    this.bondGraph.clear();
+    this.graphAtoms.clear();
+  }
+
+  hasBond(atomA: ChemicalAtom, atomB: ChemicalAtom): boolean {
+    return this.bondGraph.get(atomA.id)?.has(atomB.id) ?? false;
+  }
+
+  getBondOrder(atomA: ChemicalAtom, atomB: ChemicalAtom): BondOrder | 0 {
+    return (this.bondGraph.get(atomA.id)?.get(atomB.id) ?? 0) as BondOrder | 0;
+  }
+
+  getNeighbours(atom: ChemicalAtom): ChemicalAtom[] {
+    const neighbours = this.bondGraph.get(atom.id);
+    if (!neighbours) return [];
+    return Array.from(neighbours.keys()).map(id => this.graphAtoms.get(id)!);
+  }
+
+  getBondOrderSum(atom: ChemicalAtom): number {
+    const neighbours = this.bondGraph.get(atom.id);
+    if (!neighbours) return 0;
+    let sum = 0;
+    neighbours.forEach(order => sum += order);
+    return sum;
+  }
+
+  getFreeValence(atom: ChemicalAtom): number {
+    return Math.max(0, this.elements.getMaxBonds(atom.protons) - this.getBondOrderSum(atom));
+  }
+
+  // ==================== IONS ====================
+
+  getCharge(atom: ChargedAtom): number {
+    return atom.protons - atom.electronsCount;
+  }
+
+  /**
+   * A metal next to a much more electronegative element gives up electrons instead of sharing them
+   */
+  isIonicPair(atomA: ChemicalAtom, atomB: ChemicalAtom): boolean {
+    const elementA = this.elements.getElement(atomA.protons);
+    const elementB = this.elements.getElement(atomB.protons);
+    if (!elementA || !elementB) return false;
+    if (!elementA.electronegativity || !elementB.electronegativity) return false;
+
+    const donor = elementA.electronegativity < elementB.electronegativity ? elementA : elementB;
+    const difference = Math.abs(elementA.electronegativity - elementB.electronegativity);
+    return difference > IONIC_ELECTRONEGATIVITY_DIFFERENCE && this.isMetal(donor);
+  }
+
+  /**
+   * Works out how many electrons move from the metal to the non-metal: the metal
+   * reaches its highest common oxidation state and the non-metal its lowest
+   * (a full octet), taking into account any charge either atom already carries.
+   */
+  planElectronTransfer(atomA: ChargedAtom, atomB: ChargedAtom): ElectronTransfer | null {
+    if (!this.isIonicPair(atomA, atomB)) return null;
+
+    const elementA = this.elements.getElement(atomA.protons)!;
+    const elementB = this.elements.getElement(atomB.protons)!;
+    const [donor, acceptor] = elementA.electronegativity < elementB.electronegativity
+      ? [atomA, atomB]
+      : [atomB, atomA];
+    const donorElement = this.elements.getElement(donor.protons)!;
+    const acceptorElement = this.elements.getElement(acceptor.protons)!;
+
+    const maxCation = Math.max(0, ...donorElement.preferredOxidationStates);
+    const maxAnion = -Math.min(0, ...acceptorElement.preferredOxidationStates);
+    const canGive = maxCation - this.getCharge(donor);
+    const canTake = maxAnion + this.getCharge(acceptor);
+    const electrons = Math.min(canGive, canTake, donor.electronsCount);
+
+    return electrons > 0 ? { donor, acceptor, electrons } : null;
+  }
+
+  // ==================== STRUCTURE IDENTIFICATION ====================
+
+  /**
+   * Identifies a molecule by comparing its bond graph with the known structures.
+   * Matching is on connectivity (which element is bonded to which); bond orders
+   * are not compared so a structure is still recognised while a bond is being upgraded.
+   */
+  identifyStructure(atoms: ChemicalAtom[]): StructureIdentification {
+    const problems = this.findConnectivityProblems(atoms);
+    if (problems.length > 0) {
+      return { status: 'impossible', problems };
+    }
+
+    const structure = this.findStructuresByFormula(atoms).find(candidate => this.matchesStructure(atoms, candidate));
+    return structure ? { status: 'known', structure, problems } : { status: 'unknown', problems };
+  }
+
+  /**
+   * Known structures with the same elements as the given atoms, whatever their
+   * connectivity. Used to ask whether a set of atoms could become a known molecule.
+   */
+  findStructuresByFormula(atoms: { protons: number }[]): KnownStructure[] {
+    const key = this.compositionKey(atoms.map(a => a.protons));
+    return KNOWN_STRUCTURES.filter(structure => this.compositionKey(structure.atoms) === key);
+  }
+
+  /**
+   * Reasons the current bonds can't exist: too many bonds for the element, or a bonded noble gas
+   */
+  findConnectivityProblems(atoms: ChemicalAtom[]): string[] {
+    const problems: string[] = [];
+
+    for (const atom of atoms) {
+      const element = this.elements.getElement(atom.protons);
+      const bondCount = this.getBondOrderSum(atom);
+      if (!element || bondCount === 0) continue;
+
+      if (element.maxBonds === 0) {
+        problems.push(`${element.symbol} es un gas noble y no forma enlaces`);
+      } else if (bondCount > element.maxBonds) {
+        problems.push(`${element.symbol} tiene ${bondCount} enlaces pero admite como máximo ${element.maxBonds}`);
+      }
+    }
+    return problems;
+  }
+
+  private compositionKey(protons: number[]): string {
+    return [...protons].sort((a, b) => a - b).join(',');
+  }
+
+  /**
+   * Graph isomorphism by backtracking: maps each template slot to an atom of the same
+   * element and degree, checking adjacency against every slot mapped so far.
+   */
+  private matchesStructure(atoms: ChemicalAtom[], structure: KnownStructure): boolean {
+    if (atoms.length !== structure.atoms.length) return false;
+
+    const members = new Set(atoms.map(a => a.id));
+    const atomNeighbours = new Map<number, Set<number>>(atoms.map(a => [
+      a.id,
+      new Set(this.getNeighbours(a).filter(n => members.has(n.id)).map(n => n.id))
+    ]));
+    const slotNeighbours = structure.atoms.map(() => new Set<number>());
+    structure.bonds.forEach(([a, b]) => {
+      slotNeighbours[a].add(b);
+      slotNeighbours[b].add(a);
+    });
+
+    let atomEdges = 0;
+    atomNeighbours.forEach(n => atomEdges += n.size);
+    if (atomEdges / 2 !== structure.bonds.length) return false;
+
+    // Most connected slots first prunes the search fastest
+    const order = structure.atoms.map((_, i) => i).sort((a, b) => slotNeighbours[b].size - slotNeighbours[a].size);
+    const mapping = new Map<number, ChemicalAtom>();
+    const used = new Set<number>();
+
+    const assign = (index: number): boolean => {
+      if (index === order.length) return true;
+      const slot = order[index];
+
+      for (const atom of atoms) {
+        if (used.has(atom.id) || atom.protons !== structure.atoms[slot]) continue;
+        if (atomNeighbours.get(atom.id)!.size !== slotNeighbours[slot].size) continue;
+
+        const consistent = Array.from(mapping.entries()).every(([mappedSlot, mappedAtom]) =>
+          slotNeighbours[slot].has(mappedSlot) === atomNeighbours.get(atom.id)!.has(mappedAtom.id)
+        );
+        if (!consistent) continue;
+
+        mapping.set(slot, atom);
+        used.add(atom.id);
+        if (assign(index + 1)) return true;
+        mapping.delete(slot);
+        used.delete(atom.id);
+      }
+      return false;
+    };
+
+    return assign(0);
   }
 
   /**
@@ -125,8 +443,8 @@ export class AutonomousChemistryEngine {
     atoms.forEach(atom => atomBondCounts.set(atom.id, 0));
     
     for (const bond of possibleBonds) {
-      const elementA = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(bond.atomA.protons);
-      const elementB = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(bond.atomB.protons);
+      const elementA = this.elements.getElement(bond.atomA.protons);
+      const elementB = this.elements.getElement(bond.atomB.protons);
       
       if (!elementA || !elementB) continue;
       
@@ -159,7 +477,7 @@ export class AutonomousChemistryEngine {
     // Sort elements by electronegativity (least electronegative first)
     const sortedElements = Array.from(composition.entries())
       .map(([protons, count]) => ({
-        element: AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(protons)!,
+        element: this.elements.getElement(protons)!,
         count
       }))
       .filter(item => item.element)
@@ -204,16 +522,29 @@ export class AutonomousChemistryEngine {
     );
     
     const bondCount = centralBonds.length;
-    const element = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(centralAtom.protons);
-    
-    if (!element) return 'unknown';
+    if (!this.elements.getElement(centralAtom.protons)) return 'unknown';
     
-    // Calculate lone pairs
-    const lonePairs = Math.max(0, (element.valenceElectrons - bondCount * 2) / 2);
-    const totalElectronPairs = bondCount + lonePairs;
+    // Each bond uses as many of the central atom's electrons as its order
+    const bondingElectrons = centralBonds.reduce((sum, b) => sum + b.bondOrder, 0);
+    const lonePairs = this.countLonePairs(centralAtom, bondingElectrons);
     
-    // VSEPR geometry determination
+    return this.geometryName(bondCount + lonePairs, lonePairs);
+  }
+
+  /**
+   * VSEPR geometry of an atom from its bonds in the bond graph
+   */
+  getAtomGeometry(atom: ChemicalAtom): string {
+    const bondCount = this.getNeighbours(atom).length;
+    if (bondCount === 0) return 'atomic';
+
+    const lonePairs = this.countLonePairs(atom, this.getBondOrderSum(atom));
+    return this.geometryName(bondCount + lonePairs, lonePairs);
+  }
+
+  private geometryName(totalElectronPairs: number, lonePairs: number): string {
     switch (totalElectronPairs) {
+      case 1: return 'linear';
       case 2: return 'linear';
       case 3: return lonePairs === 0 ? 'trigonal_planar' : 'bent';
       case 4: 
@@ -238,7 +569,18 @@ export class AutonomousChemistryEngine {
   }
 
   /**
-   * Calculates 3D positions for atoms based on molecular geometry
+   * Non-bonding pairs left on an atom once its bonds are accounted for
+   */
+  private countLonePairs(atom: ChemicalAtom, bondingElectrons: number): number {
+    if (!this.elements.getElement(atom.protons)) return 0;
+
+    const charge = 'electronsCount' in atom ? this.getCharge(atom as ChargedAtom) : 0;
+    const valence = this.elements.getValenceElectrons(atom.protons);
+    return Math.max(0, Math.floor((valence - charge - bondingElectrons) / 2));
+  }
+
+  /**
+   * Calculates 3D positions for atoms around a central atom based on molecular geometry
    */
   calculateMolecularPositions(atoms: any[], geometry: string, bondLength: number, centralAtom?: any): Map<number, THREE.Vector3> {
     const positions = new Map<number, THREE.Vector3>();
@@ -261,82 +603,102 @@ export class AutonomousChemistryEngine {
     const otherAtoms = atoms.filter(a => a.id !== centralAtom.id);
     positions.set(centralAtom.id, new THREE.Vector3(0, 0, 0));
     
-    switch (geometry) {
-      case 'linear':
-        otherAtoms.forEach((atom, i) => {
-          const x = (i - (otherAtoms.length - 1) / 2) * bondLength;
-          positions.set(atom.id, new THREE.Vector3(x, 0, 0));
-        });
-        break;
-        
-      case 'bent':
-        const bendAngle = 104.5 * (Math.PI / 180); // Water-like angle
-        otherAtoms.forEach((atom, i) => {
-          const angle = i === 0 ? bendAngle / 2 : -bendAngle / 2;
-          positions.set(atom.id, new THREE.Vector3(
-            bondLength * Math.sin(angle),
-            bondLength * Math.cos(angle),
-            0
-          ));
-        });
-        break;
-        
-      case 'trigonal_planar':
-        otherAtoms.forEach((atom, i) => {
-          const angle = (2 * Math.PI * i) / 3;
-          positions.set(atom.id, new THREE.Vector3(
-            bondLength * Math.cos(angle),
-            bondLength * Math.sin(angle),
-            0
-          ));
-        });
-        break;
-        
-      case 'tetrahedral':
-        const tetrahedralPositions = [
-          new THREE.Vector3(1, 1, 1),
-          new THREE.Vector3(-1, -1, 1),
-          new THREE.Vector3(-1, 1, -1),
-          new THREE.Vector3(1, -1, -1)
-        ];
-        otherAtoms.forEach((atom, i) => {
-          if (i < tetrahedralPositions.length) {
-            const pos = tetrahedralPositions[i].normalize().multiplyScalar(bondLength);
-            positions.set(atom.id, pos);
-          }
-        });
-        break;
-        
-      case 'trigonal_pyramidal':
-        // Similar to tetrahedral but with one position for lone pair
-        const pyramidalPositions = [
-          new THREE.Vector3(0, bondLength, 0),
-          new THREE.Vector3(bondLength * Math.cos(0), -bondLength / 2, bondLength * Math.sin(0)),
-          new THREE.Vector3(bondLength * Math.cos(2 * Math.PI / 3), -bondLength / 2, bondLength * Math.sin(2 * Math.PI / 3)),
-          new THREE.Vector3(bondLength * Math.cos(4 * Math.PI / 3), -bondLength / 2, bondLength * Math.sin(4 * Math.PI / 3))
-        ];
-        otherAtoms.forEach((atom, i) => {
-          if (i < pyramidalPositions.length) {
-            positions.set(atom.id, pyramidalPositions[i]);
-          }
-        });
-        break;
-        
-      default:
-        // Default circular arrangement
-        otherAtoms.forEach((atom, i) => {
-          const angle = (2 * Math.PI * i) / otherAtoms.length;
-          positions.set(atom.id, new THREE.Vector3(
-            bondLength * Math.cos(angle),
-            bondLength * Math.sin(angle),
-            0
-          ));
-        });
-    }
+    // Unknown geometries spread the atoms evenly
+    const shape = GEOMETRY_DOMAINS[geometry] ?? { domains: otherAtoms.length, lonePairs: 0 };
+    const domains = Math.max(shape.domains, otherAtoms.length + shape.lonePairs);
+    const directions = this.bondingDirections(domains, shape.lonePairs);
+    
+    otherAtoms.forEach((atom, i) => {
+      positions.set(atom.id, directions[i].clone().multiplyScalar(bondLength));
+    });
     
     return positions;
   }
 
+  /**
+   * Places every atom of a molecule using the bond graph. Starting from the central
+   * atom, each atom's neighbours go into the VSEPR slots left free by its lone pairs,
+   * with the slot towards the atom it was reached from reserved for that bond, so
+   * chains and branches (ethanol, PCl₅, SF₆...) keep the right local shape.
+   * Positions are centred on the molecule's centroid.
+   */
+  calculateGraphPositions(atoms: ChemicalAtom[], bondLength: number): Map<number, THREE.Vector3> {
+    const positions = new Map<number, THREE.Vector3>();
+    if (atoms.length === 0) return positions;
+
+    const members = new Set(atoms.map(a => a.id));
+    const root = atoms.reduce((best, current) =>
+      this.getNeighbours(current).length > this.getNeighbours(best).length ? current : best
+    );
+
+    positions.set(root.id, new THREE.Vector3(0, 0, 0));
+    const queue: { atom: ChemicalAtom, towardsParent?: THREE.Vector3 }[] = [{ atom: root }];
+
+    while (queue.length > 0) {
+      const { atom, towardsParent } = queue.shift()!;
+      const neighbours = this.getNeighbours(atom).filter(n => members.has(n.id));
+      const lonePairs = this.countLonePairs(atom, this.getBondOrderSum(atom));
+      let directions = this.bondingDirections(neighbours.length + lonePairs, lonePairs);
+
+      if (towardsParent) {
+        // Turn the first bonding slot onto the bond we arrived through and keep the rest
+        const alignment = new THREE.Quaternion().setFromUnitVectors(directions[0], towardsParent);
+        directions = directions.slice(1).map(d => d.clone().applyQuaternion(alignment));
+      }
+
+      const origin = positions.get(atom.id)!;
+      const unplaced = neighbours.filter(n => !positions.has(n.id));
+      unplaced.forEach((neighbour, i) => {
+        const direction = directions[i];
+        const order = this.getBondOrder(atom, neighbour) || 1;
+        const length = bondLength * BOND_ORDER_LENGTH_FACTOR[order];
+        positions.set(neighbour.id, origin.clone().addScaledVector(direction, length));
+        queue.push({ atom: neighbour, towardsParent: direction.clone().negate() });
+      });
+    }
+
+    // Atoms with no bonds in the graph are spread around the molecule
+    const stray = atoms.filter(a => !positions.has(a.id));
+    stray.forEach((atom, i) => {
+      const angle = (2 * Math.PI * i) / stray.length;
+      positions.set(atom.id, new THREE.Vector3(Math.cos(angle), Math.sin(angle), 0).multiplyScalar(bondLength * 2));
+    });
+
+    const centroid = new THREE.Vector3();
+    positions.forEach(p => centroid.add(p));
+    centroid.divideScalar(positions.size);
+    positions.forEach(p => p.sub(centroid));
+
+    return positions;
+  }
+
+  /**
+   * Unit vectors for the bonding pairs of an atom with the given number of electron
+   * domains. Lone pairs take their preferred slots and squeeze the bonds slightly together.
+   */
+  private bondingDirections(domains: number, lonePairs: number): THREE.Vector3[] {
+    const slots = ELECTRON_DOMAIN_DIRECTIONS[domains]?.map(d => d.clone()) ?? this.spreadDirections(domains);
+    const lonePairDirections = slots.slice(0, lonePairs);
+    const bonding = slots.slice(lonePairs);
+
+    const lonePairSum = lonePairDirections.reduce((sum, d) => sum.add(d), new THREE.Vector3());
+    return bonding.map(d => d.addScaledVector(lonePairSum, -LONE_PAIR_REPULSION).normalize());
+  }
+
+  /**
+   * Evenly spread directions (Fibonacci sphere) for more than six electron domains
+   */
+  private spreadDirections(count: number): THREE.Vector3[] {
+    const directions: THREE.Vector3[] = [];
+    const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+    for (let i = 0; i < count; i++) {
+      const y = 1 - (2 * (i + 0.5)) / count;
+      const radius = Math.sqrt(1 - y * y);
+      directions.push(new THREE.Vector3(Math.cos(goldenAngle * i) * radius, y, Math.sin(goldenAngle * i) * radius));
+    }
+    return directions;
+  }
+
   /**
    * Applies molecular vibrations and rotations for realistic movement
    */
@@ -431,13 +793,28 @@ export class AutonomousChemistryEngine {
 
   // Private helper methods
   private getCurrentBondCount(atom: any): number {
-    // This would be implemented to count existing bonds for the atom
-    return 0; // Placeholder
+    return this.getBondOrderSum(atom);
+  }
+
+  private isMetal(element: ChemicalElement): boolean {
+    return ['alkali-metal', 'alkaline-earth-metal', 'transition-metal', 'post-transition-metal', 'lanthanide', 'actinide']
+      .includes(element.category);
+  }
+
+  private linkAtoms(atomA: ChemicalAtom, atomB: ChemicalAtom, order: number): void {
+    for (const atom of [atomA, atomB]) {
+      this.graphAtoms.set(atom.id, atom);
+      if (!this.bondGraph.has(atom.id)) {
+        this.bondGraph.set(atom.id, new Map());
+      }
+    }
+    this.bondGraph.get(atomA.id)!.set(atomB.id, order);
+    this.bondGraph.get(atomB.id)!.set(atomA.id, order);
   }
 
-  private calculateActivationEnergy(atomA: any, atomB: any): number {
-    const elementA = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(atomA.protons);
-    const elementB = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(atomB.protons);
+  getActivationEnergy(atomA: any, atomB: any): number {
+    const elementA = this.elements.getElement(atomA.protons);
+    const elementB = this.elements.getElement(atomB.protons);
     
     if (!elementA || !elementB) return Infinity;
     
@@ -451,10 +828,10 @@ export class AutonomousChemistryEngine {
     return Math.max(activationEnergy, 1); // Minimum activation energy
   }
 
-  private findOptimalCentralAtom(atoms: any[]): any {
+  findOptimalCentralAtom(atoms: any[]): any {
     return atoms.reduce((best, current) => {
-      const currentElement = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(current.protons);
-      const bestElement = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(best.protons);
+      const currentElement = this.elements.getElement(current.protons);
+      const bestElement = this.elements.getElement(best.protons);
       
       if (!currentElement || !bestElement) return best;
       
@@ -467,8 +844,8 @@ export class AutonomousChemistryEngine {
   }
 
   private calculateBondProperties(atomA: any, atomB: any): BondingPair | null {
-    const elementA = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(atomA.protons);
-    const elementB = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(atomB.protons);
+    const elementA = this.elements.getElement(atomA.protons);
+    const elementB = this.elements.getElement(atomB.protons);
     
     if (!elementA || !elementB) return null;
     
@@ -510,8 +887,8 @@ export class AutonomousChemistryEngine {
 
   private calculateBondOrder(elementA: ChemicalElement, elementB: ChemicalElement): number {
     // Simplified bond order calculation
-    const availableElectronsA = Math.min(elementA.valenceElectrons, elementA.maxBonds);
-    const availableElectronsB = Math.min(elementB.valenceElectrons, elementB.maxBonds);
+    const availableElectronsA = Math.min(this.elements.getValenceElectrons(elementA.atomicNumber), elementA.maxBonds);
+    const availableElectronsB = Math.min(this.elements.getValenceElectrons(elementB.atomicNumber), elementB.maxBonds);
     
     return Math.min(availableElectronsA, availableElectronsB, 3); // Max triple bond
   }
@@ -526,8 +903,8 @@ export class AutonomousChemistryEngine {
   }
 
   private calculateBondLength(atomA: any, atomB: any): number {
-    const elementA = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(atomA.protons);
-    const elementB = AutonomousChemistryEngine.CHEMICAL_ELEMENTS.get(atomB.protons);
+    const elementA = this.elements.getElement(atomA.protons);
+    const elementB = this.elements.getElement(atomB.protons);
     
     if (!elementA || !elementB) return 2.0;
     
@@ -0,0 +1,57 @@
+// Average gas-phase bond enthalpies in kJ/mol.
+// Keys list the two element symbols alphabetically joined by the bond: '-' single, '=' double, '#' triple.
+export const BOND_ENTHALPIES: { [bond: string]: number } = {
+  // Homonuclear
+  'H-H': 436,
+  'C-C': 348,
+  'C=C': 614,
+  'C#C': 839,
+  'N-N': 163,
+  'N=N': 418,
+  'N#N': 945,
+  'O-O': 146,
+  'O=O': 498,
+  'F-F': 155,
+  'Cl-Cl': 242,
+  'Br-Br': 193,
+  'I-I': 151,
+  'S-S': 266,
+  'P-P': 201,
+  'Si-Si': 226,
+
+  // Hydrogen
+  'C-H': 413,
+  'H-N': 391,
+  'H-O': 463,
+  'F-H': 567,
+  'Cl-H': 431,
+  'Br-H': 366,
+  'H-I': 299,
+  'H-S': 363,
+  'H-P': 322,
+  'H-Si': 318,
+
+  // Carbon
+  'C-N': 293,
+  'C=N': 615,
+  'C#N': 891,
+  'C-O': 358,
+  'C=O': 799,
+  'C#O': 1072,
+  'C-F': 485,
+  'C-Cl': 328,
+  'C-S': 272,
+
+  // Other
+  'N-O': 201,
+  'N=O': 607,
+  'F-N': 272,
+  'Cl-N': 200,
+  'F-O': 190,
+  'Cl-O': 203,
+  'O=S': 523,
+  'Cl-P': 326,
+  'F-S': 327,
+  'O-Si': 452,
+  'Cl-Na': 412
+};
@@ -90,6 +90,9 @@ import { SIMULATION_MODES, SimulationMode } from './simulation-config';
           <button class="action-btn tertiary" (click)="openTutorial()">
             📖 Tutorial
           </button>
+          <button class="action-btn lab" (click)="openLabTools()">
+            🔬 Laboratorio
+          </button>
         </div>
       </div>
 
@@ -116,6 +119,28 @@ import { SIMULATION_MODES, SimulationMode } from './simulation-config';
         </div>
       </div>
 
+      <!-- Reaction Rules -->
+      <div class="panel-section">
+        <div class="section-header">
+          <span class="section-icon">⚖️</span>
+          <span>Reacciones</span>
+        </div>
+        <div class="view-options">
+          <label class="checkbox-option">
+            <input 
+              type="checkbox" 
+              [checked]="stoichiometryStrict"
+              (change)="toggleStoichiometry()">
+            <span>Estequiometría estricta</span>
+          </label>
+        </div>
+        <p class="mode-description">
+          {{ stoichiometryStrict
+            ? 'Solo reaccionan conjuntos completos de reactivos (2H₂ + O₂ → 2H₂O)'
+            : 'Los átomos se enlazan libremente al acercarse' }}
+        </p>
+      </div>
+
       <!-- View Options -->
       <div class="panel-section">
         <div class="section-header">
@@ -137,6 +162,13 @@ import { SIMULATION_MODES, SimulationMode } from './simulation-config';
               (change)="toggleElectrons()">
             <span>Mostrar electrones</span>
           </label>
+          <label class="checkbox-option">
+            <input 
+              type="checkbox" 
+              [checked]="orbitalView"
+              (change)="toggleOrbitalView()">
+            <span>Orbitales cuánticos</span>
+          </label>
           <label class="checkbox-option">
             <input 
               type="checkbox" 
@@ -349,6 +381,16 @@ import { SIMULATION_MODES, SimulationMode } from './simulation-config';
       box-shadow: 0 4px 12px rgba(255, 152, 0, 0.3);
     }
 
+    .action-btn.lab {
+      background: linear-gradient(135deg, #ab47bc 0%, #8e24aa 100%);
+      color: #fff;
+    }
+
+    .action-btn.lab:hover {
+      transform: translateY(-1px);
+      box-shadow: 0 4px 12px rgba(142, 36, 170, 0.3);
+    }
+
     .bonding-controls {
       display: flex;
       flex-direction: column;
@@ -444,8 +486,10 @@ export class ControlPanelComponent {
   @Input() selectedAtomCount = 0;
   @Input() showLabels = true;
   @Input() showElectrons = true;
+  @Input() orbitalView = false;
   @Input() showBonds = true;
   @Input() showGrid = false;
+  @Input() stoichiometryStrict = false;
   @Input() atomCount = 0;
   @Input() moleculeCount = 0;
   @Input() bondCount = 0;
@@ -458,11 +502,14 @@ export class ControlPanelComponent {
   @Output() periodicTableOpened = new EventEmitter<void>();
   @Output() experimentsOpened = new EventEmitter<void>();
   @Output() tutorialOpened = new EventEmitter<void>();
+  @Output() labToolsOpened = new EventEmitter<void>();
   @Output() bondingModeToggled = new EventEmitter<void>();
   @Output() labelsToggled = new EventEmitter<void>();
   @Output() electronsToggled = new EventEmitter<void>();
+  @Output() orbitalViewToggled = new EventEmitter<void>();
   @Output() bondsToggled = new EventEmitter<void>();
   @Output() gridToggled = new EventEmitter<void>();
+  @Output() stoichiometryToggled = new EventEmitter<void>();
 
   modes = Object.entries(SIMULATION_MODES).map(([key, value]) => ({ key, value }));
 
@@ -511,6 +558,10 @@ export class ControlPanelComponent {
     this.tutorialOpened.emit();
   }
 
+  openLabTools(): void {
+    this.labToolsOpened.emit();
+  }
+
   toggleBondingMode(): void {
     this.bondingModeToggled.emit();
   }
@@ -523,10 +574,18 @@ export class ControlPanelComponent {
     this.electronsToggled.emit();
   }
 
+  toggleOrbitalView(): void {
+    this.orbitalViewToggled.emit();
+  }
+
   toggleBonds(): void {
     this.bondsToggled.emit();
   }
 
+  toggleStoichiometry(): void {
+    this.stoichiometryToggled.emit();
+  }
+
   toggleGrid(): void {
     this.gridToggled.emit();
   }
@@ -0,0 +1,76 @@
+import { effectiveNuclearCharge, electronConfiguration, formatConfiguration, isBound, shellOccupancy, slaterEnergy, valenceElectrons } from './electron-configuration';
+
+describe('electron configuration', () => {
+  it('should fill subshells in Madelung order', () => {
+    expect(formatConfiguration(electronConfiguration(11))).toBe('1s² 2s² 2p⁶ 3s¹');
+    expect(formatConfiguration(electronConfiguration(26), true)).toBe('[Ar] 3d⁶ 4s²');
+  });
+
+  it('should apply the half-filled and filled d exceptions', () => {
+    expect(formatConfiguration(electronConfiguration(24), true)).toBe('[Ar] 3d⁵ 4s¹');
+    expect(formatConfiguration(electronConfiguration(29), true)).toBe('[Ar] 3d¹⁰ 4s¹');
+    expect(formatConfiguration(electronConfiguration(46), true)).toBe('[Kr] 4d¹⁰');
+  });
+
+  it('should conserve electrons for every element', () => {
+    for (let z = 1; z <= 118; z++) {
+      const total = electronConfiguration(z).reduce((sum, s) => sum + s.electrons, 0);
+      expect(total).withContext(`Z=${z}`).toBe(z);
+    }
+  });
+
+  it('should take electrons from 4s before 3d when ionising', () => {
+    expect(formatConfiguration(electronConfiguration(26, 24), true)).toBe('[Ar] 3d⁶');
+    expect(formatConfiguration(electronConfiguration(63, 60), true)).toBe('[Xe] 4f⁶');
+    expect(formatConfiguration(electronConfiguration(17, 18))).toBe('1s² 2s² 2p⁶ 3s² 3p⁶');
+  });
+
+  it('should put potassium\'s last electron in a new shell', () => {
+    expect(shellOccupancy(electronConfiguration(19))).toEqual([2, 8, 8, 1]);
+    expect(shellOccupancy(electronConfiguration(36))).toEqual([2, 8, 18, 8]);
+  });
+
+  it('should count valence electrons outside filled d subshells', () => {
+    expect(valenceElectrons(electronConfiguration(8))).toBe(6);
+    expect(valenceElectrons(electronConfiguration(18))).toBe(8);
+    expect(valenceElectrons(electronConfiguration(26))).toBe(8);
+    expect(valenceElectrons(electronConfiguration(29))).toBe(1);
+    expect(valenceElectrons(electronConfiguration(31))).toBe(3);
+    expect(valenceElectrons(electronConfiguration(53))).toBe(7);
+  });
+
+  it('should keep the buried f electrons of lanthanides and actinides in the core', () => {
+    expect(valenceElectrons(electronConfiguration(57))).toBe(3);
+    expect(valenceElectrons(electronConfiguration(64))).toBe(3);
+    expect(valenceElectrons(electronConfiguration(68))).toBe(3);
+    expect(valenceElectrons(electronConfiguration(69))).toBe(3);
+    expect(valenceElectrons(electronConfiguration(70))).toBe(3);
+    expect(valenceElectrons(electronConfiguration(71))).toBe(3);
+    expect(valenceElectrons(electronConfiguration(94))).toBe(3);
+    expect(valenceElectrons(electronConfiguration(98))).toBe(3);
+    expect(valenceElectrons(electronConfiguration(103))).toBe(3);
+  });
+
+  it('should screen the nuclear charge by Slater\'s rules', () => {
+    const sodium = electronConfiguration(11);
+    expect(effectiveNuclearCharge(11, sodium, { shell: 3, type: 's' })).toBeCloseTo(2.2, 5);
+    const zinc = electronConfiguration(30);
+    expect(effectiveNuclearCharge(30, zinc, { shell: 3, type: 'd' })).toBeCloseTo(8.85, 5);
+    expect(effectiveNuclearCharge(30, zinc, { shell: 4, type: 's' })).toBeCloseTo(4.35, 5);
+  });
+
+  it('should jump in ionization energy once a noble gas core is reached', () => {
+    const ionization = (z: number, electrons: number) =>
+      slaterEnergy(z, electronConfiguration(z, electrons - 1)) - slaterEnergy(z, electronConfiguration(z, electrons));
+    expect(ionization(3, 2)).toBeCloseTo(75.9, 0);
+    expect(ionization(13, 10)).toBeGreaterThan(4 * ionization(13, 11));
+  });
+
+  it('should not bind electrons that would open a new shell on an anion', () => {
+    expect(isBound(8, 10)).toBeTrue();
+    expect(isBound(8, 11)).toBeFalse();
+    expect(isBound(9, 11)).toBeFalse();
+    expect(isBound(17, 19)).toBeFalse();
+    expect(isBound(11, 12)).toBeTrue();
+  });
+});
@@ -0,0 +1,236 @@
+export type OrbitalType = 's' | 'p' | 'd' | 'f';
+
+export interface Subshell {
+  shell: number; // Principal quantum number n
+  type: OrbitalType;
+  electrons: number;
+}
+
+const ORBITAL_TYPES: OrbitalType[] = ['s', 'p', 'd', 'f'];
+
+// Electrons each orbital type holds: two per orbital, 2l + 1 orbitals
+export const SUBSHELL_CAPACITY: { [type in OrbitalType]: number } = { s: 2, p: 6, d: 10, f: 14 };
+
+const NOBLE_GASES: { [electrons: number]: string } = {
+  2: 'He', 10: 'Ne', 18: 'Ar', 36: 'Kr', 54: 'Xe', 86: 'Rn'
+};
+
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+// Hydrogen ground-state binding energy in eV
+const RYDBERG_EV = 13.606;
+
+// Slater's effective principal quantum numbers, indexed by n
+const EFFECTIVE_SHELL = [0, 1, 2, 3, 3.7, 4.0, 4.2, 4.3];
+
+/**
+ * Order in which subshells fill (Madelung rule): by n + l, then by n
+ */
+export const AUFBAU_ORDER: { shell: number, type: OrbitalType }[] = (() => {
+  const order: { shell: number, type: OrbitalType }[] = [];
+  for (let sum = 1; sum <= 8; sum++) {
+    for (let shell = Math.ceil((sum + 1) / 2); shell <= sum; shell++) {
+      const l = sum - shell;
+      if (l < ORBITAL_TYPES.length) order.push({ shell, type: ORBITAL_TYPES[l] });
+    }
+  }
+  return order;
+})();
+
+// Neutral atoms whose ground state departs from the Madelung order, usually to reach a
+// half-filled or filled d or f subshell. Only the subshells that differ are listed.
+const AUFBAU_EXCEPTIONS: { [atomicNumber: number]: { [subshell: string]: number } } = {
+  24: { '4s': 1, '3d': 5 },   // Cr
+  29: { '4s': 1, '3d': 10 },  // Cu
+  41: { '5s': 1, '4d': 4 },   // Nb
+  42: { '5s': 1, '4d': 5 },   // Mo
+  44: { '5s': 1, '4d': 7 },   // Ru
+  45: { '5s': 1, '4d': 8 },   // Rh
+  46: { '5s': 0, '4d': 10 },  // Pd
+  47: { '5s': 1, '4d': 10 },  // Ag
+  57: { '4f': 0, '5d': 1 },   // La
+  58: { '4f': 1, '5d': 1 },   // Ce
+  64: { '4f': 7, '5d': 1 },   // Gd
+  78: { '6s': 1, '5d': 9 },   // Pt
+  79: { '6s': 1, '5d': 10 },  // Au
+  89: { '5f': 0, '6d': 1 },   // Ac
+  90: { '5f': 0, '6d': 2 },   // Th
+  91: { '5f': 2, '6d': 1 },   // Pa
+  92: { '5f': 3, '6d': 1 },   // U
+  93: { '5f': 4, '6d': 1 },   // Np
+  96: { '5f': 7, '6d': 1 },   // Cm
+  103: { '6d': 0, '7p': 1 }   // Lr
+};
+
+/**
+ * Ground-state electron configuration of an atom or ion, in filling order. Cations lose
+ * their outermost electrons first (4s before 3d); anions keep filling in Madelung order.
+ */
+export function electronConfiguration(atomicNumber: number, electrons: number = atomicNumber): Subshell[] {
+  const config = fillInOrder(atomicNumber);
+  const exceptions = AUFBAU_EXCEPTIONS[atomicNumber] ?? {};
+  for (const [label, count] of Object.entries(exceptions)) {
+    const subshell = config.find(s => subshellLabel(s) === label);
+    if (subshell) subshell.electrons = count;
+    else config.push({ shell: Number(label[0]), type: label[1] as OrbitalType, electrons: count });
+  }
+
+  if (electrons > atomicNumber) {
+    let extra = electrons - atomicNumber;
+    for (const { shell, type } of AUFBAU_ORDER) {
+      if (extra === 0) break;
+      let subshell = config.find(s => s.shell === shell && s.type === type);
+      if (!subshell) {
+        subshell = { shell, type, electrons: 0 };
+        config.push(subshell);
+      }
+      const added = Math.min(extra, SUBSHELL_CAPACITY[type] - subshell.electrons);
+      subshell.electrons += added;
+      extra -= added;
+    }
+  }
+
+  // Ionisation empties the outermost shell, then works back through the filling order
+  let missing = Math.max(0, atomicNumber - electrons);
+  const outermost = Math.max(...config.filter(s => s.electrons > 0).map(s => s.shell));
+  const removalRank = (s: Subshell) => fillingIndex(s) + (s.shell === outermost ? AUFBAU_ORDER.length : 0);
+  const removalOrder = [...config].sort((a, b) => removalRank(b) - removalRank(a));
+  for (const subshell of removalOrder) {
+    const removed = Math.min(missing, subshell.electrons);
+    subshell.electrons -= removed;
+    missing -= removed;
+  }
+
+  return config.filter(s => s.electrons > 0);
+}
+
+/**
+ * Electrons in each shell (K, L, M, ...), innermost first
+ */
+export function shellOccupancy(config: Subshell[]): number[] {
+  const shells: number[] = [];
+  for (const subshell of config) {
+    while (shells.length < subshell.shell) shells.push(0);
+    shells[subshell.shell - 1] += subshell.electrons;
+  }
+  return shells;
+}
+
+/**
+ * Electrons available for bonding: everything outside the noble gas core except filled d
+ * and f subshells lying under an outer shell (so iron has 8 and copper 1, but palladium 10).
+ * The (n-2)f electrons of lanthanides and actinides stay in the core; one of them bonds
+ * as if promoted to d when the atom has no d or p electron to bond with, giving the usual
+ * +3 (erbium has 3).
+ */
+export function valenceElectrons(config: Subshell[]): number {
+  const outside = config.slice(nobleGasCore(config)?.size ?? 0);
+  const outermost = Math.max(0, ...outside.map(s => s.shell));
+  const buriedF = outside.filter(s => s.type === 'f' && s.shell < outermost - 1);
+  const hasBondingDOrP = outside.some(s => (s.type === 'd' && s.shell === outermost - 1) || (s.type === 'p' && s.shell === outermost));
+  const promoted = buriedF.length > 0 && !hasBondingDOrP ? 1 : 0;
+  return promoted + outside
+    .filter(s => !buriedF.includes(s))
+    .filter(s => s.type === 's' || s.type === 'p' || s.shell === outermost || s.electrons < SUBSHELL_CAPACITY[s.type])
+    .reduce((sum, s) => sum + s.electrons, 0);
+}
+
+/**
+ * Nuclear charge felt by an electron in the given subshell once the other electrons have
+ * screened it, from Slater's rules
+ */
+export function effectiveNuclearCharge(atomicNumber: number, config: Subshell[], target: { shell: number, type: OrbitalType }): number {
+  const group = (s: { shell: number, type: OrbitalType }) => s.shell * 3 + Math.max(0, ORBITAL_TYPES.indexOf(s.type) - 1);
+  const targetGroup = group(target);
+
+  let shielding = 0;
+  for (const subshell of config) {
+    const electrons = subshell.electrons - (subshellLabel(subshell) === subshellLabel(target) ? 1 : 0);
+    if (electrons <= 0) continue;
+
+    if (group(subshell) === targetGroup) {
+      shielding += electrons * (target.shell === 1 ? 0.30 : 0.35);
+    } else if (group(subshell) < targetGroup) {
+      // Inner s and p electrons only partly screen the shell just outside them
+      const partial = (target.type === 's' || target.type === 'p') && subshell.shell === target.shell - 1;
+      shielding += electrons * (partial ? 0.85 : 1);
+    }
+  }
+  return atomicNumber - shielding;
+}
+
+/**
+ * Whether an isolated atom or ion holds on to all its electrons. Extra electrons must fit
+ * in the neutral atom's outer shell and feel a positive screened charge; one that would
+ * open a new shell (F²⁻, O³⁻) is repelled by the anion and flies off.
+ */
+export function isBound(atomicNumber: number, electrons: number): boolean {
+  if (electrons <= atomicNumber) return true;
+  const config = electronConfiguration(atomicNumber, electrons);
+  const outerShell = Math.max(...electronConfiguration(atomicNumber).map(s => s.shell));
+  return config.every(s => s.shell <= outerShell && effectiveNuclearCharge(atomicNumber, config, s) > 0);
+}
+
+/**
+ * Total energy in eV of the electrons, each bound like a hydrogen electron to its
+ * screened charge: -13.6 Zeff² / n*². Differences between an atom and its ions
+ * approximate successive ionization energies. Subshells with no screened charge left
+ * add nothing, so check isBound before trusting the energy of an anion.
+ */
+export function slaterEnergy(atomicNumber: number, config: Subshell[]): number {
+  return -config.reduce((sum, subshell) => {
+    const charge = Math.max(0, effectiveNuclearCharge(atomicNumber, config, subshell));
+    const shell = EFFECTIVE_SHELL[subshell.shell] ?? subshell.shell;
+    return sum + subshell.electrons * RYDBERG_EV * charge * charge / (shell * shell);
+  }, 0);
+}
+
+/**
+ * Written configuration such as '1s² 2s² 2p⁶ 3s¹'. With `abbreviate`, the largest noble
+ * gas core is written in brackets: '[Ne] 3s¹'.
+ */
+export function formatConfiguration(config: Subshell[], abbreviate = false): string {
+  const core = abbreviate ? nobleGasCore(config) : null;
+  const written = config.slice(core?.size ?? 0)
+    .sort((a, b) => a.shell - b.shell || ORBITAL_TYPES.indexOf(a.type) - ORBITAL_TYPES.indexOf(b.type))
+    .map(s => `${subshellLabel(s)}${superscript(s.electrons)}`);
+  return [core ? `[${core.symbol}]` : '', ...written].filter(part => part).join(' ');
+}
+
+export function subshellLabel(subshell: { shell: number, type: OrbitalType }): string {
+  return `${subshell.shell}${subshell.type}`;
+}
+
+/**
+ * The largest closed noble gas configuration the first subshells add up to, and how many
+ * subshells it spans. A noble gas atom is not its own core.
+ */
+function nobleGasCore(config: Subshell[]): { symbol: string, size: number } | null {
+  let core: { symbol: string, size: number } | null = null;
+  let counted = 0;
+  for (let i = 0; i < config.length - 1; i++) {
+    if (config[i].electrons < SUBSHELL_CAPACITY[config[i].type]) break;
+    counted += config[i].electrons;
+    if (NOBLE_GASES[counted]) core = { symbol: NOBLE_GASES[counted], size: i + 1 };
+  }
+  return core;
+}
+
+function fillInOrder(electrons: number): Subshell[] {
+  const config: Subshell[] = [];
+  for (const { shell, type } of AUFBAU_ORDER) {
+    if (electrons === 0) break;
+    const count = Math.min(electrons, SUBSHELL_CAPACITY[type]);
+    config.push({ shell, type, electrons: count });
+    electrons -= count;
+  }
+  return config;
+}
+
+function fillingIndex(subshell: Subshell): number {
+  return AUFBAU_ORDER.findIndex(s => s.shell === subshell.shell && s.type === subshell.type);
+}
+
+function superscript(value: number): string {
+  return String(value).split('').map(digit => SUPERSCRIPTS[Number(digit)]).join('');
+}
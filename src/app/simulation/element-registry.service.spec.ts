@@ -0,0 +1,66 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ElementRegistryService } from './element-registry.service';
+
+describe('ElementRegistryService', () => {
+  let service: ElementRegistryService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ElementRegistryService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should contain all 118 elements in order', () => {
+    const elements = service.getAll();
+    expect(elements.length).toBe(118);
+    elements.forEach((element, index) => expect(element.atomicNumber).toBe(index + 1));
+  });
+
+  it('should resolve elements by symbol', () => {
+    expect(service.getBySymbol('Na')?.atomicNumber).toBe(11);
+    expect(service.getBySymbol('Og')?.atomicNumber).toBe(118);
+  });
+
+  it('should use real valence for elements beyond the first period', () => {
+    expect(service.getMaxBonds(11)).toBe(1);
+    expect(service.getMaxBonds(10)).toBe(0);
+  });
+
+  it('should derive valence electrons from the electron configuration', () => {
+    expect(service.getValenceElectrons(6)).toBe(4);
+    expect(service.getValenceElectrons(19)).toBe(1);
+    expect(service.getValenceElectrons(30)).toBe(2);
+  });
+
+  it('should use measured first ionization energies and estimate later ones', () => {
+    expect(service.getIonizationEnergy(11, 11)).toBe(5.1);
+    expect(service.getIonizationEnergy(17, 18)).toBe(3.61);
+    expect(service.getIonizationEnergy(11, 10)).toBeGreaterThan(40);
+  });
+
+  it('should charge for every electron an anion keeps and refuse the ones it cannot bind', () => {
+    const addUntilRefused = (atomicNumber: number) => {
+      let electrons = atomicNumber;
+      while (service.canHoldElectrons(atomicNumber, electrons + 1)) {
+        electrons++;
+        // Either the affinity is released or the repulsion has to be paid; never free
+        expect(service.getIonizationEnergy(atomicNumber, electrons)).not.toBeCloseTo(0, 2);
+      }
+      return electrons;
+    };
+    expect(addUntilRefused(8)).toBe(10);
+    expect(addUntilRefused(9)).toBe(10);
+    expect(addUntilRefused(17)).toBe(18);
+    expect(addUntilRefused(0)).toBe(0);
+  });
+
+  it('should derive neutrons from the most common isotope', () => {
+    expect(service.getDefaultNeutrons(1)).toBe(0);
+    expect(service.getDefaultNeutrons(17)).toBe(18);
+    expect(service.getDefaultNeutrons(92)).toBe(146);
+  });
+});
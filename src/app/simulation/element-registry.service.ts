@@ -0,0 +1,100 @@
+import { Injectable } from '@angular/core';
+import { ChemicalElement, ELEMENTS, Isotope } from './elements-data';
+import { electronConfiguration, isBound, slaterEnergy, Subshell, valenceElectrons } from './electron-configuration';
+
+/**
+ * Single source of truth for element data. Every component and the chemistry
+ * engine read element properties from here instead of keeping their own maps.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ElementRegistryService {
+  private readonly byAtomicNumber = new Map<number, ChemicalElement>(
+    ELEMENTS.map(element => [element.atomicNumber, element])
+  );
+  private readonly bySymbol = new Map<string, ChemicalElement>(
+    ELEMENTS.map(element => [element.symbol, element])
+  );
+
+  getAll(): ChemicalElement[] {
+    return ELEMENTS;
+  }
+
+  getElement(atomicNumber: number): ChemicalElement | undefined {
+    return this.byAtomicNumber.get(atomicNumber);
+  }
+
+  getBySymbol(symbol: string): ChemicalElement | undefined {
+    return this.bySymbol.get(symbol);
+  }
+
+  getName(atomicNumber: number): string {
+    return this.getElement(atomicNumber)?.name || 'Custom';
+  }
+
+  getSymbol(atomicNumber: number): string {
+    return this.getElement(atomicNumber)?.symbol || '?';
+  }
+
+  getMaxBonds(atomicNumber: number): number {
+    return this.getElement(atomicNumber)?.maxBonds ?? 0;
+  }
+
+  /**
+   * Ground-state configuration of the element, or of its ion when `electrons` differs
+   * from the atomic number
+   */
+  getElectronConfiguration(atomicNumber: number, electrons: number = atomicNumber): Subshell[] {
+    return electronConfiguration(atomicNumber, electrons);
+  }
+
+  /**
+   * Energy in eV to pull one electron off an atom or ion holding `electrons` electrons.
+   * Neutral atoms and singly charged anions use the measured ionization energy and
+   * electron affinity; other ions are estimated from Slater orbital energies.
+   */
+  getIonizationEnergy(atomicNumber: number, electrons: number): number {
+    const element = this.getElement(atomicNumber);
+    if (element && electrons === atomicNumber) return element.ionizationEnergy;
+    if (element && electrons === atomicNumber + 1) return element.electronAffinity;
+
+    return slaterEnergy(atomicNumber, electronConfiguration(atomicNumber, electrons - 1))
+      - slaterEnergy(atomicNumber, electronConfiguration(atomicNumber, electrons));
+  }
+
+  /**
+   * Whether the atom can keep `electrons` electrons. Singly charged anions follow the
+   * measured electron affinity; more electrons than that must be bound in the model.
+   * A free neutron has no charge to hold any.
+   */
+  canHoldElectrons(atomicNumber: number, electrons: number): boolean {
+    if (!this.getElement(atomicNumber)) return false;
+    return electrons <= atomicNumber + 1 || isBound(atomicNumber, electrons);
+  }
+
+  getValenceElectrons(atomicNumber: number): number {
+    if (!this.getElement(atomicNumber)) return 0;
+    return valenceElectrons(electronConfiguration(atomicNumber));
+  }
+
+  getElectronegativity(atomicNumber: number): number {
+    return this.getElement(atomicNumber)?.electronegativity ?? 0;
+  }
+
+  getAtomicRadius(atomicNumber: number): number {
+    return this.getElement(atomicNumber)?.atomicRadius ?? 1.0;
+  }
+
+  /**
+   * Most abundant natural isotope, or the longest-lived one for synthetic elements
+   */
+  getMostCommonIsotope(atomicNumber: number): Isotope | undefined {
+    return this.getElement(atomicNumber)?.isotopes[0];
+  }
+
+  getDefaultNeutrons(atomicNumber: number): number {
+    const isotope = this.getMostCommonIsotope(atomicNumber);
+    return isotope ? isotope.massNumber - atomicNumber : atomicNumber;
+  }
+}
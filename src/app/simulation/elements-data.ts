@@ -0,0 +1,156 @@
+// Datos de los 118 elementos de la tabla periódica
+export type ElementCategory =
+  | 'alkali-metal'
+  | 'alkaline-earth-metal'
+  | 'transition-metal'
+  | 'post-transition-metal'
+  | 'metalloid'
+  | 'nonmetal'
+  | 'halogen'
+  | 'noble-gas'
+  | 'lanthanide'
+  | 'actinide';
+
+export interface Isotope {
+  massNumber: number;
+  abundance: number; // Natural abundance in %, 0 for purely synthetic/radiogenic isotopes
+}
+
+export interface ChemicalElement {
+  atomicNumber: number;
+  symbol: string;
+  name: string;
+  atomicMass: number; // u
+  category: ElementCategory;
+  period: number;
+  group: number | null; // null for the f-block rows
+  maxBonds: number;
+  electronegativity: number; // Pauling scale, 0 when unknown/inert
+  atomicRadius: number; // Covalent radius in Å
+  vanDerWaalsRadius: number; // Å
+  ionizationEnergy: number; // First ionization energy in eV
+  electronAffinity: number; // eV
+  preferredOxidationStates: number[];
+  isotopes: Isotope[]; // Most abundant (or most stable) first
+}
+
+export const ELEMENTS: ChemicalElement[] = [
+  { atomicNumber: 1, symbol: 'H', name: 'Hydrogen', atomicMass: 1.008, category: 'nonmetal', period: 1, group: 1, maxBonds: 1, electronegativity: 2.20, atomicRadius: 0.37, vanDerWaalsRadius: 1.20, ionizationEnergy: 13.6, electronAffinity: 0.75, preferredOxidationStates: [-1, 1], isotopes: [{ massNumber: 1, abundance: 99.98 }, { massNumber: 2, abundance: 0.02 }] },
+  { atomicNumber: 2, symbol: 'He', name: 'Helium', atomicMass: 4.0026, category: 'noble-gas', period: 1, group: 18, maxBonds: 0, electronegativity: 0.0, atomicRadius: 0.32, vanDerWaalsRadius: 1.40, ionizationEnergy: 24.6, electronAffinity: 0.0, preferredOxidationStates: [0], isotopes: [{ massNumber: 4, abundance: 100 }, { massNumber: 3, abundance: 0.0002 }] },
+  { atomicNumber: 3, symbol: 'Li', name: 'Lithium', atomicMass: 6.94, category: 'alkali-metal', period: 2, group: 1, maxBonds: 1, electronegativity: 0.98, atomicRadius: 1.52, vanDerWaalsRadius: 1.82, ionizationEnergy: 5.4, electronAffinity: 0.62, preferredOxidationStates: [1], isotopes: [{ massNumber: 7, abundance: 92.41 }, { massNumber: 6, abundance: 7.59 }] },
+  { atomicNumber: 4, symbol: 'Be', name: 'Beryllium', atomicMass: 9.0122, category: 'alkaline-earth-metal', period: 2, group: 2, maxBonds: 2, electronegativity: 1.57, atomicRadius: 1.12, vanDerWaalsRadius: 1.53, ionizationEnergy: 9.3, electronAffinity: 0.0, preferredOxidationStates: [2], isotopes: [{ massNumber: 9, abundance: 100 }] },
+  { atomicNumber: 5, symbol: 'B', name: 'Boron', atomicMass: 10.81, category: 'metalloid', period: 2, group: 13, maxBonds: 3, electronegativity: 2.04, atomicRadius: 0.88, vanDerWaalsRadius: 1.92, ionizationEnergy: 8.3, electronAffinity: 0.28, preferredOxidationStates: [3], isotopes: [{ massNumber: 11, abundance: 80.1 }, { massNumber: 10, abundance: 19.9 }] },
+  { atomicNumber: 6, symbol: 'C', name: 'Carbon', atomicMass: 12.011, category: 'nonmetal', period: 2, group: 14, maxBonds: 4, electronegativity: 2.55, atomicRadius: 0.77, vanDerWaalsRadius: 1.70, ionizationEnergy: 11.3, electronAffinity: 1.26, preferredOxidationStates: [-4, -3, -2, -1, 0, 1, 2, 3, 4], isotopes: [{ massNumber: 12, abundance: 98.93 }, { massNumber: 13, abundance: 1.07 }] },
+  { atomicNumber: 7, symbol: 'N', name: 'Nitrogen', atomicMass: 14.007, category: 'nonmetal', period: 2, group: 15, maxBonds: 3, electronegativity: 3.04, atomicRadius: 0.75, vanDerWaalsRadius: 1.55, ionizationEnergy: 14.5, electronAffinity: 0.07, preferredOxidationStates: [-3, -2, -1, 0, 1, 2, 3, 4, 5], isotopes: [{ massNumber: 14, abundance: 99.64 }, { massNumber: 15, abundance: 0.36 }] },
+  { atomicNumber: 8, symbol: 'O', name: 'Oxygen', atomicMass: 15.999, category: 'nonmetal', period: 2, group: 16, maxBonds: 2, electronegativity: 3.44, atomicRadius: 0.73, vanDerWaalsRadius: 1.52, ionizationEnergy: 13.6, electronAffinity: 1.46, preferredOxidationStates: [-2, -1, 0, 1, 2], isotopes: [{ massNumber: 16, abundance: 99.76 }, { massNumber: 18, abundance: 0.2 }, { massNumber: 17, abundance: 0.04 }] },
+  { atomicNumber: 9, symbol: 'F', name: 'Fluorine', atomicMass: 18.998, category: 'halogen', period: 2, group: 17, maxBonds: 1, electronegativity: 3.98, atomicRadius: 0.71, vanDerWaalsRadius: 1.47, ionizationEnergy: 17.4, electronAffinity: 3.40, preferredOxidationStates: [-1], isotopes: [{ massNumber: 19, abundance: 100 }] },
+  { atomicNumber: 10, symbol: 'Ne', name: 'Neon', atomicMass: 20.180, category: 'noble-gas', period: 2, group: 18, maxBonds: 0, electronegativity: 0.0, atomicRadius: 0.69, vanDerWaalsRadius: 1.54, ionizationEnergy: 21.6, electronAffinity: 0.0, preferredOxidationStates: [0], isotopes: [{ massNumber: 20, abundance: 90.48 }, { massNumber: 22, abundance: 9.25 }, { massNumber: 21, abundance: 0.27 }] },
+  { atomicNumber: 11, symbol: 'Na', name: 'Sodium', atomicMass: 22.990, category: 'alkali-metal', period: 3, group: 1, maxBonds: 1, electronegativity: 0.93, atomicRadius: 1.86, vanDerWaalsRadius: 2.27, ionizationEnergy: 5.1, electronAffinity: 0.55, preferredOxidationStates: [1], isotopes: [{ massNumber: 23, abundance: 100 }] },
+  { atomicNumber: 12, symbol: 'Mg', name: 'Magnesium', atomicMass: 24.305, category: 'alkaline-earth-metal', period: 3, group: 2, maxBonds: 2, electronegativity: 1.31, atomicRadius: 1.60, vanDerWaalsRadius: 1.73, ionizationEnergy: 7.6, electronAffinity: 0.0, preferredOxidationStates: [2], isotopes: [{ massNumber: 24, abundance: 78.99 }, { massNumber: 26, abundance: 11.01 }, { massNumber: 25, abundance: 10.0 }] },
+  { atomicNumber: 13, symbol: 'Al', name: 'Aluminum', atomicMass: 26.982, category: 'post-transition-metal', period: 3, group: 13, maxBonds: 3, electronegativity: 1.61, atomicRadius: 1.43, vanDerWaalsRadius: 1.84, ionizationEnergy: 6.0, electronAffinity: 0.43, preferredOxidationStates: [3], isotopes: [{ massNumber: 27, abundance: 100 }] },
+  { atomicNumber: 14, symbol: 'Si', name: 'Silicon', atomicMass: 28.085, category: 'metalloid', period: 3, group: 14, maxBonds: 4, electronegativity: 1.90, atomicRadius: 1.18, vanDerWaalsRadius: 2.10, ionizationEnergy: 8.2, electronAffinity: 1.39, preferredOxidationStates: [-4, 2, 4], isotopes: [{ massNumber: 28, abundance: 92.23 }, { massNumber: 29, abundance: 4.68 }, { massNumber: 30, abundance: 3.09 }] },
+  { atomicNumber: 15, symbol: 'P', name: 'Phosphorus', atomicMass: 30.974, category: 'nonmetal', period: 3, group: 15, maxBonds: 5, electronegativity: 2.19, atomicRadius: 1.10, vanDerWaalsRadius: 1.80, ionizationEnergy: 10.5, electronAffinity: 0.75, preferredOxidationStates: [-3, 3, 5], isotopes: [{ massNumber: 31, abundance: 100 }] },
+  { atomicNumber: 16, symbol: 'S', name: 'Sulfur', atomicMass: 32.06, category: 'nonmetal', period: 3, group: 16, maxBonds: 6, electronegativity: 2.58, atomicRadius: 1.04, vanDerWaalsRadius: 1.80, ionizationEnergy: 10.4, electronAffinity: 2.08, preferredOxidationStates: [-2, 2, 4, 6], isotopes: [{ massNumber: 32, abundance: 94.99 }, { massNumber: 34, abundance: 4.25 }, { massNumber: 33, abundance: 0.75 }, { massNumber: 36, abundance: 0.01 }] },
+  { atomicNumber: 17, symbol: 'Cl', name: 'Chlorine', atomicMass: 35.45, category: 'halogen', period: 3, group: 17, maxBonds: 7, electronegativity: 3.16, atomicRadius: 0.99, vanDerWaalsRadius: 1.75, ionizationEnergy: 13.0, electronAffinity: 3.61, preferredOxidationStates: [-1, 1, 3, 5, 7], isotopes: [{ massNumber: 35, abundance: 75.76 }, { massNumber: 37, abundance: 24.24 }] },
+  { atomicNumber: 18, symbol: 'Ar', name: 'Argon', atomicMass: 39.948, category: 'noble-gas', period: 3, group: 18, maxBonds: 0, electronegativity: 0.0, atomicRadius: 0.97, vanDerWaalsRadius: 1.88, ionizationEnergy: 15.8, electronAffinity: 0.0, preferredOxidationStates: [0], isotopes: [{ massNumber: 40, abundance: 99.6 }, { massNumber: 36, abundance: 0.33 }, { massNumber: 38, abundance: 0.06 }] },
+  { atomicNumber: 19, symbol: 'K', name: 'Potassium', atomicMass: 39.098, category: 'alkali-metal', period: 4, group: 1, maxBonds: 1, electronegativity: 0.82, atomicRadius: 2.03, vanDerWaalsRadius: 2.75, ionizationEnergy: 4.34, electronAffinity: 0.50, preferredOxidationStates: [1], isotopes: [{ massNumber: 39, abundance: 93.26 }, { massNumber: 41, abundance: 6.73 }, { massNumber: 40, abundance: 0.012 }] },
+  { atomicNumber: 20, symbol: 'Ca', name: 'Calcium', atomicMass: 40.078, category: 'alkaline-earth-metal', period: 4, group: 2, maxBonds: 2, electronegativity: 1.00, atomicRadius: 1.76, vanDerWaalsRadius: 2.31, ionizationEnergy: 6.11, electronAffinity: 0.02, preferredOxidationStates: [2], isotopes: [{ massNumber: 40, abundance: 96.94 }, { massNumber: 44, abundance: 2.09 }, { massNumber: 42, abundance: 0.65 }, { massNumber: 48, abundance: 0.187 }, { massNumber: 43, abundance: 0.135 }, { massNumber: 46, abundance: 0.004 }] },
+  { atomicNumber: 21, symbol: 'Sc', name: 'Scandium', atomicMass: 44.956, category: 'transition-metal', period: 4, group: 3, maxBonds: 3, electronegativity: 1.36, atomicRadius: 1.70, vanDerWaalsRadius: 2.11, ionizationEnergy: 6.56, electronAffinity: 0.19, preferredOxidationStates: [3], isotopes: [{ massNumber: 45, abundance: 100 }] },
+  { atomicNumber: 22, symbol: 'Ti', name: 'Titanium', atomicMass: 47.867, category: 'transition-metal', period: 4, group: 4, maxBonds: 4, electronegativity: 1.54, atomicRadius: 1.60, vanDerWaalsRadius: 1.87, ionizationEnergy: 6.83, electronAffinity: 0.08, preferredOxidationStates: [2, 3, 4], isotopes: [{ massNumber: 48, abundance: 73.72 }, { massNumber: 46, abundance: 8.25 }, { massNumber: 47, abundance: 7.44 }, { massNumber: 49, abundance: 5.41 }, { massNumber: 50, abundance: 5.18 }] },
+  { atomicNumber: 23, symbol: 'V', name: 'Vanadium', atomicMass: 50.942, category: 'transition-metal', period: 4, group: 5, maxBonds: 5, electronegativity: 1.63, atomicRadius: 1.53, vanDerWaalsRadius: 1.79, ionizationEnergy: 6.75, electronAffinity: 0.53, preferredOxidationStates: [2, 3, 4, 5], isotopes: [{ massNumber: 51, abundance: 99.75 }, { massNumber: 50, abundance: 0.25 }] },
+  { atomicNumber: 24, symbol: 'Cr', name: 'Chromium', atomicMass: 51.996, category: 'transition-metal', period: 4, group: 6, maxBonds: 6, electronegativity: 1.66, atomicRadius: 1.39, vanDerWaalsRadius: 1.89, ionizationEnergy: 6.77, electronAffinity: 0.68, preferredOxidationStates: [2, 3, 6], isotopes: [{ massNumber: 52, abundance: 83.79 }, { massNumber: 53, abundance: 9.5 }, { massNumber: 50, abundance: 4.35 }, { massNumber: 54, abundance: 2.37 }] },
+  { atomicNumber: 25, symbol: 'Mn', name: 'Manganese', atomicMass: 54.938, category: 'transition-metal', period: 4, group: 7, maxBonds: 7, electronegativity: 1.55, atomicRadius: 1.39, vanDerWaalsRadius: 2.05, ionizationEnergy: 7.43, electronAffinity: 0.0, preferredOxidationStates: [2, 3, 4, 7], isotopes: [{ massNumber: 55, abundance: 100 }] },
+  { atomicNumber: 26, symbol: 'Fe', name: 'Iron', atomicMass: 55.845, category: 'transition-metal', period: 4, group: 8, maxBonds: 3, electronegativity: 1.83, atomicRadius: 1.32, vanDerWaalsRadius: 2.04, ionizationEnergy: 7.90, electronAffinity: 0.15, preferredOxidationStates: [2, 3], isotopes: [{ massNumber: 56, abundance: 91.75 }, { massNumber: 54, abundance: 5.85 }, { massNumber: 57, abundance: 2.12 }, { massNumber: 58, abundance: 0.28 }] },
+  { atomicNumber: 27, symbol: 'Co', name: 'Cobalt', atomicMass: 58.933, category: 'transition-metal', period: 4, group: 9, maxBonds: 3, electronegativity: 1.88, atomicRadius: 1.26, vanDerWaalsRadius: 2.00, ionizationEnergy: 7.88, electronAffinity: 0.66, preferredOxidationStates: [2, 3], isotopes: [{ massNumber: 59, abundance: 100 }] },
+  { atomicNumber: 28, symbol: 'Ni', name: 'Nickel', atomicMass: 58.693, category: 'transition-metal', period: 4, group: 10, maxBonds: 2, electronegativity: 1.91, atomicRadius: 1.24, vanDerWaalsRadius: 1.63, ionizationEnergy: 7.64, electronAffinity: 1.16, preferredOxidationStates: [2], isotopes: [{ massNumber: 58, abundance: 68.08 }, { massNumber: 60, abundance: 26.22 }, { massNumber: 62, abundance: 3.63 }, { massNumber: 61, abundance: 1.14 }, { massNumber: 64, abundance: 0.926 }] },
+  { atomicNumber: 29, symbol: 'Cu', name: 'Copper', atomicMass: 63.546, category: 'transition-metal', period: 4, group: 11, maxBonds: 2, electronegativity: 1.90, atomicRadius: 1.32, vanDerWaalsRadius: 1.40, ionizationEnergy: 7.73, electronAffinity: 1.24, preferredOxidationStates: [1, 2], isotopes: [{ massNumber: 63, abundance: 69.15 }, { massNumber: 65, abundance: 30.85 }] },
+  { atomicNumber: 30, symbol: 'Zn', name: 'Zinc', atomicMass: 65.38, category: 'transition-metal', period: 4, group: 12, maxBonds: 2, electronegativity: 1.65, atomicRadius: 1.22, vanDerWaalsRadius: 1.39, ionizationEnergy: 9.39, electronAffinity: 0.0, preferredOxidationStates: [2], isotopes: [{ massNumber: 64, abundance: 49.17 }, { massNumber: 66, abundance: 27.73 }, { massNumber: 68, abundance: 18.45 }, { massNumber: 67, abundance: 4.04 }, { massNumber: 70, abundance: 0.61 }] },
+  { atomicNumber: 31, symbol: 'Ga', name: 'Gallium', atomicMass: 69.723, category: 'post-transition-metal', period: 4, group: 13, maxBonds: 3, electronegativity: 1.81, atomicRadius: 1.22, vanDerWaalsRadius: 1.87, ionizationEnergy: 6.00, electronAffinity: 0.43, preferredOxidationStates: [3], isotopes: [{ massNumber: 69, abundance: 60.11 }, { massNumber: 71, abundance: 39.89 }] },
+  { atomicNumber: 32, symbol: 'Ge', name: 'Germanium', atomicMass: 72.630, category: 'metalloid', period: 4, group: 14, maxBonds: 4, electronegativity: 2.01, atomicRadius: 1.20, vanDerWaalsRadius: 2.11, ionizationEnergy: 7.90, electronAffinity: 1.23, preferredOxidationStates: [-4, 2, 4], isotopes: [{ massNumber: 74, abundance: 36.5 }, { massNumber: 72, abundance: 27.3 }, { massNumber: 70, abundance: 20.5 }, { massNumber: 73, abundance: 7.76 }, { massNumber: 76, abundance: 7.75 }] },
+  { atomicNumber: 33, symbol: 'As', name: 'Arsenic', atomicMass: 74.922, category: 'metalloid', period: 4, group: 15, maxBonds: 5, electronegativity: 2.18, atomicRadius: 1.19, vanDerWaalsRadius: 1.85, ionizationEnergy: 9.79, electronAffinity: 0.80, preferredOxidationStates: [-3, 3, 5], isotopes: [{ massNumber: 75, abundance: 100 }] },
+  { atomicNumber: 34, symbol: 'Se', name: 'Selenium', atomicMass: 78.971, category: 'nonmetal', period: 4, group: 16, maxBonds: 6, electronegativity: 2.55, atomicRadius: 1.20, vanDerWaalsRadius: 1.90, ionizationEnergy: 9.75, electronAffinity: 2.02, preferredOxidationStates: [-2, 2, 4, 6], isotopes: [{ massNumber: 80, abundance: 49.61 }, { massNumber: 78, abundance: 23.77 }, { massNumber: 76, abundance: 9.37 }, { massNumber: 82, abundance: 8.73 }, { massNumber: 77, abundance: 7.63 }, { massNumber: 74, abundance: 0.89 }] },
+  { atomicNumber: 35, symbol: 'Br', name: 'Bromine', atomicMass: 79.904, category: 'halogen', period: 4, group: 17, maxBonds: 7, electronegativity: 2.96, atomicRadius: 1.20, vanDerWaalsRadius: 1.85, ionizationEnergy: 11.81, electronAffinity: 3.36, preferredOxidationStates: [-1, 1, 3, 5, 7], isotopes: [{ massNumber: 79, abundance: 50.69 }, { massNumber: 81, abundance: 49.31 }] },
+  { atomicNumber: 36, symbol: 'Kr', name: 'Krypton', atomicMass: 83.798, category: 'noble-gas', period: 4, group: 18, maxBonds: 0, electronegativity: 3.00, atomicRadius: 1.16, vanDerWaalsRadius: 2.02, ionizationEnergy: 14.0, electronAffinity: 0.0, preferredOxidationStates: [0, 2], isotopes: [{ massNumber: 84, abundance: 56.99 }, { massNumber: 86, abundance: 17.28 }, { massNumber: 82, abundance: 11.59 }, { massNumber: 83, abundance: 11.5 }, { massNumber: 80, abundance: 2.29 }, { massNumber: 78, abundance: 0.355 }] },
+  { atomicNumber: 37, symbol: 'Rb', name: 'Rubidium', atomicMass: 85.468, category: 'alkali-metal', period: 5, group: 1, maxBonds: 1, electronegativity: 0.82, atomicRadius: 2.20, vanDerWaalsRadius: 3.03, ionizationEnergy: 4.18, electronAffinity: 0.49, preferredOxidationStates: [1], isotopes: [{ massNumber: 85, abundance: 72.17 }, { massNumber: 87, abundance: 27.83 }] },
+  { atomicNumber: 38, symbol: 'Sr', name: 'Strontium', atomicMass: 87.62, category: 'alkaline-earth-metal', period: 5, group: 2, maxBonds: 2, electronegativity: 0.95, atomicRadius: 1.95, vanDerWaalsRadius: 2.49, ionizationEnergy: 5.69, electronAffinity: 0.05, preferredOxidationStates: [2], isotopes: [{ massNumber: 88, abundance: 82.58 }, { massNumber: 86, abundance: 9.86 }, { massNumber: 87, abundance: 7.0 }, { massNumber: 84, abundance: 0.56 }] },
+  { atomicNumber: 39, symbol: 'Y', name: 'Yttrium', atomicMass: 88.906, category: 'transition-metal', period: 5, group: 3, maxBonds: 3, electronegativity: 1.22, atomicRadius: 1.90, vanDerWaalsRadius: 2.19, ionizationEnergy: 6.22, electronAffinity: 0.31, preferredOxidationStates: [3], isotopes: [{ massNumber: 89, abundance: 100 }] },
+  { atomicNumber: 40, symbol: 'Zr', name: 'Zirconium', atomicMass: 91.224, category: 'transition-metal', period: 5, group: 4, maxBonds: 4, electronegativity: 1.33, atomicRadius: 1.75, vanDerWaalsRadius: 1.86, ionizationEnergy: 6.63, electronAffinity: 0.43, preferredOxidationStates: [4], isotopes: [{ massNumber: 90, abundance: 51.45 }, { massNumber: 94, abundance: 17.38 }, { massNumber: 92, abundance: 17.15 }, { massNumber: 91, abundance: 11.22 }, { massNumber: 96, abundance: 2.8 }] },
+  { atomicNumber: 41, symbol: 'Nb', name: 'Niobium', atomicMass: 92.906, category: 'transition-metal', period: 5, group: 5, maxBonds: 5, electronegativity: 1.6, atomicRadius: 1.64, vanDerWaalsRadius: 2.07, ionizationEnergy: 6.76, electronAffinity: 0.92, preferredOxidationStates: [3, 5], isotopes: [{ massNumber: 93, abundance: 100 }] },
+  { atomicNumber: 42, symbol: 'Mo', name: 'Molybdenum', atomicMass: 95.95, category: 'transition-metal', period: 5, group: 6, maxBonds: 6, electronegativity: 2.16, atomicRadius: 1.54, vanDerWaalsRadius: 2.09, ionizationEnergy: 7.09, electronAffinity: 0.75, preferredOxidationStates: [4, 6], isotopes: [{ massNumber: 98, abundance: 24.39 }, { massNumber: 96, abundance: 16.67 }, { massNumber: 95, abundance: 15.84 }, { massNumber: 92, abundance: 14.53 }, { massNumber: 100, abundance: 9.82 }, { massNumber: 97, abundance: 9.6 }, { massNumber: 94, abundance: 9.15 }] },
+  { atomicNumber: 43, symbol: 'Tc', name: 'Technetium', atomicMass: 98, category: 'transition-metal', period: 5, group: 7, maxBonds: 7, electronegativity: 1.9, atomicRadius: 1.47, vanDerWaalsRadius: 2.09, ionizationEnergy: 7.28, electronAffinity: 0.55, preferredOxidationStates: [4, 7], isotopes: [{ massNumber: 98, abundance: 0 }] },
+  { atomicNumber: 44, symbol: 'Ru', name: 'Ruthenium', atomicMass: 101.07, category: 'transition-metal', period: 5, group: 8, maxBonds: 8, electronegativity: 2.2, atomicRadius: 1.46, vanDerWaalsRadius: 2.07, ionizationEnergy: 7.36, electronAffinity: 1.05, preferredOxidationStates: [3, 4, 8], isotopes: [{ massNumber: 102, abundance: 31.55 }, { massNumber: 104, abundance: 18.62 }, { massNumber: 101, abundance: 17.06 }, { massNumber: 99, abundance: 12.76 }, { massNumber: 100, abundance: 12.6 }, { massNumber: 96, abundance: 5.54 }, { massNumber: 98, abundance: 1.87 }] },
+  { atomicNumber: 45, symbol: 'Rh', name: 'Rhodium', atomicMass: 102.91, category: 'transition-metal', period: 5, group: 9, maxBonds: 3, electronegativity: 2.28, atomicRadius: 1.42, vanDerWaalsRadius: 1.95, ionizationEnergy: 7.46, electronAffinity: 1.14, preferredOxidationStates: [3], isotopes: [{ massNumber: 103, abundance: 100 }] },
+  { atomicNumber: 46, symbol: 'Pd', name: 'Palladium', atomicMass: 106.42, category: 'transition-metal', period: 5, group: 10, maxBonds: 4, electronegativity: 2.20, atomicRadius: 1.39, vanDerWaalsRadius: 2.02, ionizationEnergy: 8.34, electronAffinity: 0.56, preferredOxidationStates: [2, 4], isotopes: [{ massNumber: 106, abundance: 27.33 }, { massNumber: 108, abundance: 26.46 }, { massNumber: 105, abundance: 22.33 }, { massNumber: 110, abundance: 11.72 }, { massNumber: 104, abundance: 11.14 }, { massNumber: 102, abundance: 1.02 }] },
+  { atomicNumber: 47, symbol: 'Ag', name: 'Silver', atomicMass: 107.87, category: 'transition-metal', period: 5, group: 11, maxBonds: 1, electronegativity: 1.93, atomicRadius: 1.45, vanDerWaalsRadius: 1.72, ionizationEnergy: 7.58, electronAffinity: 1.30, preferredOxidationStates: [1], isotopes: [{ massNumber: 107, abundance: 51.84 }, { massNumber: 109, abundance: 48.16 }] },
+  { atomicNumber: 48, symbol: 'Cd', name: 'Cadmium', atomicMass: 112.41, category: 'transition-metal', period: 5, group: 12, maxBonds: 2, electronegativity: 1.69, atomicRadius: 1.44, vanDerWaalsRadius: 1.58, ionizationEnergy: 8.99, electronAffinity: 0.0, preferredOxidationStates: [2], isotopes: [{ massNumber: 114, abundance: 28.75 }, { massNumber: 112, abundance: 24.13 }, { massNumber: 111, abundance: 12.8 }, { massNumber: 110, abundance: 12.49 }, { massNumber: 113, abundance: 12.22 }, { massNumber: 116, abundance: 7.51 }, { massNumber: 106, abundance: 1.25 }, { massNumber: 108, abundance: 0.89 }] },
+  { atomicNumber: 49, symbol: 'In', name: 'Indium', atomicMass: 114.82, category: 'post-transition-metal', period: 5, group: 13, maxBonds: 3, electronegativity: 1.78, atomicRadius: 1.42, vanDerWaalsRadius: 1.93, ionizationEnergy: 5.79, electronAffinity: 0.3, preferredOxidationStates: [3], isotopes: [{ massNumber: 115, abundance: 95.71 }, { massNumber: 113, abundance: 4.29 }] },
+  { atomicNumber: 50, symbol: 'Sn', name: 'Tin', atomicMass: 118.71, category: 'post-transition-metal', period: 5, group: 14, maxBonds: 4, electronegativity: 1.96, atomicRadius: 1.39, vanDerWaalsRadius: 2.17, ionizationEnergy: 7.34, electronAffinity: 1.11, preferredOxidationStates: [2, 4], isotopes: [{ massNumber: 120, abundance: 32.58 }, { massNumber: 118, abundance: 24.22 }, { massNumber: 116, abundance: 14.54 }, { massNumber: 119, abundance: 8.59 }, { massNumber: 117, abundance: 7.68 }, { massNumber: 124, abundance: 5.79 }, { massNumber: 122, abundance: 4.63 }, { massNumber: 112, abundance: 0.97 }, { massNumber: 114, abundance: 0.66 }, { massNumber: 115, abundance: 0.34 }] },
+  { atomicNumber: 51, symbol: 'Sb', name: 'Antimony', atomicMass: 121.76, category: 'metalloid', period: 5, group: 15, maxBonds: 5, electronegativity: 2.05, atomicRadius: 1.39, vanDerWaalsRadius: 2.06, ionizationEnergy: 8.61, electronAffinity: 1.05, preferredOxidationStates: [-3, 3, 5], isotopes: [{ massNumber: 121, abundance: 57.21 }, { massNumber: 123, abundance: 42.79 }] },
+  { atomicNumber: 52, symbol: 'Te', name: 'Tellurium', atomicMass: 127.60, category: 'metalloid', period: 5, group: 16, maxBonds: 6, electronegativity: 2.1, atomicRadius: 1.38, vanDerWaalsRadius: 2.06, ionizationEnergy: 9.01, electronAffinity: 1.97, preferredOxidationStates: [-2, 2, 4, 6], isotopes: [{ massNumber: 130, abundance: 34.08 }, { massNumber: 128, abundance: 31.74 }, { massNumber: 126, abundance: 18.84 }, { massNumber: 125, abundance: 7.07 }, { massNumber: 124, abundance: 4.74 }, { massNumber: 122, abundance: 2.55 }, { massNumber: 123, abundance: 0.89 }, { massNumber: 120, abundance: 0.09 }] },
+  { atomicNumber: 53, symbol: 'I', name: 'Iodine', atomicMass: 126.90, category: 'halogen', period: 5, group: 17, maxBonds: 7, electronegativity: 2.66, atomicRadius: 1.39, vanDerWaalsRadius: 1.98, ionizationEnergy: 10.45, electronAffinity: 3.06, preferredOxidationStates: [-1, 1, 3, 5, 7], isotopes: [{ massNumber: 127, abundance: 100 }] },
+  { atomicNumber: 54, symbol: 'Xe', name: 'Xenon', atomicMass: 131.29, category: 'noble-gas', period: 5, group: 18, maxBonds: 0, electronegativity: 2.6, atomicRadius: 1.40, vanDerWaalsRadius: 2.16, ionizationEnergy: 12.13, electronAffinity: 0.0, preferredOxidationStates: [0, 2, 4, 6], isotopes: [{ massNumber: 132, abundance: 26.91 }, { massNumber: 129, abundance: 26.4 }, { massNumber: 131, abundance: 21.23 }, { massNumber: 134, abundance: 10.44 }, { massNumber: 136, abundance: 8.86 }, { massNumber: 130, abundance: 4.07 }, { massNumber: 128, abundance: 1.91 }, { massNumber: 124, abundance: 0.095 }, { massNumber: 126, abundance: 0.089 }] },
+  { atomicNumber: 55, symbol: 'Cs', name: 'Cesium', atomicMass: 132.91, category: 'alkali-metal', period: 6, group: 1, maxBonds: 1, electronegativity: 0.79, atomicRadius: 2.44, vanDerWaalsRadius: 3.43, ionizationEnergy: 3.89, electronAffinity: 0.47, preferredOxidationStates: [1], isotopes: [{ massNumber: 133, abundance: 100 }] },
+  { atomicNumber: 56, symbol: 'Ba', name: 'Barium', atomicMass: 137.33, category: 'alkaline-earth-metal', period: 6, group: 2, maxBonds: 2, electronegativity: 0.89, atomicRadius: 2.15, vanDerWaalsRadius: 2.68, ionizationEnergy: 5.21, electronAffinity: 0.14, preferredOxidationStates: [2], isotopes: [{ massNumber: 138, abundance: 71.7 }, { massNumber: 137, abundance: 11.23 }, { massNumber: 136, abundance: 7.85 }, { massNumber: 135, abundance: 6.59 }, { massNumber: 134, abundance: 2.417 }, { massNumber: 130, abundance: 0.106 }, { massNumber: 132, abundance: 0.101 }] },
+  { atomicNumber: 57, symbol: 'La', name: 'Lanthanum', atomicMass: 138.91, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.10, atomicRadius: 2.07, vanDerWaalsRadius: 2.40, ionizationEnergy: 5.58, electronAffinity: 0.47, preferredOxidationStates: [3], isotopes: [{ massNumber: 139, abundance: 99.91 }, { massNumber: 138, abundance: 0.09 }] },
+  { atomicNumber: 58, symbol: 'Ce', name: 'Cerium', atomicMass: 140.12, category: 'lanthanide', period: 6, group: null, maxBonds: 4, electronegativity: 1.12, atomicRadius: 2.04, vanDerWaalsRadius: 2.35, ionizationEnergy: 5.54, electronAffinity: 0.5, preferredOxidationStates: [3, 4], isotopes: [{ massNumber: 140, abundance: 88.45 }, { massNumber: 142, abundance: 11.11 }, { massNumber: 138, abundance: 0.251 }, { massNumber: 136, abundance: 0.185 }] },
+  { atomicNumber: 59, symbol: 'Pr', name: 'Praseodymium', atomicMass: 140.91, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.13, atomicRadius: 2.03, vanDerWaalsRadius: 2.39, ionizationEnergy: 5.47, electronAffinity: 0.5, preferredOxidationStates: [3], isotopes: [{ massNumber: 141, abundance: 100 }] },
+  { atomicNumber: 60, symbol: 'Nd', name: 'Neodymium', atomicMass: 144.24, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.14, atomicRadius: 2.01, vanDerWaalsRadius: 2.29, ionizationEnergy: 5.53, electronAffinity: 0.5, preferredOxidationStates: [3], isotopes: [{ massNumber: 142, abundance: 27.2 }, { massNumber: 144, abundance: 23.8 }, { massNumber: 146, abundance: 17.2 }, { massNumber: 143, abundance: 12.2 }, { massNumber: 145, abundance: 8.3 }, { massNumber: 148, abundance: 5.7 }, { massNumber: 150, abundance: 5.6 }] },
+  { atomicNumber: 61, symbol: 'Pm', name: 'Promethium', atomicMass: 145, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.13, atomicRadius: 1.99, vanDerWaalsRadius: 2.36, ionizationEnergy: 5.58, electronAffinity: 0.5, preferredOxidationStates: [3], isotopes: [{ massNumber: 145, abundance: 0 }] },
+  { atomicNumber: 62, symbol: 'Sm', name: 'Samarium', atomicMass: 150.36, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.17, atomicRadius: 1.98, vanDerWaalsRadius: 2.29, ionizationEnergy: 5.64, electronAffinity: 0.5, preferredOxidationStates: [2, 3], isotopes: [{ massNumber: 152, abundance: 26.75 }, { massNumber: 154, abundance: 22.75 }, { massNumber: 147, abundance: 14.99 }, { massNumber: 149, abundance: 13.82 }, { massNumber: 148, abundance: 11.24 }, { massNumber: 150, abundance: 7.38 }, { massNumber: 144, abundance: 3.07 }] },
+  { atomicNumber: 63, symbol: 'Eu', name: 'Europium', atomicMass: 151.96, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.2, atomicRadius: 1.98, vanDerWaalsRadius: 2.33, ionizationEnergy: 5.67, electronAffinity: 0.5, preferredOxidationStates: [2, 3], isotopes: [{ massNumber: 153, abundance: 52.19 }, { massNumber: 151, abundance: 47.81 }] },
+  { atomicNumber: 64, symbol: 'Gd', name: 'Gadolinium', atomicMass: 157.25, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.20, atomicRadius: 1.96, vanDerWaalsRadius: 2.37, ionizationEnergy: 6.15, electronAffinity: 0.5, preferredOxidationStates: [3], isotopes: [{ massNumber: 158, abundance: 24.84 }, { massNumber: 160, abundance: 21.86 }, { massNumber: 156, abundance: 20.47 }, { massNumber: 157, abundance: 15.65 }, { massNumber: 155, abundance: 14.8 }, { massNumber: 154, abundance: 2.18 }, { massNumber: 152, abundance: 0.2 }] },
+  { atomicNumber: 65, symbol: 'Tb', name: 'Terbium', atomicMass: 158.93, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.2, atomicRadius: 1.94, vanDerWaalsRadius: 2.21, ionizationEnergy: 5.86, electronAffinity: 0.5, preferredOxidationStates: [3], isotopes: [{ massNumber: 159, abundance: 100 }] },
+  { atomicNumber: 66, symbol: 'Dy', name: 'Dysprosium', atomicMass: 162.50, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.22, atomicRadius: 1.92, vanDerWaalsRadius: 2.29, ionizationEnergy: 5.94, electronAffinity: 0.5, preferredOxidationStates: [3], isotopes: [{ massNumber: 164, abundance: 28.26 }, { massNumber: 162, abundance: 25.48 }, { massNumber: 163, abundance: 24.9 }, { massNumber: 161, abundance: 18.89 }, { massNumber: 160, abundance: 2.329 }, { massNumber: 158, abundance: 0.095 }, { massNumber: 156, abundance: 0.056 }] },
+  { atomicNumber: 67, symbol: 'Ho', name: 'Holmium', atomicMass: 164.93, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.23, atomicRadius: 1.92, vanDerWaalsRadius: 2.16, ionizationEnergy: 6.02, electronAffinity: 0.5, preferredOxidationStates: [3], isotopes: [{ massNumber: 165, abundance: 100 }] },
+  { atomicNumber: 68, symbol: 'Er', name: 'Erbium', atomicMass: 167.26, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.24, atomicRadius: 1.89, vanDerWaalsRadius: 2.35, ionizationEnergy: 6.11, electronAffinity: 0.5, preferredOxidationStates: [3], isotopes: [{ massNumber: 166, abundance: 33.5 }, { massNumber: 168, abundance: 26.98 }, { massNumber: 167, abundance: 22.87 }, { massNumber: 170, abundance: 14.91 }, { massNumber: 164, abundance: 1.601 }, { massNumber: 162, abundance: 0.139 }] },
+  { atomicNumber: 69, symbol: 'Tm', name: 'Thulium', atomicMass: 168.93, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.25, atomicRadius: 1.90, vanDerWaalsRadius: 2.27, ionizationEnergy: 6.18, electronAffinity: 0.5, preferredOxidationStates: [3], isotopes: [{ massNumber: 169, abundance: 100 }] },
+  { atomicNumber: 70, symbol: 'Yb', name: 'Ytterbium', atomicMass: 173.05, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.1, atomicRadius: 1.87, vanDerWaalsRadius: 2.42, ionizationEnergy: 6.25, electronAffinity: 0.0, preferredOxidationStates: [2, 3], isotopes: [{ massNumber: 174, abundance: 32.03 }, { massNumber: 172, abundance: 21.68 }, { massNumber: 173, abundance: 16.1 }, { massNumber: 171, abundance: 14.09 }, { massNumber: 176, abundance: 12.99 }, { massNumber: 170, abundance: 2.982 }, { massNumber: 168, abundance: 0.123 }] },
+  { atomicNumber: 71, symbol: 'Lu', name: 'Lutetium', atomicMass: 174.97, category: 'lanthanide', period: 6, group: null, maxBonds: 3, electronegativity: 1.27, atomicRadius: 1.87, vanDerWaalsRadius: 2.21, ionizationEnergy: 5.43, electronAffinity: 0.34, preferredOxidationStates: [3], isotopes: [{ massNumber: 175, abundance: 97.4 }, { massNumber: 176, abundance: 2.6 }] },
+  { atomicNumber: 72, symbol: 'Hf', name: 'Hafnium', atomicMass: 178.49, category: 'transition-metal', period: 6, group: 4, maxBonds: 4, electronegativity: 1.3, atomicRadius: 1.75, vanDerWaalsRadius: 2.12, ionizationEnergy: 6.83, electronAffinity: 0.0, preferredOxidationStates: [4], isotopes: [{ massNumber: 180, abundance: 35.08 }, { massNumber: 178, abundance: 27.28 }, { massNumber: 177, abundance: 18.6 }, { massNumber: 179, abundance: 13.62 }, { massNumber: 176, abundance: 5.26 }, { massNumber: 174, abundance: 0.16 }] },
+  { atomicNumber: 73, symbol: 'Ta', name: 'Tantalum', atomicMass: 180.95, category: 'transition-metal', period: 6, group: 5, maxBonds: 5, electronegativity: 1.5, atomicRadius: 1.70, vanDerWaalsRadius: 2.17, ionizationEnergy: 7.55, electronAffinity: 0.32, preferredOxidationStates: [5], isotopes: [{ massNumber: 181, abundance: 99.99 }, { massNumber: 180, abundance: 0.012 }] },
+  { atomicNumber: 74, symbol: 'W', name: 'Tungsten', atomicMass: 183.84, category: 'transition-metal', period: 6, group: 6, maxBonds: 6, electronegativity: 2.36, atomicRadius: 1.62, vanDerWaalsRadius: 2.10, ionizationEnergy: 7.86, electronAffinity: 0.82, preferredOxidationStates: [4, 6], isotopes: [{ massNumber: 184, abundance: 30.64 }, { massNumber: 186, abundance: 28.43 }, { massNumber: 182, abundance: 26.5 }, { massNumber: 183, abundance: 14.31 }, { massNumber: 180, abundance: 0.12 }] },
+  { atomicNumber: 75, symbol: 'Re', name: 'Rhenium', atomicMass: 186.21, category: 'transition-metal', period: 6, group: 7, maxBonds: 7, electronegativity: 1.9, atomicRadius: 1.51, vanDerWaalsRadius: 2.17, ionizationEnergy: 7.83, electronAffinity: 0.15, preferredOxidationStates: [4, 7], isotopes: [{ massNumber: 187, abundance: 62.6 }, { massNumber: 185, abundance: 37.4 }] },
+  { atomicNumber: 76, symbol: 'Os', name: 'Osmium', atomicMass: 190.23, category: 'transition-metal', period: 6, group: 8, maxBonds: 8, electronegativity: 2.2, atomicRadius: 1.44, vanDerWaalsRadius: 2.16, ionizationEnergy: 8.44, electronAffinity: 1.1, preferredOxidationStates: [4, 8], isotopes: [{ massNumber: 192, abundance: 40.78 }, { massNumber: 190, abundance: 26.26 }, { massNumber: 189, abundance: 16.15 }, { massNumber: 188, abundance: 13.24 }, { massNumber: 187, abundance: 1.96 }, { massNumber: 186, abundance: 1.59 }, { massNumber: 184, abundance: 0.02 }] },
+  { atomicNumber: 77, symbol: 'Ir', name: 'Iridium', atomicMass: 192.22, category: 'transition-metal', period: 6, group: 9, maxBonds: 4, electronegativity: 2.20, atomicRadius: 1.41, vanDerWaalsRadius: 2.02, ionizationEnergy: 8.97, electronAffinity: 1.56, preferredOxidationStates: [3, 4], isotopes: [{ massNumber: 193, abundance: 62.7 }, { massNumber: 191, abundance: 37.3 }] },
+  { atomicNumber: 78, symbol: 'Pt', name: 'Platinum', atomicMass: 195.08, category: 'transition-metal', period: 6, group: 10, maxBonds: 4, electronegativity: 2.28, atomicRadius: 1.36, vanDerWaalsRadius: 1.75, ionizationEnergy: 8.96, electronAffinity: 2.13, preferredOxidationStates: [2, 4], isotopes: [{ massNumber: 195, abundance: 33.78 }, { massNumber: 194, abundance: 32.86 }, { massNumber: 196, abundance: 25.21 }, { massNumber: 198, abundance: 7.36 }, { massNumber: 192, abundance: 0.782 }, { massNumber: 190, abundance: 0.012 }] },
+  { atomicNumber: 79, symbol: 'Au', name: 'Gold', atomicMass: 196.97, category: 'transition-metal', period: 6, group: 11, maxBonds: 3, electronegativity: 2.54, atomicRadius: 1.36, vanDerWaalsRadius: 1.66, ionizationEnergy: 9.23, electronAffinity: 2.31, preferredOxidationStates: [1, 3], isotopes: [{ massNumber: 197, abundance: 100 }] },
+  { atomicNumber: 80, symbol: 'Hg', name: 'Mercury', atomicMass: 200.59, category: 'transition-metal', period: 6, group: 12, maxBonds: 2, electronegativity: 2.00, atomicRadius: 1.32, vanDerWaalsRadius: 1.55, ionizationEnergy: 10.44, electronAffinity: 0.0, preferredOxidationStates: [1, 2], isotopes: [{ massNumber: 202, abundance: 29.86 }, { massNumber: 200, abundance: 23.1 }, { massNumber: 199, abundance: 16.87 }, { massNumber: 201, abundance: 13.18 }, { massNumber: 198, abundance: 9.97 }, { massNumber: 204, abundance: 6.87 }, { massNumber: 196, abundance: 0.15 }] },
+  { atomicNumber: 81, symbol: 'Tl', name: 'Thallium', atomicMass: 204.38, category: 'post-transition-metal', period: 6, group: 13, maxBonds: 3, electronegativity: 1.62, atomicRadius: 1.45, vanDerWaalsRadius: 1.96, ionizationEnergy: 6.11, electronAffinity: 0.2, preferredOxidationStates: [1, 3], isotopes: [{ massNumber: 205, abundance: 70.48 }, { massNumber: 203, abundance: 29.52 }] },
+  { atomicNumber: 82, symbol: 'Pb', name: 'Lead', atomicMass: 207.2, category: 'post-transition-metal', period: 6, group: 14, maxBonds: 4, electronegativity: 2.33, atomicRadius: 1.46, vanDerWaalsRadius: 2.02, ionizationEnergy: 7.42, electronAffinity: 0.36, preferredOxidationStates: [2, 4], isotopes: [{ massNumber: 208, abundance: 52.4 }, { massNumber: 206, abundance: 24.1 }, { massNumber: 207, abundance: 22.1 }, { massNumber: 204, abundance: 1.4 }] },
+  { atomicNumber: 83, symbol: 'Bi', name: 'Bismuth', atomicMass: 208.98, category: 'post-transition-metal', period: 6, group: 15, maxBonds: 5, electronegativity: 2.02, atomicRadius: 1.48, vanDerWaalsRadius: 2.07, ionizationEnergy: 7.29, electronAffinity: 0.94, preferredOxidationStates: [3, 5], isotopes: [{ massNumber: 209, abundance: 100 }] },
+  { atomicNumber: 84, symbol: 'Po', name: 'Polonium', atomicMass: 209, category: 'post-transition-metal', period: 6, group: 16, maxBonds: 4, electronegativity: 2.0, atomicRadius: 1.40, vanDerWaalsRadius: 1.97, ionizationEnergy: 8.41, electronAffinity: 1.9, preferredOxidationStates: [2, 4], isotopes: [{ massNumber: 209, abundance: 0 }] },
+  { atomicNumber: 85, symbol: 'At', name: 'Astatine', atomicMass: 210, category: 'halogen', period: 6, group: 17, maxBonds: 1, electronegativity: 2.2, atomicRadius: 1.50, vanDerWaalsRadius: 2.02, ionizationEnergy: 9.32, electronAffinity: 2.8, preferredOxidationStates: [-1, 1], isotopes: [{ massNumber: 210, abundance: 0 }] },
+  { atomicNumber: 86, symbol: 'Rn', name: 'Radon', atomicMass: 222, category: 'noble-gas', period: 6, group: 18, maxBonds: 0, electronegativity: 2.2, atomicRadius: 1.50, vanDerWaalsRadius: 2.20, ionizationEnergy: 10.75, electronAffinity: 0.0, preferredOxidationStates: [0], isotopes: [{ massNumber: 222, abundance: 0 }] },
+  { atomicNumber: 87, symbol: 'Fr', name: 'Francium', atomicMass: 223, category: 'alkali-metal', period: 7, group: 1, maxBonds: 1, electronegativity: 0.7, atomicRadius: 2.60, vanDerWaalsRadius: 3.48, ionizationEnergy: 4.07, electronAffinity: 0.49, preferredOxidationStates: [1], isotopes: [{ massNumber: 223, abundance: 0 }] },
+  { atomicNumber: 88, symbol: 'Ra', name: 'Radium', atomicMass: 226, category: 'alkaline-earth-metal', period: 7, group: 2, maxBonds: 2, electronegativity: 0.9, atomicRadius: 2.21, vanDerWaalsRadius: 2.83, ionizationEnergy: 5.28, electronAffinity: 0.1, preferredOxidationStates: [2], isotopes: [{ massNumber: 226, abundance: 0 }] },
+  { atomicNumber: 89, symbol: 'Ac', name: 'Actinium', atomicMass: 227, category: 'actinide', period: 7, group: null, maxBonds: 3, electronegativity: 1.1, atomicRadius: 2.15, vanDerWaalsRadius: 2.47, ionizationEnergy: 5.38, electronAffinity: 0.35, preferredOxidationStates: [3], isotopes: [{ massNumber: 227, abundance: 0 }] },
+  { atomicNumber: 90, symbol: 'Th', name: 'Thorium', atomicMass: 232.04, category: 'actinide', period: 7, group: null, maxBonds: 4, electronegativity: 1.3, atomicRadius: 2.06, vanDerWaalsRadius: 2.45, ionizationEnergy: 6.31, electronAffinity: 0.6, preferredOxidationStates: [4], isotopes: [{ massNumber: 232, abundance: 100 }] },
+  { atomicNumber: 91, symbol: 'Pa', name: 'Protactinium', atomicMass: 231.04, category: 'actinide', period: 7, group: null, maxBonds: 5, electronegativity: 1.5, atomicRadius: 2.00, vanDerWaalsRadius: 2.43, ionizationEnergy: 5.89, electronAffinity: 0.55, preferredOxidationStates: [5], isotopes: [{ massNumber: 231, abundance: 100 }] },
+  { atomicNumber: 92, symbol: 'U', name: 'Uranium', atomicMass: 238.03, category: 'actinide', period: 7, group: null, maxBonds: 6, electronegativity: 1.38, atomicRadius: 1.96, vanDerWaalsRadius: 2.41, ionizationEnergy: 6.19, electronAffinity: 0.53, preferredOxidationStates: [3, 4, 5, 6], isotopes: [{ massNumber: 238, abundance: 99.27 }, { massNumber: 235, abundance: 0.72 }, { massNumber: 234, abundance: 0.0054 }] },
+  { atomicNumber: 93, symbol: 'Np', name: 'Neptunium', atomicMass: 237, category: 'actinide', period: 7, group: null, maxBonds: 7, electronegativity: 1.36, atomicRadius: 1.90, vanDerWaalsRadius: 2.39, ionizationEnergy: 6.27, electronAffinity: 0.48, preferredOxidationStates: [3, 4, 5, 6, 7], isotopes: [{ massNumber: 237, abundance: 0 }] },
+  { atomicNumber: 94, symbol: 'Pu', name: 'Plutonium', atomicMass: 244, category: 'actinide', period: 7, group: null, maxBonds: 6, electronegativity: 1.28, atomicRadius: 1.87, vanDerWaalsRadius: 2.43, ionizationEnergy: 6.03, electronAffinity: 0.0, preferredOxidationStates: [3, 4, 5, 6], isotopes: [{ massNumber: 244, abundance: 0 }, { massNumber: 239, abundance: 0 }] },
+  { atomicNumber: 95, symbol: 'Am', name: 'Americium', atomicMass: 243, category: 'actinide', period: 7, group: null, maxBonds: 3, electronegativity: 1.3, atomicRadius: 1.80, vanDerWaalsRadius: 2.44, ionizationEnergy: 5.97, electronAffinity: 0.1, preferredOxidationStates: [3], isotopes: [{ massNumber: 243, abundance: 0 }] },
+  { atomicNumber: 96, symbol: 'Cm', name: 'Curium', atomicMass: 247, category: 'actinide', period: 7, group: null, maxBonds: 3, electronegativity: 1.3, atomicRadius: 1.69, vanDerWaalsRadius: 2.45, ionizationEnergy: 5.99, electronAffinity: 0.28, preferredOxidationStates: [3], isotopes: [{ massNumber: 247, abundance: 0 }] },
+  { atomicNumber: 97, symbol: 'Bk', name: 'Berkelium', atomicMass: 247, category: 'actinide', period: 7, group: null, maxBonds: 4, electronegativity: 1.3, atomicRadius: 1.68, vanDerWaalsRadius: 2.44, ionizationEnergy: 6.2, electronAffinity: 0.0, preferredOxidationStates: [3, 4], isotopes: [{ massNumber: 247, abundance: 0 }] },
+  { atomicNumber: 98, symbol: 'Cf', name: 'Californium', atomicMass: 251, category: 'actinide', period: 7, group: null, maxBonds: 3, electronegativity: 1.3, atomicRadius: 1.68, vanDerWaalsRadius: 2.45, ionizationEnergy: 6.28, electronAffinity: 0.0, preferredOxidationStates: [3], isotopes: [{ massNumber: 251, abundance: 0 }] },
+  { atomicNumber: 99, symbol: 'Es', name: 'Einsteinium', atomicMass: 252, category: 'actinide', period: 7, group: null, maxBonds: 3, electronegativity: 1.3, atomicRadius: 1.65, vanDerWaalsRadius: 2.45, ionizationEnergy: 6.42, electronAffinity: 0.0, preferredOxidationStates: [3], isotopes: [{ massNumber: 252, abundance: 0 }] },
+  { atomicNumber: 100, symbol: 'Fm', name: 'Fermium', atomicMass: 257, category: 'actinide', period: 7, group: null, maxBonds: 3, electronegativity: 1.3, atomicRadius: 1.67, vanDerWaalsRadius: 2.45, ionizationEnergy: 6.5, electronAffinity: 0.0, preferredOxidationStates: [3], isotopes: [{ massNumber: 257, abundance: 0 }] },
+  { atomicNumber: 101, symbol: 'Md', name: 'Mendelevium', atomicMass: 258, category: 'actinide', period: 7, group: null, maxBonds: 3, electronegativity: 1.3, atomicRadius: 1.73, vanDerWaalsRadius: 2.46, ionizationEnergy: 6.58, electronAffinity: 0.0, preferredOxidationStates: [2, 3], isotopes: [{ massNumber: 258, abundance: 0 }] },
+  { atomicNumber: 102, symbol: 'No', name: 'Nobelium', atomicMass: 259, category: 'actinide', period: 7, group: null, maxBonds: 3, electronegativity: 1.3, atomicRadius: 1.76, vanDerWaalsRadius: 2.46, ionizationEnergy: 6.65, electronAffinity: 0.0, preferredOxidationStates: [2, 3], isotopes: [{ massNumber: 259, abundance: 0 }] },
+  { atomicNumber: 103, symbol: 'Lr', name: 'Lawrencium', atomicMass: 266, category: 'actinide', period: 7, group: null, maxBonds: 3, electronegativity: 1.3, atomicRadius: 1.61, vanDerWaalsRadius: 2.46, ionizationEnergy: 4.96, electronAffinity: 0.0, preferredOxidationStates: [3], isotopes: [{ massNumber: 266, abundance: 0 }] },
+  { atomicNumber: 104, symbol: 'Rf', name: 'Rutherfordium', atomicMass: 267, category: 'transition-metal', period: 7, group: 4, maxBonds: 4, electronegativity: 0.0, atomicRadius: 1.57, vanDerWaalsRadius: 2.00, ionizationEnergy: 6.0, electronAffinity: 0.0, preferredOxidationStates: [4], isotopes: [{ massNumber: 267, abundance: 0 }] },
+  { atomicNumber: 105, symbol: 'Db', name: 'Dubnium', atomicMass: 268, category: 'transition-metal', period: 7, group: 5, maxBonds: 5, electronegativity: 0.0, atomicRadius: 1.49, vanDerWaalsRadius: 2.00, ionizationEnergy: 6.8, electronAffinity: 0.0, preferredOxidationStates: [5], isotopes: [{ massNumber: 268, abundance: 0 }] },
+  { atomicNumber: 106, symbol: 'Sg', name: 'Seaborgium', atomicMass: 269, category: 'transition-metal', period: 7, group: 6, maxBonds: 6, electronegativity: 0.0, atomicRadius: 1.43, vanDerWaalsRadius: 2.00, ionizationEnergy: 7.8, electronAffinity: 0.0, preferredOxidationStates: [6], isotopes: [{ massNumber: 269, abundance: 0 }] },
+  { atomicNumber: 107, symbol: 'Bh', name: 'Bohrium', atomicMass: 270, category: 'transition-metal', period: 7, group: 7, maxBonds: 7, electronegativity: 0.0, atomicRadius: 1.41, vanDerWaalsRadius: 2.00, ionizationEnergy: 7.7, electronAffinity: 0.0, preferredOxidationStates: [7], isotopes: [{ massNumber: 270, abundance: 0 }] },
+  { atomicNumber: 108, symbol: 'Hs', name: 'Hassium', atomicMass: 269, category: 'transition-metal', period: 7, group: 8, maxBonds: 8, electronegativity: 0.0, atomicRadius: 1.34, vanDerWaalsRadius: 2.00, ionizationEnergy: 7.6, electronAffinity: 0.0, preferredOxidationStates: [8], isotopes: [{ massNumber: 269, abundance: 0 }] },
+  { atomicNumber: 109, symbol: 'Mt', name: 'Meitnerium', atomicMass: 278, category: 'transition-metal', period: 7, group: 9, maxBonds: 6, electronegativity: 0.0, atomicRadius: 1.29, vanDerWaalsRadius: 2.00, ionizationEnergy: 8.8, electronAffinity: 0.0, preferredOxidationStates: [3, 6], isotopes: [{ massNumber: 278, abundance: 0 }] },
+  { atomicNumber: 110, symbol: 'Ds', name: 'Darmstadtium', atomicMass: 281, category: 'transition-metal', period: 7, group: 10, maxBonds: 6, electronegativity: 0.0, atomicRadius: 1.28, vanDerWaalsRadius: 2.00, ionizationEnergy: 9.9, electronAffinity: 0.0, preferredOxidationStates: [2, 4, 6], isotopes: [{ massNumber: 281, abundance: 0 }] },
+  { atomicNumber: 111, symbol: 'Rg', name: 'Roentgenium', atomicMass: 282, category: 'transition-metal', period: 7, group: 11, maxBonds: 3, electronegativity: 0.0, atomicRadius: 1.21, vanDerWaalsRadius: 2.00, ionizationEnergy: 10.6, electronAffinity: 0.0, preferredOxidationStates: [1, 3], isotopes: [{ massNumber: 282, abundance: 0 }] },
+  { atomicNumber: 112, symbol: 'Cn', name: 'Copernicium', atomicMass: 285, category: 'transition-metal', period: 7, group: 12, maxBonds: 2, electronegativity: 0.0, atomicRadius: 1.22, vanDerWaalsRadius: 2.00, ionizationEnergy: 11.97, electronAffinity: 0.0, preferredOxidationStates: [2], isotopes: [{ massNumber: 285, abundance: 0 }] },
+  { atomicNumber: 113, symbol: 'Nh', name: 'Nihonium', atomicMass: 286, category: 'post-transition-metal', period: 7, group: 13, maxBonds: 3, electronegativity: 0.0, atomicRadius: 1.36, vanDerWaalsRadius: 2.00, ionizationEnergy: 7.3, electronAffinity: 0.0, preferredOxidationStates: [1, 3], isotopes: [{ massNumber: 286, abundance: 0 }] },
+  { atomicNumber: 114, symbol: 'Fl', name: 'Flerovium', atomicMass: 289, category: 'post-transition-metal', period: 7, group: 14, maxBonds: 4, electronegativity: 0.0, atomicRadius: 1.43, vanDerWaalsRadius: 2.00, ionizationEnergy: 8.5, electronAffinity: 0.0, preferredOxidationStates: [2, 4], isotopes: [{ massNumber: 289, abundance: 0 }] },
+  { atomicNumber: 115, symbol: 'Mc', name: 'Moscovium', atomicMass: 290, category: 'post-transition-metal', period: 7, group: 15, maxBonds: 3, electronegativity: 0.0, atomicRadius: 1.62, vanDerWaalsRadius: 2.00, ionizationEnergy: 5.6, electronAffinity: 0.0, preferredOxidationStates: [1, 3], isotopes: [{ massNumber: 290, abundance: 0 }] },
+  { atomicNumber: 116, symbol: 'Lv', name: 'Livermorium', atomicMass: 293, category: 'post-transition-metal', period: 7, group: 16, maxBonds: 4, electronegativity: 0.0, atomicRadius: 1.75, vanDerWaalsRadius: 2.00, ionizationEnergy: 6.6, electronAffinity: 0.0, preferredOxidationStates: [2, 4], isotopes: [{ massNumber: 293, abundance: 0 }] },
+  { atomicNumber: 117, symbol: 'Ts', name: 'Tennessine', atomicMass: 294, category: 'halogen', period: 7, group: 17, maxBonds: 1, electronegativity: 0.0, atomicRadius: 1.65, vanDerWaalsRadius: 2.00, ionizationEnergy: 7.7, electronAffinity: 0.0, preferredOxidationStates: [-1, 1, 3, 5], isotopes: [{ massNumber: 294, abundance: 0 }] },
+  { atomicNumber: 118, symbol: 'Og', name: 'Oganesson', atomicMass: 294, category: 'noble-gas', period: 7, group: 18, maxBonds: 0, electronegativity: 0.0, atomicRadius: 1.57, vanDerWaalsRadius: 2.00, ionizationEnergy: 8.9, electronAffinity: 0.0, preferredOxidationStates: [0, 2, 4], isotopes: [{ massNumber: 294, abundance: 0 }] }
+];
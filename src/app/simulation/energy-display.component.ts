@@ -1,5 +1,18 @@
 import { Component, Input, Output, EventEmitter } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { EquilibriumState, ReactionEnthalpy } from './reaction.engine';
+
+export interface ReactionEnergyReport extends ReactionEnthalpy {
+  formula: string;
+  systemEnergyChange: number;
+}
+
+export interface NuclearEnergyReport {
+  formula: string;
+  qValue: number; // MeV
+  massDefect: number; // u
+  systemEnergyChange: number;
+}
 
 @Component({
   selector: 'app-energy-display',
@@ -62,12 +75,86 @@ import { CommonModule } from '@angular/common';
         </div>
       </div>
 
+      <div class="reaction-energy" *ngIf="lastReaction">
+        <div class="reaction-title">
+          <span>{{ lastReaction.formula }}</span>
+          <span [class.exothermic]="lastReaction.deltaH < 0" [class.endothermic]="lastReaction.deltaH > 0">
+            {{ lastReaction.deltaH < 0 ? '🔥 Exotérmica' : '❄️ Endotérmica' }}
+          </span>
+        </div>
+        <div class="reaction-row">
+          <span>Enlaces rotos:</span>
+          <span>+{{ lastReaction.bondsBroken | number:'1.0-0' }} kJ/mol</span>
+        </div>
+        <div class="reaction-row">
+          <span>Enlaces formados:</span>
+          <span>−{{ lastReaction.bondsFormed | number:'1.0-0' }} kJ/mol</span>
+        </div>
+        <div class="reaction-row total">
+          <span>ΔH{{ lastReaction.fromRecipeData ? ' (medido)' : '' }}:</span>
+          <span>{{ lastReaction.deltaH | number:'1.0-1' }} kJ/mol</span>
+        </div>
+        <div class="reaction-row">
+          <span>{{ lastReaction.systemEnergyChange >= 0 ? 'Calor liberado al sistema:' : 'Calor absorbido del sistema:' }}</span>
+          <span>{{ (lastReaction.systemEnergyChange >= 0 ? lastReaction.systemEnergyChange : -lastReaction.systemEnergyChange) | number:'1.1-1' }} ⚡</span>
+        </div>
+      </div>
+
+      <div class="reaction-energy" *ngIf="lastNuclearReaction">
+        <div class="reaction-title">
+          <span>{{ lastNuclearReaction.formula }}</span>
+          <span [class.exothermic]="lastNuclearReaction.qValue > 0" [class.endothermic]="lastNuclearReaction.qValue <= 0">
+            ☢️ Q = {{ lastNuclearReaction.qValue | number:'1.1-1' }} MeV
+          </span>
+        </div>
+        <div class="reaction-row">
+          <span>Defecto de masa:</span>
+          <span>{{ lastNuclearReaction.massDefect | number:'1.4-4' }} u</span>
+        </div>
+        <div class="reaction-row">
+          <span>Energía liberada al sistema:</span>
+          <span>{{ lastNuclearReaction.systemEnergyChange | number:'1.1-1' }} ⚡</span>
+        </div>
+      </div>
+
+      <div class="reaction-energy" *ngFor="let state of equilibria">
+        <div class="reaction-title">
+          <span>{{ equilibriumFormula(state) }}</span>
+          <span [class.exothermic]="state.forwardProbability >= state.reverseProbability"
+                [class.endothermic]="state.forwardProbability < state.reverseProbability">
+            {{ state.forwardProbability >= state.reverseProbability ? 'Favorece productos' : 'Favorece reactivos' }}
+          </span>
+        </div>
+        <div class="reaction-row">
+          <span>{{ speciesCounts(state.reactants) }}</span>
+          <span>{{ speciesCounts(state.products) }}</span>
+        </div>
+        <div class="reaction-row">
+          <span>→ {{ state.forwardProbability * 100 | number:'1.0-2' }}% por encuentro</span>
+          <span>← {{ state.reverseProbability * 100 | number:'1.0-2' }}%</span>
+        </div>
+      </div>
+
       <div class="temperature-display">
         <span class="temp-label">🌡️ Temperatura:</span>
         <span class="temp-value" [class.hot]="temperature > 500">
           {{ temperature | number:'1.0-0' }} K
         </span>
       </div>
+
+      <div class="ambient-control">
+        <div class="ambient-label">
+          <span>Temperatura ambiente</span>
+          <span class="ambient-value">{{ ambientTemperature | number:'1.0-0' }} K</span>
+        </div>
+        <input
+          type="range"
+          min="20"
+          max="2000"
+          step="10"
+          [value]="ambientTemperature"
+          (input)="onAmbientTemperatureChange($event)">
+      </div>
     </div>
   `,
   styles: [`
@@ -245,6 +332,41 @@ import { CommonModule } from '@angular/common';
       font-size: 1.1em;
     }
 
+    .reaction-energy {
+      margin-bottom: 12px;
+      padding: 8px;
+      background: rgba(255, 255, 255, 0.05);
+      border-radius: 6px;
+      font-size: 0.8em;
+      color: #aaa;
+    }
+
+    .reaction-title {
+      display: flex;
+      justify-content: space-between;
+      margin-bottom: 6px;
+      color: #fff;
+      font-weight: 600;
+    }
+
+    .reaction-row {
+      display: flex;
+      justify-content: space-between;
+    }
+
+    .reaction-row.total {
+      margin-top: 4px;
+      color: #fff;
+    }
+
+    .exothermic {
+      color: #ff7043;
+    }
+
+    .endothermic {
+      color: #4fc3f7;
+    }
+
     .temperature-display {
       display: flex;
       justify-content: space-between;
@@ -269,6 +391,26 @@ import { CommonModule } from '@angular/common';
       animation: pulse 1s infinite;
     }
 
+    .ambient-control {
+      margin-top: 8px;
+    }
+
+    .ambient-label {
+      display: flex;
+      justify-content: space-between;
+      color: #888;
+      font-size: 0.85em;
+      margin-bottom: 4px;
+    }
+
+    .ambient-value {
+      color: #4fc3f7;
+    }
+
+    .ambient-control input {
+      width: 100%;
+    }
+
     @keyframes pulse {
       0%, 100% { opacity: 1; }
       50% { opacity: 0.7; }
@@ -280,9 +422,14 @@ export class EnergyDisplayComponent {
   @Input() maxEnergy = 100;
   @Input() requiredEnergy = 0;
   @Input() temperature = 300;
+  @Input() ambientTemperature = 300;
+  @Input() lastReaction: ReactionEnergyReport | null = null;
+  @Input() lastNuclearReaction: NuclearEnergyReport | null = null;
+  @Input() equilibria: EquilibriumState[] = [];
 
   @Output() energyAdded = new EventEmitter<number>();
   @Output() energyReset = new EventEmitter<void>();
+  @Output() ambientTemperatureChanged = new EventEmitter<number>();
 
   get energyPercentage(): number {
     return Math.min(100, (this.currentEnergy / this.maxEnergy) * 100);
@@ -299,4 +446,16 @@ export class EnergyDisplayComponent {
   resetEnergy(): void {
     this.energyReset.emit();
   }
+
+  onAmbientTemperatureChange(event: Event): void {
+    this.ambientTemperatureChanged.emit(parseFloat((event.target as HTMLInputElement).value));
+  }
+
+  equilibriumFormula(state: EquilibriumState): string {
+    return state.recipe.formula.replace('→', '⇌');
+  }
+
+  speciesCounts(side: { formula: string, count: number }[]): string {
+    return side.map(s => `${s.formula}: ${s.count}`).join(' · ');
+  }
 }
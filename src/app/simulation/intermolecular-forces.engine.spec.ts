@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+import { IntermolecularForceEngine, MoleculeMember } from './intermolecular-forces.engine';
+import { ElementRegistryService } from './element-registry.service';
+
+describe('IntermolecularForceEngine', () => {
+  let engine: IntermolecularForceEngine;
+
+  // Bent water with the real 104.5° angle, and linear CO₂
+  const halfAngle = (104.5 / 2) * Math.PI / 180;
+  const water: MoleculeMember[] = [
+    { id: 1, protons: 8, electronsCount: 8, position: new THREE.Vector3(0, 0, 0) },
+    { id: 2, protons: 1, electronsCount: 1, position: new THREE.Vector3(Math.sin(halfAngle), Math.cos(halfAngle), 0) },
+    { id: 3, protons: 1, electronsCount: 1, position: new THREE.Vector3(-Math.sin(halfAngle), Math.cos(halfAngle), 0) }
+  ];
+  const waterBonds: [number, number][] = [[1, 2], [1, 3]];
+  const carbonDioxide: MoleculeMember[] = [
+    { id: 1, protons: 6, electronsCount: 6, position: new THREE.Vector3(0, 0, 0) },
+    { id: 2, protons: 8, electronsCount: 8, position: new THREE.Vector3(1.2, 0, 0) },
+    { id: 3, protons: 8, electronsCount: 8, position: new THREE.Vector3(-1.2, 0, 0) }
+  ];
+
+  beforeEach(() => {
+    engine = new IntermolecularForceEngine(new ElementRegistryService());
+  });
+
+  it('should give water its dipole, pointing towards the hydrogens', () => {
+    const polarity = engine.describe(water, waterBonds);
+    expect(polarity.dipole.length()).toBeCloseTo(1.85, 1);
+    expect(polarity.dipole.y).toBeGreaterThan(0);
+    expect(engine.isPolar(polarity)).toBeTrue();
+    expect(polarity.donors).toEqual([{ hydrogen: 2, partner: 1 }, { hydrogen: 3, partner: 1 }]);
+    expect(polarity.acceptors).toEqual([1]);
+    expect(engine.strongestForce(polarity)).toBe('hydrogen-bond');
+  });
+
+  it('should cancel the bond dipoles of symmetric molecules', () => {
+    const polarity = engine.describe(carbonDioxide, [[1, 2], [1, 3]]);
+    expect(polarity.dipole.length()).toBeCloseTo(0, 5);
+    expect(engine.isPolar(polarity)).toBeFalse();
+    expect(engine.cancelsBondDipoles(polarity)).toBeTrue();
+    expect(engine.strongestForce(polarity)).toBe('dispersion');
+  });
+
+  it('should make larger molecules disperse more strongly', () => {
+    const small = engine.describe(water, waterBonds);
+    const large = engine.describe(carbonDioxide, [[1, 2], [1, 3]]);
+    expect(engine.dispersionEnergy(large, large)).toBeGreaterThan(engine.dispersionEnergy(small, small));
+  });
+
+  it('should weaken dipole–dipole attraction as the temperature rises', () => {
+    const polarity = engine.describe(water, waterBonds);
+    expect(engine.dipoleEnergy(polarity, polarity, 600)).toBeCloseTo(engine.dipoleEnergy(polarity, polarity, 300) / 2, 5);
+  });
+
+  it('should fall off as r⁻⁷ outside contact and cap inside it', () => {
+    expect(engine.attraction(10, 2, 4)).toBeCloseTo(engine.attraction(10, 2, 2) / 128, 5);
+    expect(engine.attraction(10, 2, 1)).toBe(engine.attraction(10, 2, 2));
+  });
+
+  it('should estimate water boiling near 373 K and above carbon dioxide', () => {
+    const waterTransitions = engine.estimateTransitions(water, engine.describe(water, waterBonds));
+    const dioxideTransitions = engine.estimateTransitions(carbonDioxide, engine.describe(carbonDioxide, [[1, 2], [1, 3]]));
+    expect(waterTransitions.boilingPoint).toBeCloseTo(373, -1);
+    expect(waterTransitions.boilingPoint).toBeGreaterThan(dioxideTransitions.boilingPoint);
+    expect(engine.phaseAt(waterTransitions, 200)).toBe('solid');
+    expect(engine.phaseAt(waterTransitions, 300)).toBe('liquid');
+    expect(engine.phaseAt(waterTransitions, 400)).toBe('gas');
+  });
+});
@@ -0,0 +1,174 @@
+import * as THREE from 'three';
+import { ElementRegistryService } from './element-registry.service';
+
+// An atom of a molecule, placed in the molecule's own frame
+export interface MoleculeMember {
+  id: number;
+  protons: number;
+  electronsCount: number;
+  position: THREE.Vector3;
+}
+
+export interface MolecularPolarity {
+  // Debye, in the molecule's frame, pointing from the negative to the positive end
+  dipole: THREE.Vector3;
+  // Sum of the bond dipole magnitudes in D, large for polar bonds even when they cancel
+  bondDipoles: number;
+  electrons: number;
+  // Hydrogens bonded to N, O or F, with the atom holding them
+  donors: { hydrogen: number, partner: number }[];
+  // N, O and F atoms whose lone pairs can take a hydrogen bond
+  acceptors: number[];
+}
+
+export type IntermolecularForce = 'hydrogen-bond' | 'dipole-dipole' | 'dispersion';
+
+export type Phase = 'solid' | 'liquid' | 'gas';
+
+// Melting and boiling points in K at 1 atm
+export interface PhaseTransitions {
+  meltingPoint: number;
+  boilingPoint: number;
+}
+
+// Bond dipole in Debye per unit of electronegativity difference (fits water's 1.85 D)
+const DEBYE_PER_ELECTRONEGATIVITY = 1.22;
+
+// Dispersion well depth in kJ/mol per electron, from methane (~1.2 kJ/mol for 10 electrons)
+const DISPERSION_KJ_PER_ELECTRON = 0.12;
+
+// Keesom constant: well depth in kJ/mol of two 1 D dipoles at 1 K (HCl pairs ~2 kJ/mol at 300 K)
+const KEESOM_KJ_K = 440;
+
+// Hydrogen bond strength in kJ/mol by the element of the donor or acceptor (N, O, F)
+const HYDROGEN_BOND_KJ: { [atomicNumber: number]: number } = { 7: 13, 8: 21, 9: 29 };
+
+// Boiling point in K per kJ/mol of each kind of attraction, fitted to methane, HCl and water
+const BOILING_K_PER_DISPERSION_KJ = 90;
+const BOILING_K_PER_DEBYE = 60;
+const BOILING_K_PER_HYDROGEN_BOND_KJ = 7.3;
+
+// Molecular solids melt at roughly this fraction of their boiling point
+const MELTING_TO_BOILING_RATIO = 0.6;
+
+// Dipoles smaller than this (in D) are treated as a nonpolar molecule
+const POLAR_THRESHOLD = 0.3;
+
+/**
+ * Attractions between neutral molecules: London dispersion from their size, dipole–dipole
+ * from their polarity and hydrogen bonds between X–H and a lone pair on N, O or F.
+ * Energies are well depths in kJ/mol; the caller scales them into simulation forces.
+ */
+export class IntermolecularForceEngine {
+  constructor(private elements: ElementRegistryService) {}
+
+  /**
+   * Polarity of a molecule from the sum of its bond dipoles. Each bond points towards its
+   * less electronegative atom, so symmetric molecules like CO₂ and CH₄ cancel out.
+   */
+  describe(members: MoleculeMember[], bonds: [number, number][]): MolecularPolarity {
+    const byId = new Map(members.map(m => [m.id, m]));
+    const dipole = new THREE.Vector3();
+    let bondDipoles = 0;
+    const donors: { hydrogen: number, partner: number }[] = [];
+
+    for (const [idA, idB] of bonds) {
+      const a = byId.get(idA);
+      const b = byId.get(idB);
+      if (!a || !b) continue;
+
+      const difference = this.elements.getElectronegativity(b.protons) - this.elements.getElectronegativity(a.protons);
+      const direction = new THREE.Vector3().subVectors(a.position, b.position).normalize();
+      dipole.addScaledVector(direction, difference * DEBYE_PER_ELECTRONEGATIVITY);
+      bondDipoles += Math.abs(difference) * DEBYE_PER_ELECTRONEGATIVITY;
+
+      if (a.protons === 1 && HYDROGEN_BOND_KJ[b.protons]) donors.push({ hydrogen: a.id, partner: b.id });
+      if (b.protons === 1 && HYDROGEN_BOND_KJ[a.protons]) donors.push({ hydrogen: b.id, partner: a.id });
+    }
+
+    return {
+      dipole,
+      bondDipoles,
+      electrons: members.reduce((sum, m) => sum + m.electronsCount, 0),
+      donors,
+      acceptors: members.filter(m => HYDROGEN_BOND_KJ[m.protons]).map(m => m.id)
+    };
+  }
+
+  /**
+   * London dispersion between two molecules, growing with how many electrons can polarise
+   */
+  dispersionEnergy(a: MolecularPolarity, b: MolecularPolarity): number {
+    return DISPERSION_KJ_PER_ELECTRON * Math.sqrt(a.electrons * b.electrons);
+  }
+
+  /**
+   * Dipole–dipole (Keesom) attraction averaged over orientations; thermal tumbling
+   * weakens it as the temperature rises
+   */
+  dipoleEnergy(a: MolecularPolarity, b: MolecularPolarity, temperature: number): number {
+    const product = a.dipole.lengthSq() * b.dipole.lengthSq();
+    return KEESOM_KJ_K * product / Math.max(temperature, 1);
+  }
+
+  hydrogenBondEnergy(donorProtons: number, acceptorProtons: number): number {
+    return ((HYDROGEN_BOND_KJ[donorProtons] ?? 0) + (HYDROGEN_BOND_KJ[acceptorProtons] ?? 0)) / 2;
+  }
+
+  /**
+   * Pull in kJ/mol per unit distance of a -ε(σ/r)⁶ well at separation r. Inside the contact
+   * distance σ the pull stays at its contact value; collisions keep the bodies apart.
+   */
+  attraction(wellDepth: number, contact: number, distance: number): number {
+    const r = Math.max(distance, contact);
+    return 6 * wellDepth * Math.pow(contact / r, 6) / r;
+  }
+
+  /**
+   * Melting and boiling points estimated from how strongly a molecule attracts its own kind,
+   * for species without measured values
+   */
+  estimateTransitions(members: MoleculeMember[], polarity: MolecularPolarity): PhaseTransitions {
+    const protons = new Map(members.map(m => [m.id, m.protons]));
+    let boilingPoint = BOILING_K_PER_DISPERSION_KJ * this.dispersionEnergy(polarity, polarity)
+      + BOILING_K_PER_DEBYE * polarity.dipole.length();
+
+    let hydrogenBond = 0;
+    for (const donor of polarity.donors) {
+      for (const acceptor of polarity.acceptors) {
+        hydrogenBond = Math.max(hydrogenBond, this.hydrogenBondEnergy(protons.get(donor.partner)!, protons.get(acceptor)!));
+      }
+    }
+    boilingPoint += BOILING_K_PER_HYDROGEN_BOND_KJ * hydrogenBond;
+    return { meltingPoint: boilingPoint * MELTING_TO_BOILING_RATIO, boilingPoint };
+  }
+
+  /**
+   * The phase a species takes at the given temperature
+   */
+  phaseAt(transitions: PhaseTransitions, temperature: number): Phase {
+    if (temperature < transitions.meltingPoint) return 'solid';
+    if (temperature < transitions.boilingPoint) return 'liquid';
+    return 'gas';
+  }
+
+  /**
+   * The strongest kind of attraction the molecule can take part in
+   */
+  strongestForce(polarity: MolecularPolarity): IntermolecularForce {
+    if (polarity.donors.length > 0 && polarity.acceptors.length > 0) return 'hydrogen-bond';
+    if (this.isPolar(polarity)) return 'dipole-dipole';
+    return 'dispersion';
+  }
+
+  isPolar(polarity: MolecularPolarity): boolean {
+    return polarity.dipole.length() >= POLAR_THRESHOLD;
+  }
+
+  /**
+   * Polar bonds whose dipoles cancel out, as in CO₂, CH₄ or SF₆
+   */
+  cancelsBondDipoles(polarity: MolecularPolarity): boolean {
+    return !this.isPolar(polarity) && polarity.bondDipoles >= POLAR_THRESHOLD;
+  }
+}
@@ -0,0 +1,276 @@
+import { BondOrder } from './autonomous-chemistry.engine';
+
+/**
+ * A molecule described by its bond graph. `atoms` holds the atomic number of each
+ * atom slot and `bonds` connects slots by index, so isomers with the same formula
+ * (ethanol and dimethyl ether) are different structures.
+ */
+export interface KnownStructure {
+  id: string;
+  name: string;
+  formula: string;
+  atoms: number[];
+  bonds: [number, number, BondOrder][];
+  bondLength: number;
+  // At 1 atm, in K. Species that sublime have both equal to the sublimation point
+  meltingPoint: number;
+  boilingPoint: number;
+}
+
+export const KNOWN_STRUCTURES: KnownStructure[] = [
+  // Diatomic molecules
+  {
+    id: 'hydrogen_gas',
+    name: 'Hydrogen Gas (H₂)',
+    formula: 'H₂',
+    atoms: [1, 1],
+    bonds: [[0, 1, 1]],
+    bondLength: 1.2,
+    meltingPoint: 14,
+    boilingPoint: 20.3
+  },
+  {
+    id: 'oxygen_gas',
+    name: 'Oxygen Gas (O₂)',
+    formula: 'O₂',
+    atoms: [8, 8],
+    bonds: [[0, 1, 2]],
+    bondLength: 1.5,
+    meltingPoint: 54.4,
+    boilingPoint: 90.2
+  },
+  {
+    id: 'nitrogen_gas',
+    name: 'Nitrogen Gas (N₂)',
+    formula: 'N₂',
+    atoms: [7, 7],
+    bonds: [[0, 1, 3]],
+    bondLength: 1.6,
+    meltingPoint: 63.2,
+    boilingPoint: 77.4
+  },
+  {
+    id: 'fluorine_gas',
+    name: 'Fluorine Gas (F₂)',
+    formula: 'F₂',
+    atoms: [9, 9],
+    bonds: [[0, 1, 1]],
+    bondLength: 1.6,
+    meltingPoint: 53.5,
+    boilingPoint: 85
+  },
+  {
+    id: 'chlorine_gas',
+    name: 'Chlorine Gas (Cl₂)',
+    formula: 'Cl₂',
+    atoms: [17, 17],
+    bonds: [[0, 1, 1]],
+    bondLength: 2.0,
+    meltingPoint: 171.6,
+    boilingPoint: 239.1
+  },
+  {
+    id: 'hydrogen_fluoride',
+    name: 'Hydrogen Fluoride (HF)',
+    formula: 'HF',
+    atoms: [1, 9],
+    bonds: [[0, 1, 1]],
+    bondLength: 1.4,
+    meltingPoint: 189.6,
+    boilingPoint: 292.7
+  },
+  {
+    id: 'hydrogen_chloride',
+    name: 'Hydrogen Chloride (HCl)',
+    formula: 'HCl',
+    atoms: [1, 17],
+    bonds: [[0, 1, 1]],
+    bondLength: 1.8,
+    meltingPoint: 159,
+    boilingPoint: 188.1
+  },
+  {
+    id: 'sodium_chloride',
+    name: 'Sodium Chloride (NaCl)',
+    formula: 'NaCl',
+    atoms: [11, 17],
+    bonds: [[0, 1, 1]],
+    bondLength: 2.4,
+    meltingPoint: 1074,
+    boilingPoint: 1686
+  },
+
+  // Small inorganic molecules
+  {
+    id: 'water',
+    name: 'Water (H₂O)',
+    formula: 'H₂O',
+    atoms: [8, 1, 1],
+    bonds: [[0, 1, 1], [0, 2, 1]],
+    bondLength: 2.0,
+    meltingPoint: 273.15,
+    boilingPoint: 373.15
+  },
+  {
+    id: 'hydrogen_peroxide',
+    name: 'Hydrogen Peroxide (H₂O₂)',
+    formula: 'H₂O₂',
+    atoms: [8, 8, 1, 1],
+    bonds: [[0, 1, 1], [0, 2, 1], [1, 3, 1]],
+    bondLength: 2.0,
+    meltingPoint: 272.7,
+    boilingPoint: 423.4
+  },
+  {
+    id: 'hydrogen_sulfide',
+    name: 'Hydrogen Sulfide (H₂S)',
+    formula: 'H₂S',
+    atoms: [16, 1, 1],
+    bonds: [[0, 1, 1], [0, 2, 1]],
+    bondLength: 2.2,
+    meltingPoint: 191.2,
+    boilingPoint: 212.8
+  },
+  {
+    id: 'carbon_dioxide',
+    name: 'Carbon Dioxide (CO₂)',
+    formula: 'CO₂',
+    atoms: [6, 8, 8],
+    bonds: [[0, 1, 2], [0, 2, 2]],
+    bondLength: 2.2,
+    meltingPoint: 194.7,
+    boilingPoint: 194.7
+  },
+  {
+    id: 'sulfur_dioxide',
+    name: 'Sulfur Dioxide (SO₂)',
+    formula: 'SO₂',
+    atoms: [16, 8, 8],
+    bonds: [[0, 1, 2], [0, 2, 2]],
+    bondLength: 2.2,
+    meltingPoint: 197.7,
+    boilingPoint: 263.1
+  },
+  {
+    id: 'ammonia',
+    name: 'Ammonia (NH₃)',
+    formula: 'NH₃',
+    atoms: [7, 1, 1, 1],
+    bonds: [[0, 1, 1], [0, 2, 1], [0, 3, 1]],
+    bondLength: 1.6,
+    meltingPoint: 195.4,
+    boilingPoint: 239.8
+  },
+  {
+    id: 'hydrogen_cyanide',
+    name: 'Hydrogen Cyanide (HCN)',
+    formula: 'HCN',
+    atoms: [6, 1, 7],
+    bonds: [[0, 1, 1], [0, 2, 3]],
+    bondLength: 1.8,
+    meltingPoint: 259.9,
+    boilingPoint: 299
+  },
+  {
+    id: 'phosphorus_pentachloride',
+    name: 'Phosphorus Pentachloride (PCl₅)',
+    formula: 'PCl₅',
+    atoms: [15, 17, 17, 17, 17, 17],
+    bonds: [[0, 1, 1], [0, 2, 1], [0, 3, 1], [0, 4, 1], [0, 5, 1]],
+    bondLength: 2.4,
+    meltingPoint: 433,
+    boilingPoint: 439
+  },
+  {
+    id: 'sulfur_hexafluoride',
+    name: 'Sulfur Hexafluoride (SF₆)',
+    formula: 'SF₆',
+    atoms: [16, 9, 9, 9, 9, 9, 9],
+    bonds: [[0, 1, 1], [0, 2, 1], [0, 3, 1], [0, 4, 1], [0, 5, 1], [0, 6, 1]],
+    bondLength: 2.2,
+    meltingPoint: 209.3,
+    boilingPoint: 209.3
+  },
+
+  // Organic molecules
+  {
+    id: 'methane',
+    name: 'Methane (CH₄)',
+    formula: 'CH₄',
+    atoms: [6, 1, 1, 1, 1],
+    bonds: [[0, 1, 1], [0, 2, 1], [0, 3, 1], [0, 4, 1]],
+    bondLength: 1.8,
+    meltingPoint: 90.7,
+    boilingPoint: 111.7
+  },
+  {
+    id: 'ethane',
+    name: 'Ethane (C₂H₆)',
+    formula: 'C₂H₆',
+    atoms: [6, 6, 1, 1, 1, 1, 1, 1],
+    bonds: [[0, 1, 1], [0, 2, 1], [0, 3, 1], [0, 4, 1], [1, 5, 1], [1, 6, 1], [1, 7, 1]],
+    bondLength: 1.8,
+    meltingPoint: 90.4,
+    boilingPoint: 184.6
+  },
+  {
+    id: 'ethylene',
+    name: 'Ethylene (C₂H₄)',
+    formula: 'C₂H₄',
+    atoms: [6, 6, 1, 1, 1, 1],
+    bonds: [[0, 1, 2], [0, 2, 1], [0, 3, 1], [1, 4, 1], [1, 5, 1]],
+    bondLength: 1.8,
+    meltingPoint: 104,
+    boilingPoint: 169.4
+  },
+  {
+    id: 'acetylene',
+    name: 'Acetylene (C₂H₂)',
+    formula: 'C₂H₂',
+    atoms: [6, 6, 1, 1],
+    bonds: [[0, 1, 3], [0, 2, 1], [1, 3, 1]],
+    bondLength: 1.8,
+    meltingPoint: 189.3,
+    boilingPoint: 189.3
+  },
+  {
+    id: 'methanol',
+    name: 'Methanol (CH₃OH)',
+    formula: 'CH₄O',
+    atoms: [6, 8, 1, 1, 1, 1],
+    bonds: [[0, 1, 1], [0, 2, 1], [0, 3, 1], [0, 4, 1], [1, 5, 1]],
+    bondLength: 1.8,
+    meltingPoint: 175.6,
+    boilingPoint: 337.8
+  },
+  {
+    id: 'formaldehyde',
+    name: 'Formaldehyde (CH₂O)',
+    formula: 'CH₂O',
+    atoms: [6, 8, 1, 1],
+    bonds: [[0, 1, 2], [0, 2, 1], [0, 3, 1]],
+    bondLength: 1.8,
+    meltingPoint: 181,
+    boilingPoint: 254
+  },
+  {
+    id: 'ethanol',
+    name: 'Ethanol (C₂H₅OH)',
+    formula: 'C₂H₆O',
+    atoms: [6, 6, 8, 1, 1, 1, 1, 1, 1],
+    bonds: [[0, 1, 1], [1, 2, 1], [0, 3, 1], [0, 4, 1], [0, 5, 1], [1, 6, 1], [1, 7, 1], [2, 8, 1]],
+    bondLength: 1.8,
+    meltingPoint: 159,
+    boilingPoint: 351.4
+  },
+  {
+    id: 'dimethyl_ether',
+    name: 'Dimethyl Ether (CH₃OCH₃)',
+    formula: 'C₂H₆O',
+    atoms: [6, 8, 6, 1, 1, 1, 1, 1, 1],
+    bonds: [[0, 1, 1], [1, 2, 1], [0, 3, 1], [0, 4, 1], [0, 5, 1], [2, 6, 1], [2, 7, 1], [2, 8, 1]],
+    bondLength: 1.8,
+    meltingPoint: 131.7,
+    boilingPoint: 249
+  }
+];
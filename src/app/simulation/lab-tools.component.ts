@@ -0,0 +1,430 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { CATALYST_SURFACES } from './simulation-config';
+
+// Gas molecules released at each electrode, by formula
+export interface CollectedGas {
+  cathode: { [formula: string]: number };
+  anode: { [formula: string]: number };
+}
+
+/**
+ * Approximate display colour of light of the given wavelength in nm.
+ * Ultraviolet shows as violet and infrared as deep red.
+ */
+export function wavelengthToColor(wavelength: number): number {
+  const stops: [number, number][] = [
+    [380, 0x8e24aa], [440, 0x3949ab], [490, 0x00acc1], [510, 0x43a047],
+    [580, 0xfdd835], [645, 0xfb8c00], [700, 0xe53935]
+  ];
+  return (stops.find(([limit]) => wavelength < limit) ?? [0, 0xb71c1c])[1];
+}
+
+@Component({
+  selector: 'app-lab-tools',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="lab-tools">
+      <div class="panel-header">
+        <span>🔬 Laboratorio</span>
+        <button class="close-btn" (click)="close.emit()">×</button>
+      </div>
+
+      <!-- Electrolysis -->
+      <div class="tool-section">
+        <div class="section-header">
+          <span class="section-icon">🔋</span>
+          <span>Electrólisis</span>
+        </div>
+        <button
+          class="tool-btn"
+          [class.active]="electrolysisActive"
+          (click)="electrolysisToggled.emit()">
+          {{ electrolysisActive ? '✓ Retirar electrodos' : 'Colocar electrodos' }}
+        </button>
+
+        <div class="voltage-control">
+          <div class="voltage-label">
+            <span>Voltaje</span>
+            <span class="voltage-value">{{ voltage | number:'1.1-1' }} V</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="12"
+            step="0.1"
+            [value]="voltage"
+            (input)="onVoltageChange($event)">
+        </div>
+
+        <div class="electrodes" *ngIf="electrolysisActive">
+          <div class="electrode cathode">
+            <span class="electrode-name">Cátodo (−)</span>
+            <span *ngFor="let gas of gasList(collectedGas.cathode)">{{ gas.formula }}: {{ gas.count }}</span>
+            <span *ngIf="gasList(collectedGas.cathode).length === 0" class="empty">Sin gas</span>
+          </div>
+          <div class="electrode anode">
+            <span class="electrode-name">Ánodo (+)</span>
+            <span *ngFor="let gas of gasList(collectedGas.anode)">{{ gas.formula }}: {{ gas.count }}</span>
+            <span *ngIf="gasList(collectedGas.anode).length === 0" class="empty">Sin gas</span>
+          </div>
+        </div>
+        <p class="tool-hint" *ngIf="electrolysisActive && volumeRatio !== null">
+          Volumen cátodo : ánodo = {{ volumeRatio | number:'1.1-1' }} : 1
+        </p>
+        <p class="tool-hint" *ngIf="electrolysisActive">
+          Acerca moléculas de agua a los electrodos para descomponerlas
+        </p>
+      </div>
+
+      <!-- Light source -->
+      <div class="tool-section">
+        <div class="section-header">
+          <span class="section-icon">💡</span>
+          <span>Fuente de luz</span>
+        </div>
+        <button
+          class="tool-btn"
+          [class.active]="lightActive"
+          (click)="lightToggled.emit()">
+          {{ lightActive ? '✓ Apagar luz' : 'Encender luz' }}
+        </button>
+
+        <div class="voltage-control">
+          <div class="voltage-label">
+            <span>Longitud de onda</span>
+            <span class="voltage-value">
+              <span class="swatch" [style.background]="swatchColor"></span>
+              {{ wavelength }} nm{{ wavelength < 380 ? ' (UV)' : '' }}
+            </span>
+          </div>
+          <input
+            type="range"
+            min="200"
+            max="750"
+            step="5"
+            [value]="wavelength"
+            (input)="onWavelengthChange($event)">
+        </div>
+
+        <div class="voltage-control">
+          <div class="voltage-label">
+            <span>Intensidad</span>
+            <span class="voltage-value">{{ intensity }} fotones/s</span>
+          </div>
+          <input
+            type="range"
+            min="1"
+            max="20"
+            step="1"
+            [value]="intensity"
+            (input)="onIntensityChange($event)">
+        </div>
+        <p class="tool-hint">
+          Energía por fotón: {{ photonEnergy | number:'1.0-0' }} kJ/mol
+        </p>
+      </div>
+
+      <!-- Electric field -->
+      <div class="tool-section">
+        <div class="section-header">
+          <span class="section-icon">🧲</span>
+          <span>Campo eléctrico</span>
+        </div>
+        <button
+          class="tool-btn"
+          [class.active]="electricFieldActive"
+          (click)="electricFieldToggled.emit()">
+          {{ electricFieldActive ? '✓ Retirar campo' : 'Colocar campo' }}
+        </button>
+
+        <div class="voltage-control">
+          <div class="voltage-label">
+            <span>Intensidad</span>
+            <span class="voltage-value">{{ fieldStrength | number:'1.1-1' }}</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="10"
+            step="0.5"
+            [value]="fieldStrength"
+            (input)="onFieldStrengthChange($event)">
+        </div>
+
+        <div class="voltage-control">
+          <div class="voltage-label">
+            <span>Dirección</span>
+            <span class="voltage-value">{{ fieldAngle }}°</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="355"
+            step="5"
+            [value]="fieldAngle"
+            (input)="onFieldAngleChange($event)">
+        </div>
+        <p class="tool-hint" *ngIf="electricFieldActive">
+          {{ fieldAlignment !== null
+            ? 'Alineación de los dipolos: ' + (fieldAlignment * 100 | number:'1.0-0') + '% — el calor la desordena'
+            : 'Se coloca alrededor del átomo o molécula seleccionado' }}
+        </p>
+      </div>
+
+      <!-- Catalysis -->
+      <div class="tool-section">
+        <div class="section-header">
+          <span class="section-icon">⚙️</span>
+          <span>Superficie catalítica</span>
+        </div>
+        <div class="surface-buttons">
+          <button
+            *ngFor="let surface of surfaces"
+            class="tool-btn"
+            [class.active]="catalystSurface === surface.element"
+            (click)="catalystSurfaceToggled.emit(surface.element)">
+            {{ surface.label }}
+          </button>
+        </div>
+        <p class="tool-hint">
+          {{ catalystSurface !== null
+            ? 'Pulsa de nuevo para retirar la superficie'
+            : 'También puedes marcar átomos sueltos como catalizadores' }}
+        </p>
+      </div>
+
+      <!-- Nuclear physics -->
+      <div class="tool-section">
+        <div class="section-header">
+          <span class="section-icon">⚛️</span>
+          <span>Física nuclear</span>
+        </div>
+        <button class="tool-btn" (click)="neutronFired.emit()">
+          Disparar neutrón
+        </button>
+        <p class="tool-hint">
+          {{ nuclearMode
+            ? 'El neutrón va hacia el átomo seleccionado. Lanza núcleos ligeros a gran velocidad para fusionarlos'
+            : 'Activa el modo Nuclear para que haya fusión y fisión' }}
+        </p>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .lab-tools {
+      background: rgba(26, 26, 46, 0.95);
+      border-radius: 12px;
+      padding: 16px;
+      width: 240px;
+      border: 1px solid rgba(255, 255, 255, 0.1);
+      color: #e0e0e0;
+    }
+
+    .panel-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 12px;
+      font-weight: 600;
+    }
+
+    .close-btn {
+      background: none;
+      border: none;
+      color: #888;
+      font-size: 1.3em;
+      cursor: pointer;
+    }
+
+    .close-btn:hover {
+      color: #fff;
+    }
+
+    .section-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 12px;
+      color: #4fc3f7;
+      font-weight: 600;
+      font-size: 0.95em;
+    }
+
+    .tool-btn {
+      width: 100%;
+      padding: 10px;
+      background: rgba(255, 255, 255, 0.05);
+      border: 1px solid rgba(255, 255, 255, 0.1);
+      border-radius: 6px;
+      color: #e0e0e0;
+      cursor: pointer;
+      transition: all 0.2s;
+      font-size: 0.85em;
+    }
+
+    .tool-btn:hover {
+      background: rgba(255, 255, 255, 0.1);
+    }
+
+    .tool-btn.active {
+      background: rgba(255, 193, 7, 0.2);
+      border-color: #ffc107;
+      color: #ffc107;
+    }
+
+    .tool-section + .tool-section {
+      margin-top: 16px;
+      padding-top: 16px;
+      border-top: 1px solid rgba(255, 255, 255, 0.1);
+    }
+
+    .surface-buttons {
+      display: flex;
+      gap: 6px;
+    }
+
+    .voltage-control {
+      margin-top: 12px;
+    }
+
+    .voltage-label {
+      display: flex;
+      justify-content: space-between;
+      font-size: 0.85em;
+      margin-bottom: 4px;
+    }
+
+    .voltage-value {
+      color: #ffc107;
+    }
+
+    .swatch {
+      display: inline-block;
+      width: 10px;
+      height: 10px;
+      border-radius: 50%;
+      margin-right: 4px;
+    }
+
+    .voltage-control input[type="range"] {
+      width: 100%;
+    }
+
+    .electrodes {
+      display: flex;
+      gap: 8px;
+      margin-top: 12px;
+    }
+
+    .electrode {
+      flex: 1;
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      padding: 8px;
+      border-radius: 6px;
+      font-size: 0.8em;
+      background: rgba(255, 255, 255, 0.05);
+    }
+
+    .electrode.cathode {
+      border-left: 3px solid #42a5f5;
+    }
+
+    .electrode.anode {
+      border-left: 3px solid #ef5350;
+    }
+
+    .electrode-name {
+      font-weight: 600;
+      margin-bottom: 2px;
+    }
+
+    .empty {
+      color: #666;
+      font-style: italic;
+    }
+
+    .tool-hint {
+      color: #888;
+      font-size: 0.8em;
+      margin: 8px 0 0;
+      font-style: italic;
+    }
+  `]
+})
+export class LabToolsComponent {
+  @Input() electrolysisActive = false;
+  @Input() voltage = 0;
+  @Input() collectedGas: CollectedGas = { cathode: {}, anode: {} };
+  @Input() lightActive = false;
+  @Input() wavelength = 400;
+  @Input() intensity = 5;
+  // kJ per mole of photons at the current wavelength
+  @Input() photonEnergy = 0;
+  // Atomic number of the placed surface, null when there is none
+  @Input() catalystSurface: number | null = null;
+  @Input() nuclearMode = false;
+  @Input() electricFieldActive = false;
+  @Input() fieldStrength = 0;
+  @Input() fieldAngle = 0;
+  @Input() fieldAlignment: number | null = null;
+
+  @Output() electrolysisToggled = new EventEmitter<void>();
+  @Output() voltageChanged = new EventEmitter<number>();
+  @Output() lightToggled = new EventEmitter<void>();
+  @Output() wavelengthChanged = new EventEmitter<number>();
+  @Output() intensityChanged = new EventEmitter<number>();
+  @Output() catalystSurfaceToggled = new EventEmitter<number>();
+  @Output() neutronFired = new EventEmitter<void>();
+  @Output() electricFieldToggled = new EventEmitter<void>();
+  @Output() fieldStrengthChanged = new EventEmitter<number>();
+  @Output() fieldAngleChanged = new EventEmitter<number>();
+  @Output() close = new EventEmitter<void>();
+
+  surfaces = CATALYST_SURFACES;
+
+  /**
+   * Gas volume at equal temperature and pressure is proportional to the number of molecules
+   */
+  get volumeRatio(): number | null {
+    const cathode = this.totalGas(this.collectedGas.cathode);
+    const anode = this.totalGas(this.collectedGas.anode);
+    return anode > 0 ? cathode / anode : null;
+  }
+
+  get swatchColor(): string {
+    return '#' + wavelengthToColor(this.wavelength).toString(16).padStart(6, '0');
+  }
+
+  gasList(gases: { [formula: string]: number }): { formula: string, count: number }[] {
+    return Object.entries(gases).map(([formula, count]) => ({ formula, count }));
+  }
+
+  onVoltageChange(event: Event): void {
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    this.voltageChanged.emit(value);
+  }
+
+  onWavelengthChange(event: Event): void {
+    this.wavelengthChanged.emit(parseFloat((event.target as HTMLInputElement).value));
+  }
+
+  onIntensityChange(event: Event): void {
+    this.intensityChanged.emit(parseFloat((event.target as HTMLInputElement).value));
+  }
+
+  onFieldStrengthChange(event: Event): void {
+    this.fieldStrengthChanged.emit(parseFloat((event.target as HTMLInputElement).value));
+  }
+
+  onFieldAngleChange(event: Event): void {
+    this.fieldAngleChanged.emit(parseFloat((event.target as HTMLInputElement).value));
+  }
+
+  private totalGas(gases: { [formula: string]: number }): number {
+    return Object.values(gases).reduce((sum, count) => sum + count, 0);
+  }
+}
@@ -11,16 +11,25 @@ export interface MolecularRecipe {
   products: {
     moleculeName: string;
     count: number;
+    electrode?: 'cathode' | 'anode'; // Where an electrolysis product is released
   }[];
   conditions: {
     heatIntensity: number;
     activationEnergy: number;
-    energyType: 'heat' | 'electrolysis' | 'collision';
+    energyType: 'heat' | 'electrolysis' | 'collision' | 'light';
     proximity: number; // Distance atoms need to be within
+    voltage?: number; // Minimum cell voltage for electrolysis recipes
+    wavelength?: number; // Longest wavelength in nm whose photons start a light recipe
   };
   geometry: 'linear' | 'bent' | 'tetrahedral' | 'trigonal_planar' | 'octahedral';
   bondLength: number;
   naturalFormation: boolean; // Whether this can form naturally through attraction
+  enthalpy?: number; // Measured ΔH in kJ/mol for the equation as written; overrides the bond energy estimate
+  reversible?: boolean; // Products can react back into the reactants, so the two settle into equilibrium
+  catalysis?: {
+    catalysts: number[]; // Atomic numbers of the catalyst atoms or surfaces that speed it up
+    activationEnergy: number; // Lower barrier when one of them is close
+  };
 }
 
 export const MOLECULAR_RECIPES: MolecularRecipe[] = [
@@ -44,7 +53,13 @@ export const MOLECULAR_RECIPES: MolecularRecipe[] = [
     },
     geometry: 'bent',
     bondLength: 2.0,
-    naturalFormation: true
+    naturalFormation: true,
+    enthalpy: -483.6,
+    reversible: true,
+    catalysis: {
+      catalysts: [78], // Platinum
+      activationEnergy: 4
+    }
   },
   {
     id: 'carbon_dioxide',
@@ -110,7 +125,13 @@ export const MOLECULAR_RECIPES: MolecularRecipe[] = [
     },
     geometry: 'trigonal_planar',
     bondLength: 1.6,
-    naturalFormation: false
+    naturalFormation: false,
+    enthalpy: -91.8,
+    reversible: true,
+    catalysis: {
+      catalysts: [26, 44], // Iron (Haber–Bosch) and ruthenium
+      activationEnergy: 10
+    }
   },
   {
     id: 'hydrogen_gas',
@@ -153,5 +174,75 @@ export const MOLECULAR_RECIPES: MolecularRecipe[] = [
     geometry: 'linear',
     bondLength: 1.5,
     naturalFormation: true
+  },
+  {
+    id: 'hydrogen_fluoride',
+    name: 'Hydrogen Fluoride Formation',
+    formula: 'H₂ + F₂ → 2HF',
+    description: 'Hydrogen and fluorine react violently when their molecules collide hard enough',
+    reactants: [
+      { element: 'H₂', count: 1, atomicNumber: 1 },
+      { element: 'F₂', count: 1, atomicNumber: 9 }
+    ],
+    products: [
+      { moleculeName: 'Hydrogen Fluoride (HF)', count: 2 }
+    ],
+    conditions: {
+      heatIntensity: 0,
+      activationEnergy: 15, // Impact energy along the line of centres
+      energyType: 'collision',
+      proximity: 4
+    },
+    geometry: 'linear',
+    bondLength: 1.4,
+    naturalFormation: false
+  },
+  {
+    id: 'water_electrolysis',
+    name: 'Water Electrolysis',
+    formula: '2H₂O → 2H₂ + O₂',
+    description: 'An electric current splits water into hydrogen at the cathode and oxygen at the anode',
+    reactants: [
+      { element: 'H₂O', count: 2, atomicNumber: 8 }
+    ],
+    products: [
+      { moleculeName: 'Hydrogen Gas (H₂)', count: 2, electrode: 'cathode' },
+      { moleculeName: 'Oxygen Gas (O₂)', count: 1, electrode: 'anode' }
+    ],
+    conditions: {
+      heatIntensity: 0,
+      activationEnergy: 0,
+      energyType: 'electrolysis',
+      proximity: 8,
+      voltage: 1.23
+    },
+    geometry: 'linear',
+    bondLength: 1.2,
+    naturalFormation: false,
+    enthalpy: 483.6
+  },
+  {
+    id: 'hydrogen_chloride',
+    name: 'Hydrogen Chloride Photosynthesis',
+    formula: 'H₂ + Cl₂ → 2HCl',
+    description: 'Light splits chlorine into radicals that start a chain reaction with hydrogen',
+    reactants: [
+      { element: 'Cl₂', count: 1, atomicNumber: 17 },
+      { element: 'H₂', count: 1, atomicNumber: 1 }
+    ],
+    products: [
+      { moleculeName: 'Hydrogen Chloride (HCl)', count: 2 }
+    ],
+    conditions: {
+      heatIntensity: 0,
+      activationEnergy: 0,
+      energyType: 'light',
+      proximity: 8,
+      wavelength: 494 // Photons of 242 kJ/mol break Cl–Cl
+    },
+    geometry: 'linear',
+    bondLength: 1.8,
+    naturalFormation: false,
+    enthalpy: -184.6
   }
 ];
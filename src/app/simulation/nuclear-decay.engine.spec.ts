@@ -0,0 +1,112 @@
+import { NuclearDecayEngine } from './nuclear-decay.engine';
+import { ElementRegistryService } from './element-registry.service';
+
+describe('NuclearDecayEngine', () => {
+  let engine: NuclearDecayEngine;
+
+  beforeEach(() => {
+    engine = new NuclearDecayEngine(new ElementRegistryService());
+  });
+
+  it('should treat natural isotopes as stable', () => {
+    expect(engine.getNuclide(1, 0)).toBeNull();
+    expect(engine.getNuclide(1, 1)).toBeNull();
+    expect(engine.getNuclide(6, 6)).toBeNull();
+    expect(engine.getNuclide(2, 1)).toBeNull();
+  });
+
+  it('should look up tabulated nuclides', () => {
+    const tritium = engine.getNuclide(1, 2)!;
+    const carbon14 = engine.getNuclide(6, 8)!;
+
+    expect(tritium.decays).toEqual([{ mode: 'beta-minus', branching: 1 }]);
+    expect(tritium.estimated).toBeFalse();
+    expect(carbon14.halfLife).toBeGreaterThan(tritium.halfLife);
+    // Natural but radioactive
+    expect(engine.getNuclide(92, 146)!.decays[0].mode).toBe('alpha');
+  });
+
+  it('should estimate the decay of untabulated nuclides from the valley of stability', () => {
+    expect(engine.getNuclide(6, 10)).toEqual(jasmine.objectContaining({ estimated: true, decays: [{ mode: 'beta-minus', branching: 1 }] }));
+    expect(engine.getNuclide(8, 5)!.decays[0].mode).toBe('beta-plus');
+    expect(engine.getNuclide(85, 126)!.decays[0].mode).toBe('alpha');
+  });
+
+  it('should only treat natural isotopes as stable', () => {
+    // Near the valley of stability but never found in nature
+    expect(engine.getStability(61, 86)).toBe('radioactive');
+    expect(engine.getNuclide(61, 86)!.decays[0].mode).toBe('beta-minus');
+    for (let neutrons = 50; neutrons <= 60; neutrons++) {
+      expect(engine.getNuclide(43, neutrons)).withContext(`Tc-${43 + neutrons}`).not.toBeNull();
+    }
+    for (let neutrons = 80; neutrons <= 90; neutrons++) {
+      expect(engine.getNuclide(61, neutrons)).withContext(`Pm-${61 + neutrons}`).not.toBeNull();
+    }
+    // Rare natural isotopes stay stable
+    expect(engine.getNuclide(20, 23)).toBeNull();
+    expect(engine.getNuclide(50, 74)).toBeNull();
+  });
+
+  it('should not let nuclei with five or eight nucleons hold together', () => {
+    expect(engine.getStability(2, 3)).toBe('unbound');
+    expect(engine.getStability(3, 2)).toBe('unbound');
+    expect(engine.getStability(4, 4)).toBe('unbound');
+    expect(engine.getStability(5, 4)).toBe('unbound');
+    // He-5 leaves a free neutron behind, Li-5 a proton
+    expect(engine.decay(2, 3, engine.chooseMode(engine.getNuclide(2, 3)!))).toEqual(jasmine.objectContaining({ protons: 0, neutrons: 1 }));
+    expect(engine.decay(3, 2, engine.chooseMode(engine.getNuclide(3, 2)!))).toEqual(jasmine.objectContaining({ protons: 1, neutrons: 0 }));
+  });
+
+  it('should look up the half-life of the default heavy isotopes', () => {
+    const uranium238 = engine.getNuclide(92, 146)!;
+    for (const [protons, neutrons] of [[91, 140], [92, 142], [93, 144], [94, 150], [95, 148]]) {
+      const nuclide = engine.getNuclide(protons, neutrons)!;
+      expect(nuclide.estimated).withContext(`Z=${protons}`).toBeFalse();
+      expect(engine.simulatedHalfLife(nuclide)).toBeGreaterThan(engine.simulatedHalfLife(engine.getNuclide(1, 2)!));
+    }
+    expect(engine.getNuclide(91, 140)!.halfLife).toBeLessThan(uranium238.halfLife);
+  });
+
+  it('should move the nucleons for each decay mode', () => {
+    expect(engine.decay(92, 146, 'alpha')).toEqual(jasmine.objectContaining({ protons: 90, neutrons: 144, emitted: ['alpha'] }));
+    expect(engine.decay(6, 8, 'beta-minus')).toEqual(jasmine.objectContaining({ protons: 7, neutrons: 7 }));
+    expect(engine.decay(6, 5, 'beta-plus')).toEqual(jasmine.objectContaining({ protons: 5, neutrons: 6 }));
+    expect(engine.decay(4, 3, 'electron-capture')).toEqual(jasmine.objectContaining({ protons: 3, neutrons: 4, capturedElectrons: 1 }));
+  });
+
+  it('should keep the order of half-lives when compressing them', () => {
+    const tritium = engine.getNuclide(1, 2)!;
+    const carbon14 = engine.getNuclide(6, 8)!;
+
+    expect(engine.simulatedHalfLife(carbon14)).toBeGreaterThan(engine.simulatedHalfLife(tritium));
+    expect(engine.simulatedHalfLife(carbon14)).toBeLessThan(60);
+    expect(engine.decayProbability(tritium, engine.simulatedHalfLife(tritium))).toBeCloseTo(0.5, 5);
+  });
+
+  it('should peak the binding energy per nucleon around iron', () => {
+    const iron56 = engine.bindingEnergyPerNucleon(26, 30);
+
+    expect(iron56).toBeCloseTo(8.8, 0);
+    expect(engine.bindingEnergyPerNucleon(92, 146)).toBeLessThan(iron56);
+    expect(engine.bindingEnergyPerNucleon(2, 2)).toBeLessThan(iron56);
+    expect(engine.bindingEnergyPerNucleon(1, 0)).toBe(0);
+    // Measured rather than estimated for the lightest nuclei
+    expect(engine.bindingEnergy(1, 1)).toBe(2.224);
+    expect(engine.massDefect(2, 2)).toBeCloseTo(0.0304, 4);
+  });
+
+  it('should place nuclei past the drip lines as unbound', () => {
+    expect(engine.getStability(6, 6)).toBe('stable');
+    expect(engine.getStability(6, 8)).toBe('radioactive');
+    expect(engine.getStability(6, 10)).toBe('radioactive');
+    expect(engine.getStability(1, 3)).toBe('unbound');
+    expect(engine.getStability(8, 30)).toBe('unbound');
+  });
+
+  it('should pick decay branches by their ratio', () => {
+    const potassium40 = engine.getNuclide(19, 21)!;
+
+    expect(engine.chooseMode(potassium40, 0.5)).toBe('beta-minus');
+    expect(engine.chooseMode(potassium40, 0.95)).toBe('electron-capture');
+  });
+});
@@ -0,0 +1,193 @@
+import { ElementRegistryService } from './element-registry.service';
+import { DecayMode, LIGHT_BINDING_ENERGIES, Nuclide, NUCLIDES } from './nuclides';
+
+// What a nuclide is, as far as the simulator is concerned
+export interface NuclideInfo extends Nuclide {
+  // True when the nuclide is not tabulated and its decay was guessed from the valley of stability
+  estimated: boolean;
+}
+
+export interface DecayResult {
+  mode: DecayMode;
+  protons: number;
+  neutrons: number;
+  // Particles leaving the nucleus; electron capture instead absorbs one orbital electron
+  emitted: ('alpha' | 'electron' | 'positron' | 'neutrino' | 'antineutrino')[];
+  capturedElectrons: number;
+}
+
+export type NuclearStability = 'stable' | 'radioactive' | 'unbound';
+
+// Semi-empirical mass formula coefficients in MeV (volume, surface, Coulomb, asymmetry, pairing)
+const SEMF = { volume: 15.75, surface: 17.8, coulomb: 0.711, asymmetry: 23.7, pairing: 11.18 };
+
+// Energy equivalent of one atomic mass unit
+export const MEV_PER_U = 931.494;
+
+// Half-life given to untabulated nuclides; most live for well under a second
+const ESTIMATED_HALF_LIFE = 1;
+
+// How far (in protons) a heavy nucleus may sit on the neutron-rich side of the valley of stability and still emit alpha particles
+const ALPHA_TOLERANCE = 0.75;
+
+/**
+ * Decides which nuclei are unstable and how they decay. Tabulated nuclides use their
+ * measured half-life and branching ratios; natural isotopes are stable; anything else
+ * decays towards the nearest stable isobar.
+ */
+export class NuclearDecayEngine {
+  private readonly nuclides = new Map<string, Nuclide>(
+    NUCLIDES.map(n => [this.key(n.atomicNumber, n.massNumber), n])
+  );
+
+  constructor(private elements: ElementRegistryService) {}
+
+  /**
+   * The nuclide with the given nucleons, or null if it is stable
+   */
+  getNuclide(protons: number, neutrons: number): NuclideInfo | null {
+    const massNumber = protons + neutrons;
+    const tabulated = this.nuclides.get(this.key(protons, massNumber));
+    if (tabulated) return { ...tabulated, estimated: false };
+
+    // Nothing beyond bismuth is stable. Heavy nuclei shed alpha particles unless they are very neutron-rich
+    if (protons > 83) {
+      const alphaPossible = neutrons >= 2 && protons - this.stableProtons(massNumber) > -ALPHA_TOLERANCE;
+      return this.estimate(protons, massNumber, alphaPossible ? 'alpha' : this.betaModeTowardsStability(protons, massNumber));
+    }
+
+    if (this.isNatural(protons, massNumber)) return null;
+    return this.estimate(protons, massNumber, this.betaModeTowardsStability(protons, massNumber));
+  }
+
+  /**
+   * Stable, radioactive, or beyond a drip line: so neutron- or proton-rich that the last
+   * nucleon is not bound at all
+   */
+  getStability(protons: number, neutrons: number): NuclearStability {
+    const nuclide = this.getNuclide(protons, neutrons);
+    if (!nuclide) return 'stable';
+    if (nuclide.unbound) return 'unbound';
+    if (!nuclide.estimated) return 'radioactive';
+
+    const neutronSeparation = neutrons > 0 ? this.bindingEnergy(protons, neutrons) - this.bindingEnergy(protons, neutrons - 1) : 1;
+    const protonSeparation = protons > 1 ? this.bindingEnergy(protons, neutrons) - this.bindingEnergy(protons - 1, neutrons) : 1;
+    return neutronSeparation < 0 || protonSeparation < 0 ? 'unbound' : 'radioactive';
+  }
+
+  /**
+   * Total binding energy in MeV: measured for the lightest nuclei, otherwise from the
+   * semi-empirical (Weizsäcker) mass formula
+   */
+  bindingEnergy(protons: number, neutrons: number): number {
+    const massNumber = protons + neutrons;
+    if (massNumber <= 1) return 0;
+    const measured = LIGHT_BINDING_ENERGIES[this.key(protons, massNumber)];
+    if (measured !== undefined) return measured;
+
+    const asymmetry = neutrons - protons;
+    let pairing = 0;
+    if (protons % 2 === 0 && neutrons % 2 === 0) pairing = SEMF.pairing / Math.sqrt(massNumber);
+    if (protons % 2 === 1 && neutrons % 2 === 1) pairing = -SEMF.pairing / Math.sqrt(massNumber);
+
+    return SEMF.volume * massNumber
+      - SEMF.surface * Math.pow(massNumber, 2 / 3)
+      - SEMF.coulomb * protons * (protons - 1) / Math.cbrt(massNumber)
+      - SEMF.asymmetry * asymmetry * asymmetry / massNumber
+      + pairing;
+  }
+
+  bindingEnergyPerNucleon(protons: number, neutrons: number): number {
+    const massNumber = protons + neutrons;
+    return massNumber > 0 ? this.bindingEnergy(protons, neutrons) / massNumber : 0;
+  }
+
+  /**
+   * Mass in u that the nucleons lose by binding together
+   */
+  massDefect(protons: number, neutrons: number): number {
+    return this.bindingEnergy(protons, neutrons) / MEV_PER_U;
+  }
+
+  /**
+   * Proton number of the most stable nucleus of a given mass number (semi-empirical mass formula)
+   */
+  stableProtons(massNumber: number): number {
+    return massNumber / (1.98 + 0.0155 * Math.pow(massNumber, 2 / 3));
+  }
+
+  /**
+   * Real half-lives run from attoseconds to billions of years. The simulation compresses
+   * them logarithmically into a few seconds to under a minute, keeping their order.
+   */
+  simulatedHalfLife(nuclide: Nuclide): number {
+    return 2 + 2 * Math.log10(1 + nuclide.halfLife);
+  }
+
+  /**
+   * Chance that the nucleus decays during `elapsed` simulated seconds
+   */
+  decayProbability(nuclide: Nuclide, elapsed: number): number {
+    return 1 - Math.pow(2, -elapsed / this.simulatedHalfLife(nuclide));
+  }
+
+  /**
+   * Picks a decay branch; `roll` is a uniform random number in [0, 1)
+   */
+  chooseMode(nuclide: Nuclide, roll: number = Math.random()): DecayMode {
+    let cumulative = 0;
+    for (const branch of nuclide.decays) {
+      cumulative += branch.branching;
+      if (roll < cumulative) return branch.mode;
+    }
+    return nuclide.decays[nuclide.decays.length - 1].mode;
+  }
+
+  decay(protons: number, neutrons: number, mode: DecayMode): DecayResult {
+    switch (mode) {
+      case 'alpha':
+        return { mode, protons: protons - 2, neutrons: neutrons - 2, emitted: ['alpha'], capturedElectrons: 0 };
+      case 'beta-minus':
+        return { mode, protons: protons + 1, neutrons: neutrons - 1, emitted: ['electron', 'antineutrino'], capturedElectrons: 0 };
+      case 'beta-plus':
+        return { mode, protons: protons - 1, neutrons: neutrons + 1, emitted: ['positron', 'neutrino'], capturedElectrons: 0 };
+      case 'electron-capture':
+        return { mode, protons: protons - 1, neutrons: neutrons + 1, emitted: ['neutrino'], capturedElectrons: 1 };
+    }
+  }
+
+  /**
+   * Beta decay heads for the nearest stable isobar, or for the valley of stability when the
+   * mass number has none
+   */
+  private betaModeTowardsStability(protons: number, massNumber: number): DecayMode {
+    let target = this.stableProtons(massNumber);
+    for (let distance = 1; distance <= 83; distance++) {
+      const isobar = [protons - distance, protons + distance].find(z => this.isNatural(z, massNumber));
+      if (isobar !== undefined) {
+        target = isobar;
+        break;
+      }
+    }
+    return protons > target ? 'beta-plus' : 'beta-minus';
+  }
+
+  private isNatural(protons: number, massNumber: number): boolean {
+    return !!this.elements.getElement(protons)?.isotopes
+      .some(i => i.massNumber === massNumber && i.abundance > 0);
+  }
+
+  private estimate(atomicNumber: number, massNumber: number, mode: DecayMode): NuclideInfo {
+    return {
+      atomicNumber,
+      massNumber,
+      halfLife: ESTIMATED_HALF_LIFE,
+      decays: [{ mode, branching: 1 }],
+      estimated: true
+    };
+  }
+
+  private key(atomicNumber: number, massNumber: number): string {
+    return `${atomicNumber}-${massNumber}`;
+  }
+}
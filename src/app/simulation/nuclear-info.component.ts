@@ -0,0 +1,223 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ElementRegistryService } from './element-registry.service';
+import { NuclearDecayEngine, NuclearStability, NuclideInfo } from './nuclear-decay.engine';
+import { DecayMode } from './nuclides';
+
+export const DECAY_MODE_LABELS: { [mode in DecayMode]: string } = {
+  'alpha': 'α',
+  'beta-minus': 'β⁻',
+  'beta-plus': 'β⁺',
+  'electron-capture': 'captura electrónica'
+};
+
+interface ChartCell {
+  protons: number;
+  neutrons: number;
+  stability: NuclearStability;
+  mode?: DecayMode;
+  current: boolean;
+}
+
+@Component({
+  selector: 'app-nuclear-info',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="nuclear-info">
+      <div class="info-row">
+        <span>Número másico:</span>
+        <span>{{ protons + neutrons }}</span>
+      </div>
+      <div class="info-row">
+        <span>Defecto de masa:</span>
+        <span>{{ massDefect | number:'1.4-4' }} u</span>
+      </div>
+      <div class="info-row">
+        <span>Energía de enlace:</span>
+        <span>{{ bindingEnergy | number:'1.1-1' }} MeV</span>
+      </div>
+      <div class="info-row">
+        <span>Por nucleón:</span>
+        <span>{{ bindingPerNucleon | number:'1.2-2' }} MeV</span>
+      </div>
+      <div class="status" [class]="stability">
+        <ng-container [ngSwitch]="stability">
+          <span *ngSwitchCase="'stable'">✓ Estable</span>
+          <span *ngSwitchCase="'radioactive'">
+            ☢️ Radiactivo: {{ modeLabel(nuclide!.decays[0].mode) }},
+            t½ {{ nuclide!.estimated ? '≈ ' : '' }}{{ formatHalfLife(nuclide!.halfLife) }}
+          </span>
+          <span *ngSwitchCase="'unbound'">✗ Fuera de las líneas de goteo</span>
+        </ng-container>
+      </div>
+
+      <div class="chart-title">Carta de nucleidos (Z vs N)</div>
+      <div class="chart" [style.grid-template-columns]="'repeat(' + columns + ', 10px)'">
+        <div
+          *ngFor="let cell of cells"
+          class="cell"
+          [class.current]="cell.current"
+          [style.background]="cellColor(cell)"
+          [title]="cellTitle(cell)">
+        </div>
+      </div>
+      <div class="legend">
+        <span><i style="background: #eceff1"></i>Estable</span>
+        <span><i style="background: #42a5f5"></i>β⁻</span>
+        <span><i style="background: #ef5350"></i>β⁺/CE</span>
+        <span><i style="background: #ffca28"></i>α</span>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .nuclear-info {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      margin-top: 10px;
+      padding-top: 10px;
+      border-top: 1px solid rgba(255, 255, 255, 0.1);
+      font-size: 0.85em;
+      color: #e0e0e0;
+    }
+
+    .info-row {
+      display: flex;
+      justify-content: space-between;
+    }
+
+    .status {
+      padding: 6px 8px;
+      border-radius: 6px;
+      font-size: 0.95em;
+    }
+
+    .status.stable {
+      background: rgba(76, 175, 80, 0.15);
+      color: #81c784;
+    }
+
+    .status.radioactive {
+      background: rgba(255, 193, 7, 0.15);
+      color: #ffd54f;
+    }
+
+    .status.unbound {
+      background: rgba(244, 67, 54, 0.15);
+      color: #e57373;
+    }
+
+    .chart-title {
+      color: #888;
+      margin-top: 4px;
+    }
+
+    .chart {
+      display: grid;
+      grid-auto-rows: 10px;
+      gap: 1px;
+    }
+
+    .cell {
+      border-radius: 1px;
+    }
+
+    .cell.current {
+      outline: 2px solid #fff;
+      outline-offset: -1px;
+    }
+
+    .legend {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px;
+      color: #aaa;
+      font-size: 0.9em;
+    }
+
+    .legend i {
+      display: inline-block;
+      width: 8px;
+      height: 8px;
+      margin-right: 3px;
+    }
+  `]
+})
+export class NuclearInfoComponent implements OnChanges {
+  @Input() protons = 1;
+  @Input() neutrons = 0;
+
+  readonly columns = 17;
+  readonly rows = 13;
+
+  nuclide: NuclideInfo | null = null;
+  stability: NuclearStability = 'stable';
+  bindingEnergy = 0;
+  bindingPerNucleon = 0;
+  massDefect = 0;
+  cells: ChartCell[] = [];
+
+  private decayEngine: NuclearDecayEngine;
+
+  constructor(elementRegistry: ElementRegistryService) {
+    this.decayEngine = new NuclearDecayEngine(elementRegistry);
+  }
+
+  ngOnChanges(): void {
+    this.nuclide = this.decayEngine.getNuclide(this.protons, this.neutrons);
+    this.stability = this.decayEngine.getStability(this.protons, this.neutrons);
+    this.bindingEnergy = this.decayEngine.bindingEnergy(this.protons, this.neutrons);
+    this.bindingPerNucleon = this.decayEngine.bindingEnergyPerNucleon(this.protons, this.neutrons);
+    this.massDefect = this.decayEngine.massDefect(this.protons, this.neutrons);
+    this.cells = this.buildChart();
+  }
+
+  /**
+   * A window of the chart of nuclides centred on the current atom, highest Z on top
+   */
+  private buildChart(): ChartCell[] {
+    const minProtons = Math.max(1, this.protons - Math.floor(this.rows / 2));
+    const minNeutrons = Math.max(0, this.neutrons - Math.floor(this.columns / 2));
+    const cells: ChartCell[] = [];
+
+    for (let protons = minProtons + this.rows - 1; protons >= minProtons; protons--) {
+      for (let neutrons = minNeutrons; neutrons < minNeutrons + this.columns; neutrons++) {
+        const nuclide = this.decayEngine.getNuclide(protons, neutrons);
+        cells.push({
+          protons,
+          neutrons,
+          stability: this.decayEngine.getStability(protons, neutrons),
+          mode: nuclide?.decays[0].mode,
+          current: protons === this.protons && neutrons === this.neutrons
+        });
+      }
+    }
+    return cells;
+  }
+
+  cellColor(cell: ChartCell): string {
+    if (cell.stability === 'stable') return '#eceff1';
+    if (cell.stability === 'unbound') return 'rgba(255, 255, 255, 0.04)';
+    switch (cell.mode) {
+      case 'beta-minus': return '#42a5f5';
+      case 'alpha': return '#ffca28';
+      default: return '#ef5350';
+    }
+  }
+
+  cellTitle(cell: ChartCell): string {
+    return `Z=${cell.protons}, N=${cell.neutrons}, A=${cell.protons + cell.neutrons}`;
+  }
+
+  modeLabel(mode: DecayMode): string {
+    return DECAY_MODE_LABELS[mode];
+  }
+
+  formatHalfLife(seconds: number): string {
+    const units: [number, string][] = [[3.156e7, 'años'], [86400, 'días'], [3600, 'h'], [60, 'min'], [1, 's']];
+    const [size, label] = units.find(([size]) => seconds >= size) ?? [1, 's'];
+    const value = seconds / size;
+    return `${value >= 1e4 ? value.toExponential(2) : value.toPrecision(3)} ${label}`;
+  }
+}
@@ -0,0 +1,57 @@
+import { NEUTRON, NuclearReactionEngine, PROTON } from './nuclear-reaction.engine';
+import { ElementRegistryService } from './element-registry.service';
+
+describe('NuclearReactionEngine', () => {
+  let engine: NuclearReactionEngine;
+
+  const deuterium = { protons: 1, neutrons: 1 };
+  const tritium = { protons: 1, neutrons: 2 };
+
+  beforeEach(() => {
+    engine = new NuclearReactionEngine(new ElementRegistryService());
+  });
+
+  it('should fuse deuterium and tritium into helium-4 and a neutron', () => {
+    const reaction = engine.fuse(deuterium, tritium)!;
+
+    expect(reaction.type).toBe('fusion');
+    expect(reaction.products).toEqual([{ protons: 2, neutrons: 2 }, NEUTRON]);
+    expect(reaction.qValue).toBeCloseTo(17.6, 1);
+    expect(engine.formula(reaction)).toBe('H-2 + H-3 → He-4 + n');
+    expect(engine.massDefect(reaction)).toBeCloseTo(0.0189, 4);
+  });
+
+  it('should not fuse nuclei that fall straight apart again', () => {
+    expect(engine.fuse(PROTON, PROTON)).toBeNull();
+    expect(engine.fuse(PROTON, deuterium)!.products).toEqual([{ protons: 2, neutrons: 1 }]);
+  });
+
+  it('should make heavier nuclei harder to fuse', () => {
+    const carbon = { protons: 6, neutrons: 6 };
+
+    expect(engine.coulombBarrier(deuterium, tritium)).toBeCloseTo(0.44, 2);
+    expect(engine.coulombBarrier(carbon, carbon)).toBeGreaterThan(engine.coulombBarrier(deuterium, tritium));
+    expect(engine.coulombBarrier(NEUTRON, carbon)).toBe(0);
+  });
+
+  it('should split uranium-235 but not uranium-238 with a neutron', () => {
+    const u235 = { protons: 92, neutrons: 143 };
+    const u238 = { protons: 92, neutrons: 146 };
+
+    const fission = engine.absorbNeutron(u235, 0.4, 2)!;
+    expect(fission.type).toBe('fission');
+    expect(fission.products.length).toBe(4);
+    expect(fission.products.reduce((sum, n) => sum + n.protons, 0)).toBe(92);
+    expect(fission.products.reduce((sum, n) => sum + n.protons + n.neutrons, 0)).toBe(236);
+    expect(fission.qValue).toBeGreaterThan(150);
+
+    const capture = engine.absorbNeutron(u238)!;
+    expect(capture.type).toBe('capture');
+    expect(capture.products).toEqual([{ protons: 92, neutrons: 147 }]);
+  });
+
+  it('should only capture neutrons the nucleus can bind', () => {
+    expect(engine.absorbNeutron(PROTON)!.qValue).toBeCloseTo(2.224, 3);
+    expect(engine.absorbNeutron(tritium)).toBeNull();
+  });
+});
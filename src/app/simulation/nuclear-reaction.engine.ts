@@ -0,0 +1,171 @@
+import { ElementRegistryService } from './element-registry.service';
+import { MEV_PER_U, NuclearDecayEngine } from './nuclear-decay.engine';
+
+export interface Nucleus {
+  protons: number;
+  neutrons: number;
+}
+
+export interface NuclearReaction {
+  type: 'fusion' | 'fission' | 'capture';
+  reactants: Nucleus[];
+  products: Nucleus[];
+  // Energy released in MeV, from the binding energy gained (negative when it has to be supplied)
+  qValue: number;
+}
+
+export const NEUTRON: Nucleus = { protons: 0, neutrons: 1 };
+export const PROTON: Nucleus = { protons: 1, neutrons: 0 };
+
+// Simulation impact energy units per MeV. D + T must hit with ~0.4 MeV, a few hundred units
+export const IMPACT_UNITS_PER_MEV = 350;
+
+// e²/4πε₀ in MeV·fm, and the nuclear radius constant r = r0·A^(1/3) in fm
+const COULOMB_MEV_FM = 1.44;
+const NUCLEAR_RADIUS_FM = 1.2;
+
+// Fissility Z²/A above which a heavy compound nucleus splits once a neutron has excited it
+const FISSILITY_THRESHOLD = 35;
+
+/**
+ * Fusion, fission and neutron capture between bare nuclei. Proton and neutron numbers are
+ * conserved, so the energy released is just the change in total binding energy.
+ */
+export class NuclearReactionEngine {
+  private decayEngine: NuclearDecayEngine;
+
+  constructor(private elements: ElementRegistryService) {
+    this.decayEngine = new NuclearDecayEngine(elements);
+  }
+
+  /**
+   * Electrostatic repulsion in MeV that two nuclei must overcome to touch
+   */
+  coulombBarrier(a: Nucleus, b: Nucleus): number {
+    if (a.protons === 0 || b.protons === 0) return 0;
+    const separation = NUCLEAR_RADIUS_FM * (Math.cbrt(this.massNumber(a)) + Math.cbrt(this.massNumber(b)));
+    return COULOMB_MEV_FM * a.protons * b.protons / separation;
+  }
+
+  /**
+   * Impact energy (in MeV) two nuclei need to fuse: the Coulomb barrier plus whatever
+   * the reaction itself consumes
+   */
+  fusionThreshold(a: Nucleus, b: Nucleus): number {
+    const reaction = this.fuse(a, b);
+    return this.coulombBarrier(a, b) + Math.max(0, -(reaction?.qValue ?? 0));
+  }
+
+  /**
+   * The two nuclei merge into a compound nucleus, which then boils off any nucleon it
+   * cannot hold. Returns null when nothing new is made (p + p falls apart again).
+   */
+  fuse(a: Nucleus, b: Nucleus): NuclearReaction | null {
+    const compound = { protons: a.protons + b.protons, neutrons: a.neutrons + b.neutrons };
+    const products = this.evaporate(compound);
+
+    const key = (nuclei: Nucleus[]) => nuclei.map(n => `${n.protons}-${n.neutrons}`).sort().join(',');
+    if (key(products) === key([a, b])) return null;
+    return this.reaction('fusion', [a, b], products);
+  }
+
+  /**
+   * A free neutron absorbed by a nucleus: fissile heavy nuclei split, others keep the
+   * neutron if they can bind it
+   */
+  absorbNeutron(target: Nucleus, split: number = 0.4, promptNeutrons: number = 2): NuclearReaction | null {
+    if (this.isFissile(target)) return this.fission(target, split, promptNeutrons);
+
+    const compound = { protons: target.protons, neutrons: target.neutrons + 1 };
+    if (this.separationEnergy(compound, NEUTRON) <= 0) return null;
+    return this.reaction('capture', [target, NEUTRON], [compound]);
+  }
+
+  /**
+   * Heavy nuclei whose compound after absorbing a neutron has an even neutron number:
+   * the pairing energy gained is enough to push it over the fission barrier (U-235, Pu-239)
+   */
+  isFissile(target: Nucleus): boolean {
+    const neutrons = target.neutrons + 1;
+    const massNumber = target.protons + neutrons;
+    return target.protons >= 90 && neutrons % 2 === 0 && target.protons * target.protons / massNumber >= FISSILITY_THRESHOLD;
+  }
+
+  /**
+   * Splits the compound nucleus into a light and a heavy fragment with the same
+   * proton-to-neutron ratio, plus a few prompt neutrons. `split` is the light
+   * fragment's share of the nucleons.
+   */
+  fission(target: Nucleus, split: number, promptNeutrons: number): NuclearReaction {
+    const compound = { protons: target.protons, neutrons: target.neutrons + 1 };
+    const fragmentNucleons = this.massNumber(compound) - promptNeutrons;
+    const lightMass = Math.round(fragmentNucleons * split);
+    const lightProtons = Math.round(compound.protons * lightMass / fragmentNucleons);
+
+    const light = { protons: lightProtons, neutrons: lightMass - lightProtons };
+    const heavy = {
+      protons: compound.protons - lightProtons,
+      neutrons: compound.neutrons - promptNeutrons - light.neutrons
+    };
+    const neutrons = Array.from({ length: promptNeutrons }, () => ({ ...NEUTRON }));
+    return this.reaction('fission', [target, NEUTRON], [light, heavy, ...neutrons]);
+  }
+
+  qValue(reactants: Nucleus[], products: Nucleus[]): number {
+    const binding = (nuclei: Nucleus[]) => nuclei.reduce((sum, n) => sum + this.decayEngine.bindingEnergy(n.protons, n.neutrons), 0);
+    return binding(products) - binding(reactants);
+  }
+
+  /**
+   * Mass in u turned into energy by the reaction
+   */
+  massDefect(reaction: NuclearReaction): number {
+    return reaction.qValue / MEV_PER_U;
+  }
+
+  label(nucleus: Nucleus): string {
+    if (nucleus.protons === 0 && nucleus.neutrons === 1) return 'n';
+    return `${this.elements.getSymbol(nucleus.protons)}-${this.massNumber(nucleus)}`;
+  }
+
+  formula(reaction: NuclearReaction): string {
+    const side = (nuclei: Nucleus[]) => nuclei.map(n => this.label(n)).join(' + ');
+    return `${side(reaction.reactants)} → ${side(reaction.products)}`;
+  }
+
+  /**
+   * Sheds neutrons and protons while the nucleus is past a drip line
+   */
+  private evaporate(compound: Nucleus): Nucleus[] {
+    const emitted: Nucleus[] = [];
+    const nucleus = { ...compound };
+    while (true) {
+      if (nucleus.neutrons > 0 && this.separationEnergy(nucleus, NEUTRON) < 0) {
+        nucleus.neutrons--;
+        emitted.push({ ...NEUTRON });
+      } else if (nucleus.protons > 1 && this.separationEnergy(nucleus, PROTON) < 0) {
+        nucleus.protons--;
+        emitted.push({ ...PROTON });
+      } else {
+        break;
+      }
+    }
+    return [nucleus, ...emitted];
+  }
+
+  /**
+   * Energy needed to pull one nucleon of the given kind out of the nucleus
+   */
+  private separationEnergy(nucleus: Nucleus, nucleon: Nucleus): number {
+    return this.decayEngine.bindingEnergy(nucleus.protons, nucleus.neutrons)
+      - this.decayEngine.bindingEnergy(nucleus.protons - nucleon.protons, nucleus.neutrons - nucleon.neutrons);
+  }
+
+  private reaction(type: NuclearReaction['type'], reactants: Nucleus[], products: Nucleus[]): NuclearReaction {
+    return { type, reactants, products, qValue: this.qValue(reactants, products) };
+  }
+
+  private massNumber(nucleus: Nucleus): number {
+    return nucleus.protons + nucleus.neutrons;
+  }
+}
@@ -0,0 +1,93 @@
+export type DecayMode = 'alpha' | 'beta-minus' | 'beta-plus' | 'electron-capture';
+
+export interface Nuclide {
+  atomicNumber: number;
+  massNumber: number;
+  halfLife: number; // Seconds
+  decays: { mode: DecayMode, branching: number }[]; // Branching ratios add up to 1
+  unbound?: boolean; // Falls apart as soon as it forms instead of decaying
+}
+
+// Measured binding energies in MeV of the lightest nuclei, where the semi-empirical
+// mass formula breaks down. Keyed by 'Z-A'.
+export const LIGHT_BINDING_ENERGIES: { [nuclide: string]: number } = {
+  '1-2': 2.224,
+  '1-3': 8.482,
+  '2-3': 7.718,
+  '2-4': 28.296,
+  '3-6': 31.994,
+  '3-7': 39.245,
+  '4-9': 58.165
+};
+
+const YEAR = 3.156e7;
+const DAY = 86400;
+
+// Radioactive nuclides the simulator knows by name. Natural isotopes not listed here
+// (see elements-data) are stable; every other nucleus is radioactive.
+export const NUCLIDES: Nuclide[] = [
+  // Free neutron
+  { atomicNumber: 0, massNumber: 1, halfLife: 611, decays: [{ mode: 'beta-minus', branching: 1 }] },
+
+  // Unbound light nuclei: nothing with five nucleons holds together, and Be-8 and B-9 fall
+  // apart into alpha particles. 'alpha' leaves the odd nucleon (or the last alpha) as daughter
+  { atomicNumber: 2, massNumber: 5, halfLife: 7.6e-22, decays: [{ mode: 'alpha', branching: 1 }], unbound: true },
+  { atomicNumber: 3, massNumber: 5, halfLife: 3.7e-22, decays: [{ mode: 'alpha', branching: 1 }], unbound: true },
+  { atomicNumber: 4, massNumber: 8, halfLife: 8.2e-17, decays: [{ mode: 'alpha', branching: 1 }], unbound: true },
+  { atomicNumber: 5, massNumber: 9, halfLife: 8.0e-19, decays: [{ mode: 'alpha', branching: 1 }], unbound: true },
+
+  // Light nuclei
+  { atomicNumber: 1, massNumber: 3, halfLife: 12.32 * YEAR, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 4, massNumber: 7, halfLife: 53.22 * DAY, decays: [{ mode: 'electron-capture', branching: 1 }] },
+  { atomicNumber: 4, massNumber: 10, halfLife: 1.39e6 * YEAR, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 6, massNumber: 11, halfLife: 1223, decays: [{ mode: 'beta-plus', branching: 1 }] },
+  { atomicNumber: 6, massNumber: 14, halfLife: 5730 * YEAR, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 7, massNumber: 13, halfLife: 598, decays: [{ mode: 'beta-plus', branching: 1 }] },
+  { atomicNumber: 7, massNumber: 16, halfLife: 7.13, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 8, massNumber: 15, halfLife: 122, decays: [{ mode: 'beta-plus', branching: 1 }] },
+  { atomicNumber: 9, massNumber: 18, halfLife: 6586, decays: [{ mode: 'beta-plus', branching: 0.97 }, { mode: 'electron-capture', branching: 0.03 }] },
+  { atomicNumber: 11, massNumber: 22, halfLife: 2.6 * YEAR, decays: [{ mode: 'beta-plus', branching: 0.9 }, { mode: 'electron-capture', branching: 0.1 }] },
+  { atomicNumber: 11, massNumber: 24, halfLife: 14.96 * 3600, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 13, massNumber: 26, halfLife: 7.17e5 * YEAR, decays: [{ mode: 'beta-plus', branching: 0.82 }, { mode: 'electron-capture', branching: 0.18 }] },
+  { atomicNumber: 15, massNumber: 32, halfLife: 14.27 * DAY, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 16, massNumber: 35, halfLife: 87.4 * DAY, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 17, massNumber: 36, halfLife: 3.01e5 * YEAR, decays: [{ mode: 'beta-minus', branching: 0.98 }, { mode: 'electron-capture', branching: 0.02 }] },
+  { atomicNumber: 19, massNumber: 40, halfLife: 1.248e9 * YEAR, decays: [{ mode: 'beta-minus', branching: 0.893 }, { mode: 'electron-capture', branching: 0.107 }] },
+  { atomicNumber: 20, massNumber: 41, halfLife: 9.94e4 * YEAR, decays: [{ mode: 'electron-capture', branching: 1 }] },
+
+  // Medical and fission products
+  { atomicNumber: 27, massNumber: 60, halfLife: 5.27 * YEAR, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 38, massNumber: 90, halfLife: 28.8 * YEAR, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 43, massNumber: 98, halfLife: 4.2e6 * YEAR, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 43, massNumber: 99, halfLife: 2.11e5 * YEAR, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 53, massNumber: 131, halfLife: 8.02 * DAY, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 55, massNumber: 137, halfLife: 30.17 * YEAR, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 61, massNumber: 145, halfLife: 17.7 * YEAR, decays: [{ mode: 'electron-capture', branching: 1 }] },
+  { atomicNumber: 61, massNumber: 147, halfLife: 2.62 * YEAR, decays: [{ mode: 'beta-minus', branching: 1 }] },
+
+  // Heavy nuclei, including the default isotope of every element up to lawrencium
+  { atomicNumber: 84, massNumber: 209, halfLife: 124 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 84, massNumber: 210, halfLife: 138.4 * DAY, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 85, massNumber: 210, halfLife: 8.1 * 3600, decays: [{ mode: 'electron-capture', branching: 0.998 }, { mode: 'alpha', branching: 0.002 }] },
+  { atomicNumber: 86, massNumber: 222, halfLife: 3.82 * DAY, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 87, massNumber: 223, halfLife: 22 * 60, decays: [{ mode: 'beta-minus', branching: 1 }] },
+  { atomicNumber: 88, massNumber: 226, halfLife: 1600 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 89, massNumber: 227, halfLife: 21.77 * YEAR, decays: [{ mode: 'beta-minus', branching: 0.986 }, { mode: 'alpha', branching: 0.014 }] },
+  { atomicNumber: 90, massNumber: 232, halfLife: 1.405e10 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 91, massNumber: 231, halfLife: 3.276e4 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 92, massNumber: 234, halfLife: 2.455e5 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 92, massNumber: 235, halfLife: 7.04e8 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 92, massNumber: 238, halfLife: 4.468e9 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 93, massNumber: 237, halfLife: 2.144e6 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 94, massNumber: 239, halfLife: 2.411e4 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 94, massNumber: 244, halfLife: 8.0e7 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 95, massNumber: 243, halfLife: 7370 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 96, massNumber: 247, halfLife: 1.56e7 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 97, massNumber: 247, halfLife: 1380 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 98, massNumber: 251, halfLife: 898 * YEAR, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 99, massNumber: 252, halfLife: 471.7 * DAY, decays: [{ mode: 'alpha', branching: 0.78 }, { mode: 'electron-capture', branching: 0.22 }] },
+  { atomicNumber: 100, massNumber: 257, halfLife: 100.5 * DAY, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 101, massNumber: 258, halfLife: 51.5 * DAY, decays: [{ mode: 'alpha', branching: 1 }] },
+  { atomicNumber: 102, massNumber: 259, halfLife: 58 * 60, decays: [{ mode: 'alpha', branching: 0.75 }, { mode: 'electron-capture', branching: 0.25 }] },
+  { atomicNumber: 103, massNumber: 266, halfLife: 11 * 3600, decays: [{ mode: 'alpha', branching: 1 }] }
+];
@@ -0,0 +1,42 @@
+import { electronConfiguration } from './electron-configuration';
+import { atomicOrbitals, radialWavefunction, sampleOrbital } from './orbital-cloud';
+
+describe('orbital clouds', () => {
+  it('should half-fill every p orbital before pairing (Hund)', () => {
+    const nitrogen = atomicOrbitals(7, electronConfiguration(7));
+    expect(nitrogen.map(o => o.label)).toEqual(['1s', '2s', '2px', '2py', '2pz']);
+    expect(nitrogen.filter(o => o.type === 'p').map(o => o.electrons)).toEqual([1, 1, 1]);
+
+    const oxygen = atomicOrbitals(8, electronConfiguration(8));
+    expect(oxygen.filter(o => o.type === 'p').map(o => o.electrons)).toEqual([2, 1, 1]);
+  });
+
+  it('should list the five d orbitals of iron', () => {
+    const iron = atomicOrbitals(26, electronConfiguration(26)).filter(o => o.type === 'd');
+    expect(iron.length).toBe(5);
+    expect(iron.reduce((sum, o) => sum + o.electrons, 0)).toBe(6);
+  });
+
+  it('should place the radial node of 2s at r = 2 Bohr radii for hydrogen', () => {
+    expect(radialWavefunction(2, 0, 1, 1.9)).toBeGreaterThan(0);
+    expect(radialWavefunction(2, 0, 1, 2.1)).toBeLessThan(0);
+  });
+
+  it('should sample 1s around its mean radius of 1.5 / Z', () => {
+    const [orbital] = atomicOrbitals(1, electronConfiguration(1));
+    const points = sampleOrbital(orbital, 2000);
+    const mean = points.reduce((sum, p) => sum + Math.hypot(p.x, p.y, p.z), 0) / points.length;
+    expect(mean).toBeCloseTo(1.5, 0);
+    expect(points.every(p => p.phase === 1)).toBeTrue();
+  });
+
+  it('should stretch pz along the z axis with opposite lobes', () => {
+    const pz = atomicOrbitals(8, electronConfiguration(8)).find(o => o.label === '2pz')!;
+    const points = sampleOrbital(pz, 1000);
+    const along = points.reduce((sum, p) => sum + p.z * p.z, 0);
+    const across = points.reduce((sum, p) => sum + p.x * p.x, 0);
+    expect(along).toBeGreaterThan(2 * across);
+    expect(points.filter(p => p.z > 0).every(p => p.phase === 1)).toBeTrue();
+    expect(points.filter(p => p.z < 0).every(p => p.phase === -1)).toBeTrue();
+  });
+});
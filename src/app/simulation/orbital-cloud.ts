@@ -0,0 +1,134 @@
+import { effectiveNuclearCharge, OrbitalType, Subshell, subshellLabel } from './electron-configuration';
+
+// One spatial orbital of a subshell: a real spherical harmonic times a hydrogen-like radial part
+export interface AtomicOrbital {
+  label: string; // '2px', '3dz²'
+  shell: number;
+  type: OrbitalType;
+  angular: string; // Key into ANGULAR_PARTS
+  electrons: number; // 0, 1 or 2
+  effectiveCharge: number;
+}
+
+export interface CloudPoint {
+  x: number;
+  y: number;
+  z: number;
+  // Sign of the wavefunction, which tells the lobes of p and d orbitals apart
+  phase: 1 | -1;
+}
+
+// Real angular parts, scaled so their largest magnitude is 1. Arguments are the unit vector.
+const ANGULAR_PARTS: { [key: string]: (x: number, y: number, z: number) => number } = {
+  's': () => 1,
+  'px': x => x,
+  'py': (_, y) => y,
+  'pz': (_, __, z) => z,
+  'dxy': (x, y) => 2 * x * y,
+  'dyz': (_, y, z) => 2 * y * z,
+  'dxz': (x, _, z) => 2 * x * z,
+  'dx²-y²': (x, y) => x * x - y * y,
+  'dz²': (_, __, z) => (3 * z * z - 1) / 2
+};
+
+const ORBITALS_BY_TYPE: { [type in OrbitalType]?: string[] } = {
+  s: ['s'],
+  p: ['px', 'py', 'pz'],
+  d: ['dxy', 'dyz', 'dxz', 'dx²-y²', 'dz²']
+};
+
+const RADIAL_STEPS = 400;
+
+/**
+ * The s, p and d orbitals of a configuration, with electrons spread by Hund's rule: every
+ * orbital of a subshell takes one electron before any takes a second. f orbitals are not drawn.
+ */
+export function atomicOrbitals(atomicNumber: number, config: Subshell[]): AtomicOrbital[] {
+  const orbitals: AtomicOrbital[] = [];
+  for (const subshell of config) {
+    const angulars = ORBITALS_BY_TYPE[subshell.type];
+    if (!angulars) continue;
+
+    const effectiveCharge = effectiveNuclearCharge(atomicNumber, config, subshell);
+    angulars.forEach((angular, i) => {
+      const electrons = subshell.electrons > angulars.length + i ? 2 : subshell.electrons > i ? 1 : 0;
+      if (electrons === 0) return;
+      orbitals.push({
+        label: `${subshellLabel(subshell)}${angular.slice(1)}`,
+        shell: subshell.shell,
+        type: subshell.type,
+        angular,
+        electrons,
+        effectiveCharge
+      });
+    });
+  }
+  return orbitals;
+}
+
+/**
+ * Draws `count` positions (in Bohr radii) distributed as |ψ|². The radius comes from the
+ * radial probability r²R² by inverse transform, the direction by rejection on the angular part.
+ */
+export function sampleOrbital(orbital: AtomicOrbital, count: number, random: () => number = Math.random): CloudPoint[] {
+  const l = ['s', 'p', 'd', 'f'].indexOf(orbital.type);
+  const n = orbital.shell;
+  const charge = Math.max(orbital.effectiveCharge, 0.5);
+  const meanRadius = (3 * n * n - l * (l + 1)) / (2 * charge);
+  const maxRadius = 3 * meanRadius;
+
+  const radii: number[] = [];
+  const cumulative: number[] = [];
+  let total = 0;
+  for (let i = 1; i <= RADIAL_STEPS; i++) {
+    const r = maxRadius * i / RADIAL_STEPS;
+    const radial = radialWavefunction(n, l, charge, r);
+    total += r * r * radial * radial;
+    radii.push(r);
+    cumulative.push(total);
+  }
+
+  const angularPart = ANGULAR_PARTS[orbital.angular];
+  const points: CloudPoint[] = [];
+  while (points.length < count) {
+    const target = random() * total;
+    const r = radii[cumulative.findIndex(c => c >= target)];
+
+    const cosTheta = 2 * random() - 1;
+    const sinTheta = Math.sqrt(1 - cosTheta * cosTheta);
+    const phi = 2 * Math.PI * random();
+    const x = sinTheta * Math.cos(phi);
+    const y = sinTheta * Math.sin(phi);
+    const z = cosTheta;
+
+    const angular = angularPart(x, y, z);
+    if (random() >= angular * angular) continue;
+
+    const sign = Math.sign(angular * radialWavefunction(n, l, charge, r));
+    points.push({ x: x * r, y: y * r, z: z * r, phase: sign < 0 ? -1 : 1 });
+  }
+  return points;
+}
+
+/**
+ * Unnormalised hydrogen-like radial function R_nl(r) for nuclear charge Z, r in Bohr radii
+ */
+export function radialWavefunction(n: number, l: number, charge: number, r: number): number {
+  const rho = 2 * charge * r / n;
+  return Math.pow(rho, l) * Math.exp(-rho / 2) * laguerre(n - l - 1, 2 * l + 1, rho);
+}
+
+/**
+ * Generalised Laguerre polynomial L_k^α(x) by its three-term recurrence
+ */
+function laguerre(k: number, alpha: number, x: number): number {
+  let previous = 1;
+  if (k === 0) return previous;
+  let current = 1 + alpha - x;
+  for (let i = 1; i < k; i++) {
+    const next = ((2 * i + 1 + alpha - x) * current - (i + alpha) * previous) / (i + 1);
+    previous = current;
+    current = next;
+  }
+  return current;
+}
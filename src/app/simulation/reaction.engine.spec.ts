@@ -0,0 +1,203 @@
+import { ReactionEngine, ReactionSpecies } from './reaction.engine';
+import { ElementRegistryService } from './element-registry.service';
+import { MOLECULAR_RECIPES } from './molecular-recipes.interface';
+
+describe('ReactionEngine', () => {
+  let engine: ReactionEngine;
+  let nextId: number;
+
+  const water = MOLECULAR_RECIPES.find(r => r.id === 'water')!;
+  const hot = { heatIntensity: 20, energyType: 'heat' as const, voltage: 0, wavelength: 0 };
+
+  const species = (protons: number[], x: number): ReactionSpecies => ({
+    id: `s${nextId}`,
+    atoms: protons.map(p => ({ id: nextId++, protons: p })),
+    position: { x, y: 0, z: 0 }
+  });
+
+  beforeEach(() => {
+    engine = new ReactionEngine(new ElementRegistryService());
+    nextId = 0;
+  });
+
+  it('should parse formulas with subscripts', () => {
+    expect(engine.parseFormula('H₂')).toEqual([1, 1]);
+    expect(engine.parseFormula('CO₂')).toEqual([6, 8, 8]);
+    expect(engine.parseFormula('NaCl')).toEqual([11, 17]);
+  });
+
+  it('should only contain balanced recipes with known products', () => {
+    MOLECULAR_RECIPES.forEach(recipe => {
+      expect(engine.isBalanced(recipe)).withContext(recipe.id).toBeTrue();
+    });
+  });
+
+  it('should check the recipe conditions', () => {
+    expect(engine.meetsConditions(water, hot)).toBeTrue();
+    expect(engine.meetsConditions(water, { ...hot, heatIntensity: 1 })).toBeFalse();
+    expect(engine.meetsConditions(water, { ...hot, energyType: 'electrolysis' })).toBeFalse();
+  });
+
+  it('should react more often at higher temperatures', () => {
+    const cold = engine.reactionProbability(water, 300, 1);
+    const warm = engine.reactionProbability(water, 600, 1);
+
+    expect(cold).toBeCloseTo(Math.exp(-12 / 5), 5);
+    expect(warm).toBeGreaterThan(cold);
+    expect(engine.reactionProbability(water, 600, 0.5)).toBeCloseTo(warm / 2, 5);
+    expect(engine.reactionProbability(water, 1e6, 10)).toBe(1);
+    expect(engine.reactionProbability(water, 0, 1)).toBe(0);
+  });
+
+  it('should run reversible recipes backwards over a barrier raised by their enthalpy', () => {
+    const reverse = engine.getReverseRecipe(water)!;
+
+    expect(reverse.formula).toBe('2H₂O → 2H₂ + O₂');
+    expect(reverse.reactants).toEqual([{ element: 'H₂O', count: 2, atomicNumber: 8 }]);
+    expect(engine.isBalanced(reverse)).toBeTrue();
+    expect(reverse.enthalpy).toBe(483.6);
+    expect(reverse.conditions.activationEnergy).toBeGreaterThan(water.conditions.activationEnergy);
+
+    const waters = [species([8, 1, 1], 0), species([8, 1, 1], 2)];
+    expect(engine.findReactions(waters, hot).map(m => m.recipe.id)).toEqual(['water_reverse']);
+  });
+
+  it('should shift exothermic equilibria towards reactants when hot', () => {
+    const ammonia = MOLECULAR_RECIPES.find(r => r.id === 'ammonia')!;
+    const ratio = (temperature: number) => {
+      const state = engine.describeEquilibrium(ammonia, [], temperature, 1)!;
+      return state.forwardProbability / state.reverseProbability;
+    };
+
+    expect(ratio(3000)).toBeLessThan(ratio(1000));
+  });
+
+  it('should split water at the electrodes above the decomposition voltage', () => {
+    const electrolysis = MOLECULAR_RECIPES.find(r => r.id === 'water_electrolysis')!;
+    const cell = { heatIntensity: 0, energyType: 'electrolysis' as const, voltage: 1, wavelength: 0 };
+
+    expect(engine.meetsConditions(electrolysis, cell)).toBeFalse();
+    expect(engine.meetsConditions(electrolysis, { ...cell, voltage: 3 })).toBeTrue();
+    expect(engine.reactionProbability(electrolysis, 300, 1, 6))
+      .toBeGreaterThan(engine.reactionProbability(electrolysis, 300, 1, 2));
+
+    const reactants = [species([8, 1, 1], 0), species([8, 1, 1], 2)];
+    const products = engine.planProducts({ recipe: electrolysis, reactants });
+    expect(products.map(p => `${p.structure.formula}@${p.electrode}`)).toEqual(['H₂@cathode', 'H₂@cathode', 'O₂@anode']);
+  });
+
+  it('should break bonds with photons that carry their dissociation energy', () => {
+    const chlorination = MOLECULAR_RECIPES.find(r => r.id === 'hydrogen_chloride')!;
+    const threshold = chlorination.conditions.wavelength!;
+    const lit = { heatIntensity: 0, energyType: 'light' as const, voltage: 0, wavelength: 400 };
+
+    expect(engine.photonEnergy(400)).toBeCloseTo(299, 0);
+    expect(engine.photodissociates(17, 17, 1, threshold)).toBeTrue();
+    expect(engine.photodissociates(17, 17, 1, threshold + 10)).toBeFalse();
+    // Visible light is not enough for H–H
+    expect(engine.photodissociates(1, 1, 1, 400)).toBeFalse();
+    expect(engine.photodissociates(17, 17, 1, 0)).toBeFalse();
+
+    expect(engine.meetsConditions(chlorination, lit)).toBeTrue();
+    expect(engine.meetsConditions(chlorination, { ...lit, wavelength: 600 })).toBeFalse();
+    expect(engine.meetsConditions(chlorination, { ...lit, wavelength: 0 })).toBeFalse();
+  });
+
+  it('should measure the impact along the line of centres', () => {
+    const still = { mass: 2, position: { x: 0, y: 0, z: 0 }, velocity: { x: 0, y: 0, z: 0 } };
+    const headOn = engine.measureImpact({ mass: 2, position: { x: -1, y: 0, z: 0 }, velocity: { x: 2, y: 0, z: 0 } }, still);
+    const glancing = engine.measureImpact({ mass: 2, position: { x: -1, y: 0, z: 0 }, velocity: { x: 1, y: Math.sqrt(3), z: 0 } }, still);
+    const receding = engine.measureImpact({ mass: 2, position: { x: -1, y: 0, z: 0 }, velocity: { x: -2, y: 0, z: 0 } }, still);
+
+    // Reduced mass 1, closing speed 2
+    expect(headOn.impactEnergy).toBeCloseTo(0.5 * 1 * 4 * 5, 5);
+    expect(headOn.alignment).toBeCloseTo(1, 5);
+    expect(glancing.alignment).toBeCloseTo(0.5, 5);
+    expect(glancing.impactEnergy).toBeLessThan(headOn.impactEnergy);
+    expect(receding.impactEnergy).toBe(0);
+  });
+
+  it('should only start collision recipes on hard enough impacts between the colliders', () => {
+    const fluoride = MOLECULAR_RECIPES.find(r => r.id === 'hydrogen_fluoride')!;
+    const h2 = species([1, 1], 0);
+    const f2 = species([9, 9], 1);
+    const otherH2 = species([1, 1], 0.5);
+
+    const matches = engine.findReactions([h2, otherH2, f2], hot, 1, [h2, f2]);
+    expect(matches.map(m => m.recipe.id)).toContain('hydrogen_fluoride');
+    expect(matches.find(m => m.recipe.id === 'hydrogen_fluoride')!.reactants).toEqual([h2, f2]);
+    expect(engine.findReactions([h2, otherH2, f2], hot, 1, [h2, otherH2])).toEqual([]);
+
+    const soft = { impactEnergy: fluoride.conditions.activationEnergy - 1, alignment: 1 };
+    const hard = { impactEnergy: fluoride.conditions.activationEnergy + 1, alignment: 1 };
+    expect(engine.collisionProbability(fluoride, soft, 300, 1)).toBe(0);
+    expect(engine.collisionProbability(fluoride, hard, 300, 1)).toBe(1);
+    expect(engine.collisionProbability(fluoride, { ...hard, alignment: 0.25 }, 300, 1)).toBe(0.25);
+  });
+
+  it('should lower the barrier only for the recipe\'s own catalysts', () => {
+    const ammonia = MOLECULAR_RECIPES.find(r => r.id === 'ammonia')!;
+    const iron = 26;
+    const platinum = 78;
+
+    expect(engine.getActivationEnergy(ammonia)).toBe(ammonia.conditions.activationEnergy);
+    expect(engine.getActivationEnergy(ammonia, [iron])).toBe(ammonia.catalysis!.activationEnergy);
+    expect(engine.getActivationEnergy(ammonia, [platinum])).toBe(ammonia.conditions.activationEnergy);
+    expect(engine.reactionProbability(ammonia, 600, 1, 0, [iron]))
+      .toBeGreaterThan(engine.reactionProbability(ammonia, 600, 1));
+
+    // Both directions speed up, so the equilibrium itself does not move
+    const reverse = engine.getReverseRecipe(ammonia)!;
+    expect(engine.getActivationEnergy(reverse) - engine.getActivationEnergy(reverse, [iron]))
+      .toBeCloseTo(engine.getActivationEnergy(ammonia) - engine.getActivationEnergy(ammonia, [iron]), 5);
+  });
+
+  it('should only catalyse direct bonds between elements its recipes bring together', () => {
+    const platinum = 78;
+    const iron = 26;
+
+    expect(engine.catalysesBond(1, 8, [platinum])).toBeTrue();
+    expect(engine.catalysesBond(7, 1, [iron])).toBeTrue();
+    expect(engine.catalysesBond(6, 8, [platinum])).toBeFalse();
+    expect(engine.catalysesBond(1, 8, [iron])).toBeFalse();
+    expect(engine.catalysesBond(1, 8, [])).toBeFalse();
+  });
+
+  it('should need every reactant within the recipe proximity', () => {
+    const h2a = species([1, 1], 0);
+    const h2b = species([1, 1], 2);
+    const o2 = species([8, 8], 4);
+
+    expect(engine.matchReactants(water, [h2a, o2], water.conditions.proximity)).toBeNull();
+    expect(engine.matchReactants(water, [h2a, h2b, o2], water.conditions.proximity)).toEqual([h2a, h2b, o2]);
+
+    const farO2 = species([8, 8], 50);
+    expect(engine.matchReactants(water, [h2a, h2b, farO2], water.conditions.proximity)).toBeNull();
+  });
+
+  it('should produce the listed products from the reactant atoms', () => {
+    const reactants = [species([1, 1], 0), species([1, 1], 1), species([8, 8], 2)];
+    const products = engine.planProducts({ recipe: water, reactants });
+
+    expect(products.length).toBe(2);
+    products.forEach(product => {
+      expect(product.structure.id).toBe('water');
+      expect(product.atoms.map(a => a.protons)).toEqual(product.structure.atoms);
+    });
+
+    const used = products.flatMap(p => p.atoms.map(a => a.id)).sort((a, b) => a - b);
+    expect(used).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('should estimate the reaction enthalpy from bond energies unless the recipe measures it', () => {
+    const estimate = engine.calculateEnthalpy({ ...water, enthalpy: undefined });
+    expect(estimate.bondsBroken).toBe(2 * 436 + 498);
+    expect(estimate.bondsFormed).toBe(4 * 463);
+    expect(estimate.deltaH).toBe(-482);
+    expect(estimate.fromRecipeData).toBeFalse();
+
+    const measured = engine.calculateEnthalpy(water);
+    expect(measured.deltaH).toBe(-483.6);
+    expect(measured.fromRecipeData).toBeTrue();
+  });
+});
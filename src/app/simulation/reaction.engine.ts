@@ -0,0 +1,498 @@
+import { BondOrder, ChemicalAtom, reactionProbability } from './autonomous-chemistry.engine';
+import { BOND_ENTHALPIES } from './bond-enthalpies';
+import { ElementRegistryService } from './element-registry.service';
+import { KnownStructure, KNOWN_STRUCTURES } from './known-structures';
+import { MolecularRecipe, MOLECULAR_RECIPES } from './molecular-recipes.interface';
+
+// A free atom or a whole molecule, as seen by the reaction engine
+export interface ReactionSpecies {
+  id: string;
+  atoms: ChemicalAtom[];
+  position: { x: number, y: number, z: number };
+}
+
+export interface ReactionConditions {
+  heatIntensity: number;
+  energyType: MolecularRecipe['conditions']['energyType'];
+  // Voltage across the electrodes, 0 when none are placed
+  voltage: number;
+  // Wavelength of the light source in nm, 0 when it is off
+  wavelength: number;
+}
+
+export interface ReactionMatch {
+  recipe: MolecularRecipe;
+  reactants: ReactionSpecies[];
+}
+
+export interface PlannedProduct {
+  structure: KnownStructure;
+  electrode?: 'cathode' | 'anode';
+  // atoms[i] fills slot i of the structure
+  atoms: ChemicalAtom[];
+}
+
+// A colliding body at the moment of first contact
+export interface ImpactBody {
+  mass: number;
+  position: { x: number, y: number, z: number };
+  velocity: { x: number, y: number, z: number };
+}
+
+export interface CollisionImpact {
+  // Kinetic energy of the approach along the line of centres, in simulation energy units
+  impactEnergy: number;
+  // 1 for a head-on hit, 0 for a grazing one
+  alignment: number;
+}
+
+// Both directions of a reversible recipe as they currently stand in the scene
+export interface EquilibriumState {
+  recipe: MolecularRecipe;
+  reactants: { formula: string, count: number }[];
+  products: { formula: string, count: number }[];
+  // Chance per encounter at the current temperature
+  forwardProbability: number;
+  reverseProbability: number;
+}
+
+// kJ/mol per simulation energy unit when bond and reaction enthalpies act as barriers:
+// O–H (463 kJ/mol) needs thousands of kelvin to break, recipe activation energies are a few units
+export const BARRIER_KJ_PER_ENERGY_UNIT = 5;
+
+// Planck constant × speed of light × Avogadro constant in kJ·nm/mol:
+// a mole of photons of wavelength λ nm carries PHOTON_ENERGY_KJ_NM / λ kJ
+export const PHOTON_ENERGY_KJ_NM = 119627;
+
+// Chance per encounter at one volt of overpotential, before the mode's reaction speed
+const ELECTROLYSIS_RATE = 0.2;
+
+// Same factor the simulation uses to turn kinetic energy into system energy
+const KINETIC_ENERGY_SCALE = 5;
+
+// Energy bookkeeping for one run of a recipe, all in kJ/mol of the equation as written
+export interface ReactionEnthalpy {
+  bondsBroken: number;
+  bondsFormed: number;
+  // Negative when the reaction releases heat
+  deltaH: number;
+  fromRecipeData: boolean;
+}
+
+/**
+ * Runs the reactions described in MOLECULAR_RECIPES. Species near each other are
+ * matched against each recipe's reactants by formula, the recipe's conditions are
+ * checked, and the reactant atoms are reassigned to the recipe's product structures.
+ * Whether a matched encounter actually reacts is decided by reactionProbability.
+ * Reversible recipes also run backwards, over a barrier raised by their ΔH.
+ */
+export class ReactionEngine {
+  private reverseRecipes: Map<string, MolecularRecipe>;
+
+  constructor(
+    private elements: ElementRegistryService,
+    private recipes: MolecularRecipe[] = MOLECULAR_RECIPES,
+    private structures: KnownStructure[] = KNOWN_STRUCTURES
+  ) {
+    this.reverseRecipes = new Map(
+      recipes
+        .filter(recipe => recipe.reversible)
+        .map(recipe => [recipe.id, this.buildReverseRecipe(recipe)] as [string, MolecularRecipe | null])
+        .filter((entry): entry is [string, MolecularRecipe] => entry[1] !== null)
+    );
+  }
+
+  /**
+   * First recipe whose conditions hold and whose full set of reactants lies within
+   * `proximity × reach` of one of them. `reach` > 1 finds reactions that are about to happen.
+   */
+  findReaction(species: ReactionSpecies[], conditions: ReactionConditions, reach: number = 1): ReactionMatch | null {
+    return this.findReactions(species, conditions, reach)[0] ?? null;
+  }
+
+  /**
+   * One match per recipe, forward recipes first and then the reverse of the reversible ones.
+   * With `colliders`, only matches that include every colliding species are returned.
+   */
+  findReactions(
+    species: ReactionSpecies[],
+    conditions: ReactionConditions,
+    reach: number = 1,
+    colliders: ReactionSpecies[] = []
+  ): ReactionMatch[] {
+    const matches: ReactionMatch[] = [];
+    for (const recipe of [...this.recipes, ...this.reverseRecipes.values()]) {
+      if (!this.meetsConditions(recipe, conditions)) continue;
+      if (!this.isBalanced(recipe)) continue;
+
+      const reactants = this.matchReactants(recipe, species, recipe.conditions.proximity * reach, colliders);
+      if (reactants) matches.push({ recipe, reactants });
+    }
+    return matches;
+  }
+
+  /**
+   * The recipe run backwards: products become reactants and the barrier grows by −ΔH,
+   * so exothermic reactions are harder to undo and shift back towards reactants when hot
+   */
+  getReverseRecipe(recipe: MolecularRecipe): MolecularRecipe | undefined {
+    return this.reverseRecipes.get(recipe.id);
+  }
+
+  /**
+   * Counts of each side of a reversible recipe among the species, with the chance per
+   * encounter of going each way at the given temperature
+   */
+  describeEquilibrium(recipe: MolecularRecipe, species: ReactionSpecies[], temperature: number, reactionSpeed: number): EquilibriumState | null {
+    const reverse = this.getReverseRecipe(recipe);
+    if (!reverse) return null;
+
+    const speciesKeys = species.map(s => this.compositionKey(s.atoms.map(a => a.protons)));
+    const countSide = (side: MolecularRecipe['reactants']) => side.map(reactant => {
+      const key = this.compositionKey(this.parseFormula(reactant.element));
+      return { formula: reactant.element, count: speciesKeys.filter(k => k === key).length };
+    });
+
+    return {
+      recipe,
+      reactants: countSide(recipe.reactants),
+      products: countSide(reverse.reactants),
+      forwardProbability: this.reactionProbability(recipe, temperature, reactionSpeed),
+      reverseProbability: this.reactionProbability(reverse, temperature, reactionSpeed)
+    };
+  }
+
+  meetsConditions(recipe: MolecularRecipe, conditions: ReactionConditions): boolean {
+    const required = recipe.conditions;
+    // Collision recipes need no energy source, only a hard enough impact
+    if (required.energyType === 'collision') return true;
+    if (required.energyType !== conditions.energyType) return false;
+    if (required.energyType === 'electrolysis') return conditions.voltage >= (required.voltage ?? 0);
+    if (required.energyType === 'light') {
+      return conditions.wavelength > 0 && conditions.wavelength <= (required.wavelength ?? Infinity);
+    }
+    return required.energyType !== 'heat' || conditions.heatIntensity >= required.heatIntensity;
+  }
+
+  /**
+   * Chance that an encounter of the reactants reacts: Arrhenius at the given temperature,
+   * or for electrolysis growing with the voltage above the recipe's minimum.
+   * `catalysts` are the atomic numbers of the catalysts close to the encounter.
+   */
+  reactionProbability(
+    recipe: MolecularRecipe,
+    temperature: number,
+    reactionSpeed: number,
+    voltage: number = 0,
+    catalysts: number[] = []
+  ): number {
+    if (recipe.conditions.energyType === 'electrolysis') {
+      const overpotential = voltage - (recipe.conditions.voltage ?? 0);
+      if (overpotential <= 0) return 0;
+      return Math.min(1, reactionSpeed * ELECTROLYSIS_RATE * (1 - Math.exp(-overpotential)));
+    }
+    return reactionProbability(this.getActivationEnergy(recipe, catalysts), temperature, reactionSpeed);
+  }
+
+  /**
+   * The recipe's barrier, lowered when one of its catalysts is among `catalysts`.
+   * Catalysts only take part in the encounter; they are never reactants or products.
+   */
+  getActivationEnergy(recipe: MolecularRecipe, catalysts: number[] = []): number {
+    return this.isCatalysedBy(recipe, catalysts)
+      ? recipe.catalysis!.activationEnergy
+      : recipe.conditions.activationEnergy;
+  }
+
+  isCatalysedBy(recipe: MolecularRecipe, catalysts: number[]): boolean {
+    return !!recipe.catalysis && catalysts.some(c => recipe.catalysis!.catalysts.includes(c));
+  }
+
+  /**
+   * A catalyst speeds up a direct bond between two atoms only when it catalyses a recipe
+   * that brings both elements together (platinum for H–O, iron for N–H)
+   */
+  catalysesBond(protonsA: number, protonsB: number, catalysts: number[]): boolean {
+    return this.recipes.some(recipe => {
+      if (!this.isCatalysedBy(recipe, catalysts)) return false;
+      const elements = recipe.reactants.flatMap(r => this.parseFormula(r.element));
+      return elements.includes(protonsA) && elements.includes(protonsB);
+    });
+  }
+
+  /**
+   * Energy and orientation of a first contact between two bodies
+   */
+  measureImpact(a: ImpactBody, b: ImpactBody): CollisionImpact {
+    const relative = { x: a.velocity.x - b.velocity.x, y: a.velocity.y - b.velocity.y, z: a.velocity.z - b.velocity.z };
+    const separation = this.distance(a.position, b.position);
+    const relativeSpeed = Math.hypot(relative.x, relative.y, relative.z);
+    if (separation === 0 || relativeSpeed === 0) return { impactEnergy: 0, alignment: 0 };
+
+    // Closing speed along the line from a to b
+    const closingSpeed = (
+      relative.x * (b.position.x - a.position.x) +
+      relative.y * (b.position.y - a.position.y) +
+      relative.z * (b.position.z - a.position.z)
+    ) / separation;
+    if (closingSpeed <= 0) return { impactEnergy: 0, alignment: 0 };
+
+    const reducedMass = (a.mass * b.mass) / (a.mass + b.mass);
+    return {
+      impactEnergy: 0.5 * reducedMass * closingSpeed * closingSpeed * KINETIC_ENERGY_SCALE,
+      alignment: closingSpeed / relativeSpeed
+    };
+  }
+
+  /**
+   * Chance that a collision starts the recipe. Collision recipes react when the impact
+   * carries the activation energy; the others follow reactionProbability. Either way
+   * glancing hits are less likely to react than head-on ones.
+   */
+  collisionProbability(
+    recipe: MolecularRecipe,
+    impact: CollisionImpact,
+    temperature: number,
+    reactionSpeed: number,
+    catalysts: number[] = []
+  ): number {
+    if (recipe.conditions.energyType === 'collision') {
+      if (impact.impactEnergy < this.getActivationEnergy(recipe, catalysts)) return 0;
+      return Math.min(1, reactionSpeed * impact.alignment);
+    }
+    return this.reactionProbability(recipe, temperature, reactionSpeed, 0, catalysts) * impact.alignment;
+  }
+
+  /**
+   * Picks, around each candidate species, the nearest species of every reactant formula.
+   * Species and reactants are compared by composition, so 'NaCl' matches however it is written.
+   * Returns null unless every reactant is available in the listed count and every `required`
+   * species takes part.
+   */
+  matchReactants(
+    recipe: MolecularRecipe,
+    species: ReactionSpecies[],
+    radius: number,
+    required: ReactionSpecies[] = []
+  ): ReactionSpecies[] | null {
+    const reactantKeys = recipe.reactants.map(r => this.compositionKey(this.parseFormula(r.element)));
+    const speciesKeys = new Map(species.map(s => [s, this.compositionKey(s.atoms.map(a => a.protons))]));
+    const candidates = species.filter(s => reactantKeys.includes(speciesKeys.get(s)!));
+    if (!required.every(r => candidates.includes(r))) return null;
+
+    const anchors = required.length > 0 ? required.slice(0, 1) : candidates;
+    for (const anchor of anchors) {
+      // Required species are picked before any other of the same formula
+      const nearby = candidates
+        .filter(s => this.distance(anchor.position, s.position) <= radius)
+        .sort((a, b) =>
+          Number(required.includes(b)) - Number(required.includes(a)) ||
+          this.distance(anchor.position, a.position) - this.distance(anchor.position, b.position)
+        );
+
+      const chosen: ReactionSpecies[] = [];
+      const complete = recipe.reactants.every((reactant, i) => {
+        const matches = nearby
+          .filter(s => !chosen.includes(s) && speciesKeys.get(s) === reactantKeys[i])
+          .slice(0, reactant.count);
+        chosen.push(...matches);
+        return matches.length === reactant.count;
+      });
+
+      if (complete && chosen.includes(anchor) && required.every(r => chosen.includes(r))) return chosen;
+    }
+    return null;
+  }
+
+  /**
+   * Distributes the reactant atoms over the product structures, slot by slot and element by element
+   */
+  planProducts(match: ReactionMatch): PlannedProduct[] {
+    const pool = new Map<number, ChemicalAtom[]>();
+    match.reactants.flatMap(s => s.atoms).forEach(atom => {
+      if (!pool.has(atom.protons)) pool.set(atom.protons, []);
+      pool.get(atom.protons)!.push(atom);
+    });
+
+    const products: PlannedProduct[] = [];
+    for (const product of match.recipe.products) {
+      const structure = this.getStructure(product.moleculeName)!;
+      for (let i = 0; i < product.count; i++) {
+        products.push({
+          structure,
+          atoms: structure.atoms.map(protons => pool.get(protons)!.shift()!),
+          electrode: product.electrode
+        });
+      }
+    }
+    return products;
+  }
+
+  /**
+   * Atomic numbers of the atoms in a formula such as 'H₂', 'CO₂' or 'NaCl'
+   */
+  parseFormula(formula: string): number[] {
+    const protons: number[] = [];
+    const pattern = /([A-Z][a-z]?)([₀-₉0-9]*)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(formula)) !== null) {
+      const element = this.elements.getBySymbol(match[1]);
+      if (!element) continue;
+
+      const digits = match[2].replace(/[₀-₉]/g, d => String(d.charCodeAt(0) - 0x2080));
+      const count = digits ? parseInt(digits, 10) : 1;
+      for (let i = 0; i < count; i++) protons.push(element.atomicNumber);
+    }
+    return protons;
+  }
+
+  /**
+   * Known structure for a reactant formula, so reactants can be spawned already bonded
+   */
+  getStructureByFormula(formula: string): KnownStructure | undefined {
+    const key = this.compositionKey(this.parseFormula(formula));
+    return this.structures.find(s => this.compositionKey(s.atoms) === key);
+  }
+
+  getStructure(name: string): KnownStructure | undefined {
+    return this.structures.find(s => s.name === name);
+  }
+
+  /**
+   * A recipe can only run if every product is a known structure and atoms are conserved
+   */
+  isBalanced(recipe: MolecularRecipe): boolean {
+    const reactantAtoms = recipe.reactants.flatMap(r =>
+      Array.from({ length: r.count }, () => this.parseFormula(r.element)).flat()
+    );
+
+    const productAtoms: number[] = [];
+    for (const product of recipe.products) {
+      const structure = this.getStructure(product.moleculeName);
+      if (!structure) return false;
+      for (let i = 0; i < product.count; i++) productAtoms.push(...structure.atoms);
+    }
+
+    return this.compositionKey(reactantAtoms) === this.compositionKey(productAtoms);
+  }
+
+  /**
+   * ΔH = Σ bonds broken − Σ bonds formed, unless the recipe gives a measured value
+   */
+  calculateEnthalpy(recipe: MolecularRecipe): ReactionEnthalpy {
+    const bondsBroken = recipe.reactants.reduce((sum, reactant) => {
+      const structure = this.parseFormula(reactant.element).length > 1
+        ? this.getStructureByFormula(reactant.element)
+        : undefined;
+      return sum + (structure ? this.getStructureEnthalpy(structure) * reactant.count : 0);
+    }, 0);
+
+    const bondsFormed = recipe.products.reduce((sum, product) => {
+      const structure = this.getStructure(product.moleculeName);
+      return sum + (structure ? this.getStructureEnthalpy(structure) * product.count : 0);
+    }, 0);
+
+    const fromRecipeData = recipe.enthalpy !== undefined;
+    const deltaH = fromRecipeData ? recipe.enthalpy! : bondsBroken - bondsFormed;
+    return { bondsBroken, bondsFormed, deltaH, fromRecipeData };
+  }
+
+  /**
+   * Energy needed to break every bond of a structure
+   */
+  getStructureEnthalpy(structure: KnownStructure): number {
+    return structure.bonds.reduce(
+      (sum, [a, b, order]) => sum + this.getBondEnthalpy(structure.atoms[a], structure.atoms[b], order),
+      0
+    );
+  }
+
+  /**
+   * Chance per check that a bond breaks on its own at the given local temperature
+   */
+  dissociationProbability(protonsA: number, protonsB: number, order: BondOrder, temperature: number, reactionSpeed: number): number {
+    const barrier = this.getBondEnthalpy(protonsA, protonsB, order) / BARRIER_KJ_PER_ENERGY_UNIT;
+    return reactionProbability(barrier, temperature, reactionSpeed);
+  }
+
+  photonEnergy(wavelength: number): number {
+    return PHOTON_ENERGY_KJ_NM / wavelength;
+  }
+
+  /**
+   * Whether one absorbed photon carries the bond's dissociation energy
+   */
+  photodissociates(protonsA: number, protonsB: number, order: BondOrder, wavelength: number): boolean {
+    return wavelength > 0 && this.photonEnergy(wavelength) >= this.getBondEnthalpy(protonsA, protonsB, order);
+  }
+
+  /**
+   * Tabulated bond enthalpy, or Pauling's estimate from the two homonuclear bonds
+   * and the electronegativity difference when the pair isn't tabulated
+   */
+  getBondEnthalpy(protonsA: number, protonsB: number, order: BondOrder): number {
+    const symbolA = this.elements.getSymbol(protonsA);
+    const symbolB = this.elements.getSymbol(protonsB);
+    const tabulated = BOND_ENTHALPIES[this.bondKey(symbolA, symbolB, order)];
+    if (tabulated !== undefined) return tabulated;
+
+    const orderFactor = [1, 1.75, 2.5][order - 1];
+    const homonuclearA = BOND_ENTHALPIES[this.bondKey(symbolA, symbolA, 1)];
+    const homonuclearB = BOND_ENTHALPIES[this.bondKey(symbolB, symbolB, 1)];
+    if (homonuclearA === undefined || homonuclearB === undefined) return 300 * orderFactor;
+
+    const electronegativityDiff = this.elements.getElectronegativity(protonsA) - this.elements.getElectronegativity(protonsB);
+    const single = Math.sqrt(homonuclearA * homonuclearB) + 96.5 * electronegativityDiff * electronegativityDiff;
+    return single * orderFactor;
+  }
+
+  private buildReverseRecipe(recipe: MolecularRecipe): MolecularRecipe | null {
+    const products = recipe.reactants.map(reactant => ({
+      moleculeName: this.getStructureByFormula(reactant.element)?.name,
+      count: reactant.count
+    }));
+    if (products.some(p => !p.moleculeName)) return null;
+
+    const reactants = recipe.products.map(product => {
+      const structure = this.getStructure(product.moleculeName);
+      return structure && { element: structure.formula, count: product.count, atomicNumber: structure.atoms[0] };
+    });
+    if (reactants.some(r => !r)) return null;
+
+    const deltaH = this.calculateEnthalpy(recipe).deltaH;
+    return {
+      ...recipe,
+      id: `${recipe.id}_reverse`,
+      name: `${recipe.name} (reverse)`,
+      formula: recipe.formula.split(' → ').reverse().join(' → '),
+      reactants: reactants as MolecularRecipe['reactants'],
+      products: products as MolecularRecipe['products'],
+      conditions: {
+        ...recipe.conditions,
+        activationEnergy: Math.max(0, recipe.conditions.activationEnergy - deltaH / BARRIER_KJ_PER_ENERGY_UNIT)
+      },
+      // A catalyst lowers the barrier both ways
+      catalysis: recipe.catalysis && {
+        ...recipe.catalysis,
+        activationEnergy: Math.max(0, recipe.catalysis.activationEnergy - deltaH / BARRIER_KJ_PER_ENERGY_UNIT)
+      },
+      naturalFormation: false,
+      enthalpy: -deltaH,
+      reversible: false
+    };
+  }
+
+  private bondKey(symbolA: string, symbolB: string, order: BondOrder): string {
+    const [first, second] = [symbolA, symbolB].sort();
+    return `${first}${['-', '=', '#'][order - 1]}${second}`;
+  }
+
+  private compositionKey(protons: number[]): string {
+    return [...protons].sort((a, b) => a - b).join(',');
+  }
+
+  private distance(a: { x: number, y: number, z: number }, b: { x: number, y: number, z: number }): number {
+    return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+  }
+}
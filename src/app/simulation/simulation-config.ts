@@ -28,6 +28,7 @@ export interface ReactionsConfig {
   reactionSpeed: number;
   energyDecayRate: number;
   showEnergyRequirements: boolean;
+  nuclearReactions: boolean; // Nuclei fuse, split and capture neutrons instead of reacting chemically
 }
 
 export const SIMULATION_MODES: { [key: string]: SimulationMode } = {
@@ -52,7 +53,8 @@ export const SIMULATION_MODES: { [key: string]: SimulationMode } = {
       autoReactions: false,
       reactionSpeed: 1,
       energyDecayRate: 0.99,
-      showEnergyRequirements: true
+      showEnergyRequirements: true,
+      nuclearReactions: false
     }
   },
   educational: {
@@ -76,7 +78,8 @@ export const SIMULATION_MODES: { [key: string]: SimulationMode } = {
       autoReactions: true,  // Permitir reacciones automáticas con energía
       reactionSpeed: 0.5,
       energyDecayRate: 0.998,  // Energía decae más lento
-      showEnergyRequirements: true
+      showEnergyRequirements: true,
+      nuclearReactions: false
     }
   },
   realistic: {
@@ -100,11 +103,44 @@ export const SIMULATION_MODES: { [key: string]: SimulationMode } = {
       autoReactions: true,
       reactionSpeed: 1,
       energyDecayRate: 0.96,
-      showEnergyRequirements: true
+      showEnergyRequirements: true,
+      nuclearReactions: false
+    }
+  },
+  nuclear: {
+    name: 'Nuclear',
+    description: 'Núcleos a muy alta energía: fusión, fisión y neutrones libres',
+    physics: {
+      linearDamping: 0.05,
+      angularDamping: 0.05,
+      maxVelocity: 40,
+      timeScale: 1,
+      gravityEnabled: false
+    },
+    controls: {
+      showAdvancedControls: true,
+      allowManualBonding: false,
+      allowAtomDragging: true,
+      snapToGrid: false,
+      gridSize: 1
+    },
+    reactions: {
+      autoReactions: false,
+      reactionSpeed: 1,
+      energyDecayRate: 0.99,
+      showEnergyRequirements: true,
+      nuclearReactions: true
     }
   }
 };
 
+// Slabs that can be placed as catalytic surfaces
+export const CATALYST_SURFACES = [
+  { element: 26, label: 'Hierro', color: 0x8d6e63 },
+  { element: 44, label: 'Rutenio', color: 0x90a4ae },
+  { element: 78, label: 'Platino', color: 0xcfd8dc }
+];
+
 export const EXPERIMENT_PRESETS = [
   {
     id: 'water',
@@ -184,6 +220,110 @@ export const EXPERIMENT_PRESETS = [
       'Es un enlace covalente simple'
     ],
     energyRequired: 3
+  },
+  {
+    id: 'electrolysis',
+    name: 'Electrólisis del Agua',
+    description: 'Descompone H₂O en H₂ y O₂ con corriente eléctrica',
+    atoms: [],
+    molecules: [
+      { formula: 'H₂O', count: 4, label: 'Agua' }
+    ],
+    tool: 'electrolysis' as const,
+    targetMolecule: 'Hydrogen Gas (H₂)',
+    hints: [
+      'El agua solo se descompone por encima de 1.23 V',
+      'El hidrógeno se libera en el cátodo (−) y el oxígeno en el ánodo (+)',
+      'Se recoge el doble de volumen de H₂ que de O₂'
+    ],
+    energyRequired: 0
+  },
+  {
+    id: 'photochlorination',
+    name: 'Fotoquímica del Cloro',
+    description: 'La luz rompe el Cl₂ y desencadena la formación de HCl',
+    atoms: [],
+    molecules: [
+      { formula: 'Cl₂', count: 3, label: 'Cloro' },
+      { formula: 'H₂', count: 3, label: 'Hidrógeno' }
+    ],
+    tool: 'light' as const,
+    targetMolecule: 'Hydrogen Chloride (HCl)',
+    hints: [
+      'Un fotón rompe un enlace si su energía supera la del enlace',
+      'El Cl–Cl (242 kJ/mol) se rompe con luz azul o ultravioleta',
+      'Con luz roja los fotones solo excitan electrones'
+    ],
+    energyRequired: 0
+  },
+  {
+    id: 'dipole-alignment',
+    name: 'Dipolos en un Campo Eléctrico',
+    description: 'Compara cómo se orientan el H₂O y el CO₂ en un campo eléctrico',
+    atoms: [],
+    molecules: [
+      { formula: 'H₂O', count: 4, label: 'Agua' },
+      { formula: 'CO₂', count: 3, label: 'Dióxido de carbono' }
+    ],
+    tool: 'electric-field' as const,
+    targetMolecule: 'Water (H₂O)',
+    hints: [
+      'El agua es polar: el campo la gira hasta alinear su dipolo',
+      'Los dipolos de enlace del CO₂ se cancelan, así que el campo no lo orienta',
+      'Activa el calor y observa cómo la agitación térmica desordena la alineación'
+    ],
+    energyRequired: 0
+  },
+  {
+    id: 'haber',
+    name: 'Proceso Haber',
+    description: 'Sintetiza NH₃ a partir de N₂ y H₂ sobre un catalizador de hierro',
+    atoms: [],
+    molecules: [
+      { formula: 'N₂', count: 2, label: 'Nitrógeno' },
+      { formula: 'H₂', count: 6, label: 'Hidrógeno' }
+    ],
+    catalyst: 26,
+    targetMolecule: 'Ammonia (NH₃)',
+    hints: [
+      'Sin catalizador el N≡N es demasiado estable para reaccionar',
+      'La superficie de hierro atrae a los reactivos y reduce la energía de activación',
+      'El hierro no se consume: sigue ahí después de cada reacción'
+    ],
+    energyRequired: 20
+  },
+  {
+    id: 'fusion',
+    name: 'Fusión Deuterio-Tritio',
+    description: 'Choca núcleos de hidrógeno pesado para formar helio',
+    atoms: [
+      { element: 1, count: 3, neutrons: 1, label: 'Deuterio (H-2)' },
+      { element: 1, count: 3, neutrons: 2, label: 'Tritio (H-3)' }
+    ],
+    mode: 'nuclear',
+    targetMolecule: 'Helium-4',
+    hints: [
+      'Los núcleos se repelen: necesitan chocar muy rápido para fusionarse',
+      'D + T → He-4 + n libera 17.6 MeV',
+      'La energía viene del defecto de masa: el helio pesa menos que sus piezas'
+    ],
+    energyRequired: 60
+  },
+  {
+    id: 'fission',
+    name: 'Fisión del Uranio',
+    description: 'Dispara neutrones contra U-235 y observa la reacción en cadena',
+    atoms: [
+      { element: 92, count: 3, neutrons: 143, label: 'Uranio-235' }
+    ],
+    mode: 'nuclear',
+    targetMolecule: 'Fission fragments',
+    hints: [
+      'Usa "Disparar neutrón" en el Laboratorio',
+      'El U-235 se parte en dos fragmentos y suelta 2-3 neutrones nuevos',
+      'El U-238 solo captura el neutrón: no es fisible'
+    ],
+    energyRequired: 0
   }
 ];
 
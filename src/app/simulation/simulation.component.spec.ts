@@ -1,6 +1,9 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
 
 import { SimulationComponent } from './simulation.component';
+import { BOND_ENTHALPIES } from './bond-enthalpies';
+import { PHOTON_ENERGY_KJ_NM } from './reaction.engine';
 
 describe('SimulationComponent', () => {
   let component: SimulationComponent;
@@ -20,4 +23,35 @@ describe('SimulationComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  describe('photodissociation', () => {
+    // Longest wavelength whose photons still carry the Cl–Cl bond enthalpy
+    const threshold = Math.floor(PHOTON_ENERGY_KJ_NM / BOND_ENTHALPIES['Cl-Cl']);
+
+    const shineOnChlorine = (wavelength: number) => {
+      const simulation = component as any;
+      component.clearAllAtoms();
+      simulation.spawnSpecies('Cl₂', new THREE.Vector3());
+      simulation.identifyMolecules();
+      component.transientHeatEnergy = 0;
+      component.lightWavelength = wavelength;
+
+      const chlorine = component.molecules[0];
+      simulation.absorbPhoton({ id: chlorine.id, atoms: chlorine.atoms, position: chlorine.physicalBody.position });
+    };
+
+    it('should split Cl₂ with light at or below the threshold wavelength, even in a cold system', () => {
+      shineOnChlorine(threshold);
+
+      expect(component.molecules.length).toBe(0);
+      expect(component.atoms.filter(a => !a.isMoleculeMember).length).toBe(2);
+      expect(component.transientHeatEnergy).toBe(0);
+    });
+
+    it('should only excite Cl₂ with light beyond the threshold wavelength', () => {
+      shineOnChlorine(threshold + 1);
+
+      expect(component.molecules.length).toBe(1);
+    });
+  });
 });
@@ -8,11 +8,20 @@ import { FontLoader, Font } from 'three/examples/jsm/loaders/FontLoader.js';
 import { PeriodicTableComponent, PeriodicElement } from '../periodic-table/periodic-table.component';
 import { MolecularCatalogComponent } from './molecular-catalog.component';
 import { MolecularRecipe, MOLECULAR_RECIPES } from './molecular-recipes.interface';
-import { AutonomousChemistryEngine, BondingPair, MolecularStructure } from './autonomous-chemistry.engine';
+import { AutonomousChemistryEngine, BondingPair, MolecularStructure, BondOrder, BOND_ORDER_LENGTH_FACTOR } from './autonomous-chemistry.engine';
 import { TutorialPanelComponent, ExperimentPreset } from './tutorial-panel.component';
-import { EnergyDisplayComponent } from './energy-display.component';
+import { EnergyDisplayComponent, NuclearEnergyReport, ReactionEnergyReport } from './energy-display.component';
 import { ControlPanelComponent } from './control-panel.component';
-import { SIMULATION_MODES, SimulationMode, EXPERIMENT_PRESETS } from './simulation-config';
+import { CollectedGas, LabToolsComponent, wavelengthToColor } from './lab-tools.component';
+import { SIMULATION_MODES, SimulationMode, EXPERIMENT_PRESETS, CATALYST_SURFACES } from './simulation-config';
+import { ElementRegistryService } from './element-registry.service';
+import { formatConfiguration, shellOccupancy } from './electron-configuration';
+import { AtomicOrbital, atomicOrbitals, sampleOrbital } from './orbital-cloud';
+import { IntermolecularForce, IntermolecularForceEngine, MolecularPolarity, MoleculeMember, Phase, PhaseTransitions } from './intermolecular-forces.engine';
+import { DecayResult, NuclearDecayEngine } from './nuclear-decay.engine';
+import { DECAY_MODE_LABELS, NuclearInfoComponent } from './nuclear-info.component';
+import { IMPACT_UNITS_PER_MEV, NuclearReaction, NuclearReactionEngine } from './nuclear-reaction.engine';
+import { CollisionImpact, EquilibriumState, ReactionConditions, ReactionEngine, ReactionMatch, ReactionSpecies } from './reaction.engine';
 
 // --- Interfaces ---
 interface Atom {
@@ -28,14 +37,22 @@ interface Atom {
   };
   physicalBody: CANNON.Body;
   isMoleculeMember?: boolean;
+  // Catalysts lower the barrier of reactions around them and never react themselves
+  isCatalyst?: boolean;
+  // Time (ms) until which an absorbed photon keeps the outermost electron in a higher shell
+  excitedUntil?: number;
+  // Orbitals switched off in the orbital view, by label ('2px')
+  hiddenOrbitals?: string[];
 }
 
 interface Bond {
   id: string;
   atomA: Atom;
   atomB: Atom;
-  constraint: CANNON.Constraint;
-  visual: THREE.Mesh;
+  order: BondOrder;
+  type: 'covalent' | 'ionic';
+  constraint: CANNON.DistanceConstraint;
+  visual: THREE.Group;
 }
 
 interface Molecule {
@@ -44,7 +61,36 @@ interface Molecule {
   atoms: Atom[];
   visual: THREE.Group;
   physicalBody: CANNON.Body;
-  bondsVisuals: THREE.Mesh[];
+  bondsVisuals: THREE.Group[];
+  polarity: MolecularPolarity;
+  transitions: PhaseTransitions;
+}
+
+interface Electrode {
+  role: 'cathode' | 'anode';
+  position: THREE.Vector3;
+  visual: THREE.Mesh;
+}
+
+// Box in which a uniform field pushes ions and turns polar molecules
+interface ElectricFieldRegion {
+  centre: THREE.Vector3;
+  visual: THREE.Group;
+  // Arrows showing the field, each centred on a point of the region's back face
+  arrows: { arrow: THREE.ArrowHelper, anchor: THREE.Vector3 }[];
+}
+
+interface CatalystSurface {
+  element: number;
+  body: CANNON.Body;
+  visual: THREE.Mesh;
+}
+
+// A photon or a particle emitted by a decaying nucleus, flying in a straight line
+interface Particle {
+  visual: THREE.Mesh;
+  velocity: THREE.Vector3;
+  age: number;
 }
 
 interface Notification {
@@ -52,6 +98,18 @@ interface Notification {
   type: 'success' | 'error' | 'info' | 'warning';
 }
 
+const INTERMOLECULAR_FORCE_LABELS: { [force in IntermolecularForce]: string } = {
+  'hydrogen-bond': 'Puentes de H',
+  'dipole-dipole': 'Dipolo-dipolo',
+  'dispersion': 'London'
+};
+
+const PHASE_LABELS: { [phase in Phase]: string } = {
+  'solid': '🧊 Sólido',
+  'liquid': '💧 Líquido',
+  'gas': '💨 Gas'
+};
+
 @Component({
   selector: 'app-simulation',
   standalone: true,
@@ -61,7 +119,9 @@ interface Notification {
     MolecularCatalogComponent,
     TutorialPanelComponent,
     EnergyDisplayComponent,
-    ControlPanelComponent
+    NuclearInfoComponent,
+    ControlPanelComponent,
+    LabToolsComponent
   ],
   templateUrl: './simulation.component.html',
   styleUrl: './simulation.component.scss'
@@ -95,6 +155,7 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
   private handleMouseDown = this.onMouseDown.bind(this);
   private handleMouseMove = this.onMouseMove.bind(this);
   private handleMouseUp = this.onMouseUp.bind(this);
+  private handleCollision = this.onBodyCollide.bind(this);
 
   // Simulation state
   public atoms: Atom[] = [];
@@ -111,17 +172,33 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
   public showTutorial = false;
   public showExperiments = false;
   public showHints = false;
+  public showLabTools = false;
   public activeExperiment: ExperimentPreset | null = null;
   public notification: Notification | null = null;
   
   // Simulation Mode
   public currentSimulationMode = 'educational';
+  // Mode in use before a preset switched to its own, restored by presets that have none
+  private modeBeforePreset: string | null = null;
   public isPaused = false;
   public simulationSpeed = 1;
   
   // Visual Options
   public showLabels = true;
   public showElectrons = true;
+  // Draw electrons as orbital probability clouds instead of Bohr rings
+  public orbitalView = false;
+  private readonly cloudPointsPerElectron = 150;
+  // Every orbital cloud shares one material; the colours are per point
+  private readonly orbitalCloudMaterial = new THREE.PointsMaterial({
+    size: 0.12,
+    vertexColors: true,
+    transparent: true,
+    opacity: 0.7,
+    depthWrite: false
+  });
+  // Clouds start at the nucleus surface and spread at the Bohr rings' 2 units per shell
+  private readonly sceneUnitsPerBohr = 2;
   public showBondsVisual = true;
   public showGrid = false;
   
@@ -141,19 +218,102 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
 
   // Energy System
   public transientHeatEnergy = 0;
+  // Temperature of the surroundings in K, which the system heat adds to
+  public ambientTemperature = 300;
   public heatIntensity = 5;
-  public activationEnergyWater = 12;
-  public stoichiometryStrict = true;
+  // Strict: only complete, balanced reactant sets react. Lenient: atoms also bond pairwise on contact
+  public stoichiometryStrict = false;
   public globalHeatEnabled = false;
-  public currentEnergyType: 'electrolysis' | 'heat' | 'collision' = 'heat';
+  public currentEnergyType: MolecularRecipe['conditions']['energyType'] = 'heat';
   public currentRecipe: MolecularRecipe | null = null;
+  public lastReactionEnergy: ReactionEnergyReport | null = null;
+  public equilibria: EquilibriumState[] = [];
+
+  // Electrolysis
+  public electrolysisActive = false;
+  public electrolysisVoltage = 3;
+  public collectedGas: CollectedGas = { cathode: {}, anode: {} };
+  private electrodes: Electrode[] = [];
+  private readonly electrodeReach = 6;
+
+  // Light source
+  public lightActive = false;
+  public lightWavelength = 400;
+  public lightIntensity = 5;
+  private photons: Particle[] = [];
+  private photonBacklog = 0;
+  private lightSource: THREE.Mesh | null = null;
+  private readonly photonSpeed = 30;
+  private readonly photonLifetime = 3;
+  // Photons share one geometry, and one material per colour
+  private readonly photonGeometry = new THREE.SphereGeometry(0.25, 8, 8);
+  private photonMaterials = new Map<number, THREE.MeshBasicMaterial>();
+
+  // Radioactivity and nuclear reactions
+  public showNuclearInfo = false;
+  public lastNuclearReaction: NuclearEnergyReport | null = null;
+  // Energy display units per MeV released: one fission (~200 MeV) fills it
+  private readonly energyPerMeV = 0.5;
+  private readonly neutronSpeed = 25;
+  private decayParticles: Particle[] = [];
+  private readonly decayParticleSpeed = 20;
+  private readonly decayParticleLifetime = 1.5;
+  // Shared sphere per particle size; each particle fades its own material
+  private decayParticleGeometries = new Map<number, THREE.SphereGeometry>();
+
+  // Electric field
+  public electricField: ElectricFieldRegion | null = null;
+  public fieldStrength = 4;
+  // Direction in the screen plane, in degrees anticlockwise from pointing right
+  public fieldAngle = 0;
+  // Mean cos θ between the polar molecules' dipoles and the field: 0 random, 1 lined up
+  public fieldAlignment: number | null = null;
+  private readonly fieldHalfSize = 10;
+  private readonly fieldArrowLength = 4;
+  // Force on an ion per unit charge and per unit field strength
+  private readonly fieldChargeForce = 0.5;
+  // Torque on a molecule per Debye and per unit field strength
+  private readonly fieldTorqueScale = 2;
+
+  // Catalysis
+  public catalystSurface: CatalystSurface | null = null;
+  private readonly catalystReach = 6;
 
   // Physics timing
   private lastUpdateTime = 0;
+  // Longest frame the clock advances by, so a hidden tab doesn't resume with one huge step
+  private readonly maxFrameTime = 0.1;
   private bondingCooldowns = new Map<string, number>();
   private lastBondCheck = 0;
   private bondCheckInterval = 100;
+  private readonly coulombConstant = 40;
+  private readonly coulombCutoff = 30;
+  // Simulation force per kJ/mol·unit of intermolecular attraction
+  private readonly intermolecularForceScale = 0.1;
+  // Molecules further apart than this many contact distances don't attract
+  private readonly intermolecularRange = 3;
+  // H···acceptor distance at which a hydrogen bond is strongest, in scene units
+  private readonly hydrogenBondLength = 2.8;
+  private hydrogenBondLines = new THREE.Group();
+  private readonly hydrogenBondMaterial = new THREE.LineDashedMaterial({ color: 0x80deea, dashSize: 0.3, gapSize: 0.2 });
+  // Dipole arrow length in scene units per Debye
+  private readonly dipoleArrowScale = 1.5;
+  private readonly dipoleArrowColor = 0xff4081;
+  // Spring pulling a solid molecule back to its lattice site, as acceleration per unit displacement
+  private readonly latticeStiffness = 2;
+  // Fraction of its velocity a solid or liquid molecule keeps each step
+  private readonly solidDamping = 0.9;
+  private readonly liquidDamping = 0.98;
+  // Random thermal kick given to gas molecules each step, scaled by √(T/m)
+  private readonly gasAgitation = 0.02;
+  // kJ/mol of reaction enthalpy per unit of system energy
+  private readonly enthalpyPerEnergyUnit = 50;
+  private readonly kJPerMolPerEV = 96.485;
+  private readonly reactionHeatRadius = 12;
+  private readonly kelvinPerEnergyUnit = 5;
   private reactionInProgress = false;
+  // First contacts recorded during the last physics step, judged once the step is done
+  private pendingCollisions: { bodyA: CANNON.Body, bodyB: CANNON.Body, impact: CollisionImpact }[] = [];
   private bondingTransitions = new Map<string, any>();
 
   // Discovered molecules
@@ -164,39 +324,18 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
   public neutrons = 0;
   public electronsCount = 0;
 
-  // Chemistry data
-  private elementNames: { [key: number]: string } = {
-    1: 'Hydrogen', 2: 'Helium', 3: 'Lithium', 4: 'Beryllium', 5: 'Boron',
-    6: 'Carbon', 7: 'Nitrogen', 8: 'Oxygen', 9: 'Fluorine', 10: 'Neon',
-    11: 'Sodium', 12: 'Magnesium', 13: 'Aluminum', 14: 'Silicon', 15: 'Phosphorus',
-    16: 'Sulfur', 17: 'Chlorine', 18: 'Argon'
-  };
-
-  private elementSymbols: { [key: number]: string } = {
-    1: 'H', 2: 'He', 3: 'Li', 4: 'Be', 5: 'B', 6: 'C', 7: 'N', 8: 'O', 9: 'F', 10: 'Ne',
-    11: 'Na', 12: 'Mg', 13: 'Al', 14: 'Si', 15: 'P', 16: 'S', 17: 'Cl', 18: 'Ar'
-  };
-
-  private valenceElectrons: { [key: number]: number } = {
-    1: 1, 6: 4, 7: 5, 8: 6, 9: 7
-  };
-
-  private maxBonds: { [key: number]: number } = {
-    1: 1, 6: 4, 7: 3, 8: 2, 9: 1
-  };
-
-  private electronegativity: { [key: number]: number } = {
-    1: 2.20, 6: 2.55, 7: 3.04, 8: 3.44, 9: 3.98
-  };
-
-  private atomicRadii: { [key: number]: number } = {
-    1: 0.37, 6: 0.77, 7: 0.75, 8: 0.73, 9: 0.71
-  };
-
   private chemistryEngine: AutonomousChemistryEngine;
+  private reactionEngine: ReactionEngine;
+  private decayEngine: NuclearDecayEngine;
+  private nuclearEngine: NuclearReactionEngine;
+  private intermolecularEngine: IntermolecularForceEngine;
 
-  constructor() {
-    this.chemistryEngine = new AutonomousChemistryEngine();
+  constructor(private elementRegistry: ElementRegistryService) {
+    this.chemistryEngine = new AutonomousChemistryEngine(elementRegistry);
+    this.reactionEngine = new ReactionEngine(elementRegistry);
+    this.decayEngine = new NuclearDecayEngine(elementRegistry);
+    this.nuclearEngine = new NuclearReactionEngine(elementRegistry);
+    this.intermolecularEngine = new IntermolecularForceEngine(elementRegistry);
   }
 
   // Getters
@@ -261,7 +400,7 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     pointLight.position.set(15, 15, 15);
     const pointLight2 = new THREE.PointLight(0x4fc3f7, 0.5);
     pointLight2.position.set(-15, -15, 15);
-    this.scene.add(ambientLight, pointLight, pointLight2);
+    this.scene.add(ambientLight, pointLight, pointLight2, this.hydrogenBondLines);
     
     // Event listeners
     window.addEventListener('resize', this.handleResize);
@@ -309,6 +448,7 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
       this.createAtom({protons: 1, neutrons: 0, electrons: 1, position: new THREE.Vector3(3, 0, 0)});
       this.createAtom({protons: 1, neutrons: 0, electrons: 1, position: new THREE.Vector3(-3, 0, 0)});
       this.selectAtom(this.atoms[0]);
+      this.lastUpdateTime = Date.now();
       this.animate();
     });
   }
@@ -358,6 +498,7 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
       this.world.removeBody(mol.physicalBody);
     });
     this.molecules = [];
+    this.hydrogenBondLines.clear();
     
     // Remove all bonds
     this.bonds.forEach(bond => {
@@ -365,6 +506,7 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
       this.scene.remove(bond.visual);
     });
     this.bonds = [];
+    this.chemistryEngine.clearBonds();
     
     // Remove all atoms
     this.atoms.forEach(atom => {
@@ -397,6 +539,23 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     });
   }
 
+  toggleOrbitalView(): void {
+    this.orbitalView = !this.orbitalView;
+    this.atoms.forEach(atom => this.updateElectronsVisuals(atom));
+  }
+
+  toggleOrbital(label: string): void {
+    const atom = this.selectedAtom;
+    if (!atom) return;
+    const hidden = atom.hiddenOrbitals ?? [];
+    atom.hiddenOrbitals = hidden.includes(label) ? hidden.filter(l => l !== label) : [...hidden, label];
+    this.updateElectronsVisuals(atom);
+  }
+
+  getOrbitals(atom: Atom): AtomicOrbital[] {
+    return atomicOrbitals(atom.protons, this.elementRegistry.getElectronConfiguration(atom.protons, atom.electronsCount));
+  }
+
   toggleBondsVisual(): void {
     this.showBondsVisual = !this.showBondsVisual;
     this.bonds.forEach(bond => {
@@ -404,6 +563,14 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     });
   }
 
+  toggleStoichiometry(): void {
+    this.stoichiometryStrict = !this.stoichiometryStrict;
+    this.showNotification(
+      this.stoichiometryStrict ? 'Estequiometría estricta activada' : 'Estequiometría libre activada',
+      'info'
+    );
+  }
+
   toggleGrid(): void {
     this.showGrid = !this.showGrid;
     if (this.showGrid && !this.gridHelper) {
@@ -460,6 +627,17 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     
     // Create atoms for the experiment
     let xOffset = -10;
+    if (experiment.mode) {
+      if (experiment.mode !== this.currentSimulationMode) {
+        this.modeBeforePreset = this.currentSimulationMode;
+        this.onModeChanged(experiment.mode);
+      }
+    } else if (this.currentModeConfig.reactions.nuclearReactions) {
+      // Chemistry presets cannot react in nuclear mode: return to the mode a nuclear preset replaced
+      const previous = this.modeBeforePreset;
+      this.onModeChanged(previous && !SIMULATION_MODES[previous].reactions.nuclearReactions ? previous : 'educational');
+    }
+
     experiment.atoms.forEach(atomConfig => {
       for (let i = 0; i < atomConfig.count; i++) {
         const position = new THREE.Vector3(
@@ -469,13 +647,42 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
         );
         this.createAtom({
           protons: atomConfig.element,
-          neutrons: atomConfig.element,
+          neutrons: atomConfig.neutrons ?? this.elementRegistry.getDefaultNeutrons(atomConfig.element),
           electrons: atomConfig.element,
           position
         });
         xOffset += 4;
       }
     });
+
+    experiment.molecules?.forEach(moleculeConfig => {
+      for (let i = 0; i < moleculeConfig.count; i++) {
+        const position = new THREE.Vector3(xOffset, (Math.random() - 0.5) * 6, 0);
+        this.spawnSpecies(moleculeConfig.formula, position);
+        xOffset += 4;
+      }
+    });
+    this.identifyMolecules();
+
+    if (experiment.tool === 'electrolysis') {
+      this.showLabTools = true;
+      if (!this.electrolysisActive) this.toggleElectrolysis();
+    }
+    if (experiment.tool === 'light') {
+      this.showLabTools = true;
+      if (!this.lightActive) this.toggleLightSource();
+    }
+    if (experiment.tool === 'electric-field') {
+      this.showLabTools = true;
+      if (!this.electricField) this.toggleElectricField();
+    }
+
+    if (experiment.catalyst !== undefined) {
+      this.showLabTools = true;
+      if (this.catalystSurface?.element !== experiment.catalyst) this.toggleCatalystSurface(experiment.catalyst);
+      const recipe = MOLECULAR_RECIPES.find(r => r.products.some(p => p.moleculeName === experiment.targetMolecule));
+      if (recipe) this.onRecipeSelected(recipe);
+    }
     
     this.showNotification(`Átomos cargados para: ${experiment.name}`, 'success');
   }
@@ -502,11 +709,6 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
   }
 
   private handleManualBondSelection(atom: Atom): void {
-    if (atom.isMoleculeMember) {
-      this.showNotification('Este átomo ya es parte de una molécula', 'warning');
-      return;
-    }
-
     const index = this.selectedAtomsForBonding.findIndex(a => a.id === atom.id);
     if (index >= 0) {
       this.selectedAtomsForBonding.splice(index, 1);
@@ -522,39 +724,57 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
   private createManualBond(): void {
     const [atomA, atomB] = this.selectedAtomsForBonding;
     
-    // Check if bond already exists
-    const bondExists = this.bonds.some(b => 
-      (b.atomA.id === atomA.id && b.atomB.id === atomB.id) ||
-      (b.atomA.id === atomB.id && b.atomB.id === atomA.id)
-    );
-
-    if (bondExists) {
-      this.showNotification('Estos átomos ya están enlazados', 'warning');
+    // Selecting an already bonded pair upgrades single → double → triple
+    if (this.chemistryEngine.hasBond(atomA, atomB)) {
+      this.raiseBondOrder(atomA, atomB);
       this.selectedAtomsForBonding = [];
       return;
     }
 
-    // Check valence rules
-    const bondsA = this.countAtomBonds(atomA);
-    const bondsB = this.countAtomBonds(atomB);
-    const maxA = this.maxBonds[atomA.protons] || 4;
-    const maxB = this.maxBonds[atomB.protons] || 4;
+    if (atomA.isMoleculeMember || atomB.isMoleculeMember) {
+      this.showNotification('Este átomo ya es parte de una molécula', 'warning');
+      this.selectedAtomsForBonding = [];
+      return;
+    }
 
-    if (bondsA >= maxA || bondsB >= maxB) {
+    // The engine refuses bonds that break valence rules
+    if (!this.createBond(atomA, atomB, false)) {
       this.showNotification('Uno de los átomos ya tiene el máximo de enlaces', 'warning');
       this.selectedAtomsForBonding = [];
       return;
     }
 
-    this.createBond(atomA, atomB, false);
     this.selectedAtomsForBonding = [];
-    this.showNotification(`Enlace creado: ${atomA.elementName} - ${atomB.elementName}`, 'success');
+    const bondLabel = this.chemistryEngine.isIonicPair(atomA, atomB) ? 'Enlace iónico' : 'Enlace creado';
+    this.showNotification(`${bondLabel}: ${this.getAtomSymbol(atomA)} - ${this.getAtomSymbol(atomB)}`, 'success');
     
     setTimeout(() => this.identifyMolecules(), 100);
   }
 
-  private countAtomBonds(atom: Atom): number {
-    return this.bonds.filter(b => b.atomA.id === atom.id || b.atomB.id === atom.id).length;
+  private raiseBondOrder(atomA: Atom, atomB: Atom): void {
+    if (this.chemistryEngine.getBondOrder(atomA, atomB) >= 3) {
+      this.showNotification('El enlace ya es triple', 'warning');
+      return;
+    }
+    if (!this.chemistryEngine.raiseBondOrder(atomA, atomB)) {
+      this.showNotification('Uno de los átomos ya tiene el máximo de enlaces', 'warning');
+      return;
+    }
+
+    const order = this.chemistryEngine.getBondOrder(atomA, atomB) as BondOrder;
+    const freeBond = this.bonds.find(b =>
+      (b.atomA.id === atomA.id && b.atomB.id === atomB.id) ||
+      (b.atomA.id === atomB.id && b.atomB.id === atomA.id)
+    );
+    if (freeBond) {
+      this.setBondOrder(freeBond, order);
+    } else {
+      const molecule = this.molecules.find(m => m.atoms.includes(atomA) && m.atoms.includes(atomB));
+      if (molecule) this.refreshMoleculeBonds(molecule);
+    }
+
+    const orderName = order === 2 ? 'doble' : 'triple';
+    this.showNotification(`Enlace ${orderName}: ${atomA.elementName} - ${atomB.elementName}`, 'success');
   }
 
   // ==================== ENERGY SYSTEM ====================
@@ -584,12 +804,28 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     if (this.activeExperiment) {
       return this.activeExperiment.energyRequired;
     }
+    if (this.currentRecipe) {
+      return this.currentRecipe.conditions.activationEnergy;
+    }
     return 0;
   }
 
   calculateTemperature(): number {
-    // Base temperature + energy contribution
-    return 300 + this.transientHeatEnergy * 5;
+    // Ambient temperature + energy contribution
+    return this.ambientTemperature + this.transientHeatEnergy * this.kelvinPerEnergyUnit;
+  }
+
+  /**
+   * Temperature felt by an encounter: the system temperature plus the mean kinetic
+   * energy the colliding bodies bring, on the same scale as calculateSystemEnergy
+   */
+  private calculateLocalTemperature(bodies: CANNON.Body[]): number {
+    if (bodies.length === 0) return this.calculateTemperature();
+    const kineticEnergy = bodies.reduce((sum, body) => {
+      const v = body.velocity;
+      return sum + 0.5 * body.mass * (v.x * v.x + v.y * v.y + v.z * v.z) * 5;
+    }, 0) / bodies.length;
+    return this.calculateTemperature() + kineticEnergy * this.kelvinPerEnergyUnit;
   }
 
   calculateSystemEnergy(): number {
@@ -606,177 +842,810 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     return totalEnergy;
   }
 
-  // ==================== NOTIFICATIONS ====================
+  // ==================== ELECTROLYSIS ====================
 
-  showNotification(message: string, type: 'success' | 'error' | 'info' | 'warning'): void {
-    this.notification = { message, type };
-    setTimeout(() => {
-      this.notification = null;
-    }, 3000);
+  toggleLabTools(): void {
+    this.showLabTools = !this.showLabTools;
   }
 
-  getNotificationIcon(): string {
-    if (!this.notification) return '';
-    switch (this.notification.type) {
-      case 'success': return '✓';
-      case 'error': return '✗';
-      case 'warning': return '⚠';
-      case 'info': return 'ℹ';
-      default: return '';
+  toggleElectrolysis(): void {
+    if (this.lightActive && !this.electrolysisActive) this.toggleLightSource();
+    if (this.electrolysisActive) {
+      this.electrodes.forEach(e => {
+        this.scene.remove(e.visual);
+        e.visual.geometry.dispose();
+        (e.visual.material as THREE.Material).dispose();
+      });
+      this.electrodes = [];
+      this.electrolysisActive = false;
+      this.currentEnergyType = 'heat';
+      this.showNotification('Electrodos retirados', 'info');
+      return;
     }
-  }
 
-  // ==================== HELPER METHODS ====================
+    const placements: [Electrode['role'], number, number][] = [['cathode', -15, 0x42a5f5], ['anode', 15, 0xef5350]];
+    this.electrodes = placements.map(([role, x, color]) => {
+      const visual = new THREE.Mesh(
+        new THREE.CylinderGeometry(0.6, 0.6, 16, 16),
+        new THREE.MeshStandardMaterial({ color, metalness: 0.6, roughness: 0.3 })
+      );
+      visual.position.set(x, 0, 0);
+      this.scene.add(visual);
+      return { role, position: visual.position.clone(), visual };
+    });
 
-  getAtomSymbol(atom: Atom): string {
-    return this.elementSymbols[atom.protons] || '?';
+    this.electrolysisActive = true;
+    this.currentEnergyType = 'electrolysis';
+    this.collectedGas = { cathode: {}, anode: {} };
+    this.showNotification('Electrodos colocados: cátodo (−) azul, ánodo (+) rojo', 'info');
   }
 
-  selectMoleculeById(id: string): void {
-    const molecule = this.molecules.find(m => m.id === id);
-    if (molecule) {
-      this.selectMolecule(molecule);
-    }
+  onVoltageChanged(voltage: number): void {
+    this.electrolysisVoltage = voltage;
   }
 
-  // ==================== PANEL DRAGGING ====================
-
-  startDragPanel(event: MouseEvent, panelName: string): void {
-    // Only start drag from the drag handle
-    const target = event.target as HTMLElement;
-    if (!target.classList.contains('drag-handle')) return;
-    
-    event.preventDefault();
-    event.stopPropagation();
-    
-    this.draggingPanel = panelName;
-    this.panelDragStart = { x: event.clientX, y: event.clientY };
-    this.panelStartPos = { ...this.panelPositions[panelName as keyof typeof this.panelPositions] };
-    
-    const onMouseMove = (e: MouseEvent) => {
-      if (!this.draggingPanel) return;
-      
-      const deltaX = this.panelDragStart.x - e.clientX;
-      const deltaY = e.clientY - this.panelDragStart.y;
-      
-      const panel = this.panelPositions[this.draggingPanel as keyof typeof this.panelPositions];
-      panel.x = Math.max(0, this.panelStartPos.x + deltaX);
-      panel.y = Math.max(0, this.panelStartPos.y + deltaY);
-    };
-    
-    const onMouseUp = () => {
-      this.draggingPanel = null;
-      document.removeEventListener('mousemove', onMouseMove);
-      document.removeEventListener('mouseup', onMouseUp);
-    };
-    
-    document.addEventListener('mousemove', onMouseMove);
-    document.addEventListener('mouseup', onMouseUp);
+  private isAtElectrode(position: { x: number, y: number, z: number }): boolean {
+    return this.electrodes.some(e => Math.hypot(position.x - e.position.x, position.z - e.position.z) < this.electrodeReach);
   }
 
+  /**
+   * The field between the electrodes drives cations to the cathode and anions to the anode.
+   * Molecules the electrodes can split drift towards the nearest one.
+   */
+  private applyElectrodeForces(): void {
+    const cathode = this.electrodes.find(e => e.role === 'cathode');
+    const anode = this.electrodes.find(e => e.role === 'anode');
+    if (!cathode || !anode) return;
+
+    const splittable = new Set(
+      MOLECULAR_RECIPES
+        .filter(r => r.conditions.energyType === 'electrolysis')
+        .flatMap(r => r.reactants.map(reactant => reactant.element))
+    );
+    const pull = (body: CANNON.Body, target: THREE.Vector3, strength: number) => {
+      const force = new CANNON.Vec3(target.x - body.position.x, 0, target.z - body.position.z);
+      if (force.length() < 1) return;
+      force.normalize();
+      body.applyForce(force.scale(strength * this.electrolysisVoltage));
+    };
 
-  // ==================== ATOM MANAGEMENT ====================
+    this.atoms.forEach(atom => {
+      const charge = this.chemistryEngine.getCharge(atom);
+      if (atom.isMoleculeMember || charge === 0) return;
+      pull(atom.physicalBody, charge > 0 ? cathode.position : anode.position, 0.5 * Math.abs(charge));
+    });
 
-  private createAtom(config: {protons: number, neutrons: number, electrons: number, position?: THREE.Vector3}): void {
-    const atom = this.buildAtom(config.protons, config.neutrons, config.electrons, config.position);
-    this.atoms.push(atom);
-    this.scene.add(atom.visuals.nucleus, atom.visuals.electrons, atom.visuals.elementName);
-    this.world.addBody(atom.physicalBody);
-    
-    // Apply current visual settings
-    atom.visuals.elementName.visible = this.showLabels;
-    atom.visuals.electrons.visible = this.showElectrons;
+    this.molecules.forEach(mol => {
+      if (!splittable.has(this.generateMolecularFormula(mol.atoms))) return;
+      const position = new THREE.Vector3().copy(mol.physicalBody.position as any);
+      const nearest = cathode.position.distanceTo(position) < anode.position.distanceTo(position) ? cathode : anode;
+      pull(mol.physicalBody, nearest.position, 0.1);
+    });
   }
 
-  private buildAtom(protons: number, neutrons: number, electronsCount: number, position = new THREE.Vector3()): Atom {
-    const massNumber = protons + neutrons;
-    const nucleusRadius = Math.cbrt(massNumber) * 0.7;
-    const config = this.currentModeConfig.physics;
-    
-    const physicalBody = new CANNON.Body({ 
-      mass: massNumber > 0 ? massNumber : 1, 
-      shape: new CANNON.Sphere(nucleusRadius || 0.5), 
-      position: new CANNON.Vec3(position.x, position.y, position.z),
-      linearDamping: config.linearDamping,
-      angularDamping: config.angularDamping
-    });
-    
-    // Start with zero velocity for controlled behavior
-    physicalBody.velocity.set(0, 0, 0);
-    
-    const newAtom: Atom = {
-      id: this.nextId++, 
-      protons, 
-      neutrons, 
-      electronsCount, 
-      elementName: '',
-      visuals: { 
-        nucleus: new THREE.Group(), 
-        electrons: new THREE.Group(), 
-        elementName: new THREE.Mesh() 
-      },
-      physicalBody
-    };
-    
-    this.updateNucleusVisuals(newAtom);
-    this.updateElectronsVisuals(newAtom);
-    this.updateElementNameVisuals(newAtom);
-    return newAtom;
+  // ==================== LIGHT SOURCE ====================
+
+  get photonEnergy(): number {
+    return this.reactionEngine.photonEnergy(this.lightWavelength);
   }
 
-  private deleteAtom(atomToDelete: Atom): void {
-    // If atom is part of a molecule, break the molecule first
-    const moleculeContainingAtom = this.molecules.find(m => m.atoms.some(a => a.id === atomToDelete.id));
-    if (moleculeContainingAtom) {
-      this.breakMolecule(moleculeContainingAtom, true);
+  toggleLightSource(): void {
+    if (this.lightActive) {
+      this.photons.forEach(p => this.scene.remove(p.visual));
+      this.photons = [];
+      if (this.lightSource) {
+        this.scene.remove(this.lightSource);
+        this.lightSource.geometry.dispose();
+        (this.lightSource.material as THREE.Material).dispose();
+      }
+      this.lightSource = null;
+      this.lightActive = false;
+      this.currentEnergyType = 'heat';
+      this.showNotification('Luz apagada', 'info');
+      return;
     }
 
-    // Remove atom
-    this.atoms = this.atoms.filter(a => a.id !== atomToDelete.id);
-    this.world.removeBody(atomToDelete.physicalBody);
-    this.scene.remove(atomToDelete.visuals.nucleus, atomToDelete.visuals.electrons, atomToDelete.visuals.elementName);
+    if (this.electrolysisActive) this.toggleElectrolysis();
+    this.lightSource = new THREE.Mesh(
+      new THREE.ConeGeometry(1.5, 3, 16),
+      new THREE.MeshStandardMaterial({ color: 0xfff59d, emissive: 0xfff59d, emissiveIntensity: 0.6 })
+    );
+    this.lightSource.position.set(-22, 14, 0);
+    // Point the cone's tip at the centre of the scene
+    this.lightSource.quaternion.setFromUnitVectors(
+      new THREE.Vector3(0, 1, 0),
+      this.lightSource.position.clone().negate().normalize()
+    );
+    this.scene.add(this.lightSource);
 
-    // Remove bonds connected to this atom
-    const bondsToRemove = this.bonds.filter(b => b.atomA.id === atomToDelete.id || b.atomB.id === atomToDelete.id);
-    bondsToRemove.forEach(b => this.deleteBond(b, true));
+    this.lightActive = true;
+    this.currentEnergyType = 'light';
+    this.showNotification('Luz encendida: los fotones energéticos rompen enlaces', 'info');
+  }
 
-    // Update selection
-    if (this.selectedAtom?.id === atomToDelete.id) {
-      this.selectedAtom = this.atoms.length > 0 ? this.atoms[0] : null;
-      if (this.selectedAtom) this.selectAtom(this.selectedAtom);
-      else this.updateUIBindings();
+  /**
+   * Emits photons at the configured intensity, moves them and lets the first species each
+   * one reaches absorb it
+   */
+  private updatePhotons(deltaTime: number): void {
+    if (!this.lightSource) return;
+
+    this.photonBacklog += this.lightIntensity * deltaTime * this.simulationSpeed;
+    while (this.photonBacklog >= 1) {
+      this.photonBacklog--;
+      this.emitPhoton(this.lightSource.position);
+    }
+
+    const species = this.collectSpecies();
+    for (const photon of [...this.photons]) {
+      photon.age += deltaTime;
+      photon.visual.position.addScaledVector(photon.velocity, deltaTime * this.simulationSpeed);
+
+      const target = species.find(s => {
+        const body = this.getSpeciesBody(s);
+        return photon.visual.position.distanceTo(body.position as any) < body.boundingRadius + 0.5;
+      });
+      if (target || photon.age > this.photonLifetime) {
+        this.scene.remove(photon.visual);
+        this.photons.splice(this.photons.indexOf(photon), 1);
+      }
+      if (target) this.absorbPhoton(target);
     }
-    
-    // Remove from bonding selection
-    this.selectedAtomsForBonding = this.selectedAtomsForBonding.filter(a => a.id !== atomToDelete.id);
-    
-    this.identifyMolecules();
   }
 
-  deleteAtomClicked(event: MouseEvent, atom: Atom): void {
-    event.stopPropagation();
-    this.deleteAtom(atom);
+  private emitPhoton(origin: THREE.Vector3): void {
+    const aim = new THREE.Vector3((Math.random() - 0.5) * 20, (Math.random() - 0.5) * 12, (Math.random() - 0.5) * 8);
+    const color = wavelengthToColor(this.lightWavelength);
+    if (!this.photonMaterials.has(color)) this.photonMaterials.set(color, new THREE.MeshBasicMaterial({ color }));
+    const visual = new THREE.Mesh(this.photonGeometry, this.photonMaterials.get(color));
+    visual.position.copy(origin);
+    this.scene.add(visual);
+    this.photons.push({
+      visual,
+      velocity: aim.sub(origin).normalize().multiplyScalar(this.photonSpeed),
+      age: 0
+    });
   }
 
-  selectAtom(atom: Atom): void {
-    // Clear molecule selection
-    if (this.selectedMolecule) {
-      this.selectedMolecule = null;
+  /**
+   * A photon absorbed by a reactant starts its light recipe when the partners are close.
+   * Otherwise it breaks the weakest bond it has the energy for, or excites an electron.
+   */
+  private absorbPhoton(target: ReactionSpecies): void {
+    const reactionSpeed = this.currentModeConfig.reactions.reactionSpeed;
+    const match = this.reactionEngine.findReactions(this.collectSpecies(), this.getReactionConditions(), 1, [target])
+      .find(m => m.recipe.conditions.energyType === 'light');
+    if (match && !this.reactionInProgress && Math.random() < this.reactionEngine.reactionProbability(match.recipe, this.calculateTemperature(), reactionSpeed)
+      && this.runReaction(match)) {
+      return;
     }
-    
-    // Clear previous atom selection highlight
-    if (this.selectedAtom) {
-      (this.selectedAtom.visuals.elementName.material as THREE.MeshStandardMaterial).color.set(0xffffff);
+
+    const molecule = this.molecules.find(m => m.id === target.id);
+    if (molecule) {
+      const broken = this.getMoleculeBonds(molecule)
+        .filter(([a, b, order]) => this.reactionEngine.photodissociates(a.protons, b.protons, order, this.lightWavelength))
+        .sort(([a1, b1, o1], [a2, b2, o2]) =>
+          this.reactionEngine.getBondEnthalpy(a1.protons, b1.protons, o1) - this.reactionEngine.getBondEnthalpy(a2.protons, b2.protons, o2)
+        )[0];
+      if (broken && this.splitMolecule(molecule, broken, 'light')) {
+        this.showNotification(`Fotodisociación: ${molecule.name} (${this.photonEnergy.toFixed(0)} kJ/mol)`, 'warning');
+        return;
+      }
     }
-    
-    this.selectedAtom = atom;
-    (this.selectedAtom.visuals.elementName.material as THREE.MeshStandardMaterial).color.set(0xffff00);
-    this.updateUIBindings();
+
+    const atom = target.atoms[Math.floor(Math.random() * target.atoms.length)] as Atom;
+    atom.excitedUntil = Date.now() + 1500;
+    this.updateElectronsVisuals(atom);
   }
 
-  addAtom(): void {
-    const position = new THREE.Vector3(
-      (Math.random() - 0.5) * 15, 
+  // ==================== RADIOACTIVITY ====================
+
+  /**
+   * Every unstable nucleus may decay during the frame. The daughter keeps the parent's
+   * electrons (electron capture takes one), so alpha and beta decays leave ions behind.
+   */
+  private checkRadioactiveDecay(deltaTime: number): void {
+    const elapsed = deltaTime * this.simulationSpeed;
+    for (const atom of [...this.atoms]) {
+      const nuclide = this.decayEngine.getNuclide(atom.protons, atom.neutrons);
+      if (!nuclide || Math.random() >= this.decayEngine.decayProbability(nuclide, elapsed)) continue;
+
+      const parent = this.nuclearEngine.label(atom);
+      const result = this.decayEngine.decay(atom.protons, atom.neutrons, this.decayEngine.chooseMode(nuclide));
+      this.releaseBonds(atom);
+
+      atom.protons = result.protons;
+      atom.neutrons = result.neutrons;
+      // A lone neutron left behind (He-5) cannot hold the parent's electrons
+      atom.electronsCount = result.protons === 0 ? 0 : Math.max(0, atom.electronsCount - result.capturedElectrons);
+      this.updateAtom(atom);
+
+      const position = new THREE.Vector3().copy(atom.physicalBody.position as any);
+      result.emitted.forEach(particle => this.emitDecayParticle(particle, position));
+
+      const daughter = this.nuclearEngine.label(atom);
+      this.showNotification(`☢️ ${parent} → ${daughter} (${DECAY_MODE_LABELS[result.mode]})`, 'warning');
+    }
+  }
+
+  /**
+   * Takes the atom out of its molecule, keeping the bonds between the other atoms
+   */
+  private releaseBonds(atom: Atom): void {
+    const molecule = this.molecules.find(m => m.atoms.includes(atom));
+    if (molecule) {
+      const remaining = this.getMoleculeBonds(molecule).filter(([a, b]) => a !== atom && b !== atom);
+      this.breakMolecule(molecule, true);
+      remaining.forEach(([a, b, order]) => this.createBond(a, b, true, order));
+    }
+    this.bonds
+      .filter(b => b.atomA === atom || b.atomB === atom)
+      .forEach(b => this.deleteBond(b, true));
+  }
+
+  private emitDecayParticle(type: DecayResult['emitted'][number], origin: THREE.Vector3): void {
+    const appearance = {
+      'alpha': { color: 0xff7043, radius: 0.45 },
+      'electron': { color: 0x4fc3f7, radius: 0.15 },
+      'positron': { color: 0xf06292, radius: 0.15 },
+      'neutrino': { color: 0xeeeeee, radius: 0.08 },
+      'antineutrino': { color: 0xeeeeee, radius: 0.08 }
+    }[type];
+    if (!this.decayParticleGeometries.has(appearance.radius)) {
+      this.decayParticleGeometries.set(appearance.radius, new THREE.SphereGeometry(appearance.radius, 8, 8));
+    }
+    const visual = new THREE.Mesh(
+      this.decayParticleGeometries.get(appearance.radius),
+      new THREE.MeshBasicMaterial({ color: appearance.color, transparent: true })
+    );
+    visual.position.copy(origin);
+    this.scene.add(visual);
+
+    const direction = new THREE.Vector3(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).normalize();
+    // Heavy alpha particles are slower than the light leptons
+    const speed = this.decayParticleSpeed * (type === 'alpha' ? 0.5 : 1);
+    this.decayParticles.push({ visual, velocity: direction.multiplyScalar(speed), age: 0 });
+  }
+
+  private updateDecayParticles(deltaTime: number): void {
+    for (const particle of [...this.decayParticles]) {
+      particle.age += deltaTime;
+      particle.visual.position.addScaledVector(particle.velocity, deltaTime * this.simulationSpeed);
+      (particle.visual.material as THREE.MeshBasicMaterial).opacity = Math.max(0, 1 - particle.age / this.decayParticleLifetime);
+
+      if (particle.age > this.decayParticleLifetime) {
+        this.scene.remove(particle.visual);
+        (particle.visual.material as THREE.Material).dispose();
+        this.decayParticles.splice(this.decayParticles.indexOf(particle), 1);
+      }
+    }
+  }
+
+  /**
+   * Free neutrons are absorbed by the nucleus they hit. Charged nuclei must collide with
+   * enough energy to cross their Coulomb barrier before they fuse. At most one reaction
+   * runs per step.
+   */
+  private processNuclearCollisions(collisions: { bodyA: CANNON.Body, bodyB: CANNON.Body, impact: CollisionImpact }[]): void {
+    for (const { bodyA, bodyB, impact } of collisions) {
+      const atomA = this.atoms.find(a => a.physicalBody === bodyA && !a.isMoleculeMember);
+      const atomB = this.atoms.find(a => a.physicalBody === bodyB && !a.isMoleculeMember);
+      if (!atomA || !atomB) continue;
+
+      let reaction: NuclearReaction | null = null;
+      if (atomA.protons === 0 || atomB.protons === 0) {
+        const [neutron, target] = atomA.protons === 0 ? [atomA, atomB] : [atomB, atomA];
+        if (target.protons === 0) continue;
+        reaction = this.nuclearEngine.absorbNeutron(target, 0.38 + Math.random() * 0.06, Math.random() < 0.5 ? 2 : 3);
+        if (reaction) this.runNuclearReaction(reaction, [target, neutron]);
+      } else {
+        const threshold = this.nuclearEngine.fusionThreshold(atomA, atomB) * IMPACT_UNITS_PER_MEV;
+        if (impact.impactEnergy < threshold || Math.random() >= impact.alignment) continue;
+        reaction = this.nuclearEngine.fuse(atomA, atomB);
+        if (reaction) this.runNuclearReaction(reaction, [atomA, atomB]);
+      }
+      if (reaction) return;
+    }
+  }
+
+  /**
+   * Replaces the reactant atoms with the product nuclei, which fly apart sharing the
+   * released energy. Electrons are handed back out to the products, heaviest first.
+   */
+  private runNuclearReaction(reaction: NuclearReaction, reactants: Atom[]): void {
+    const center = new THREE.Vector3();
+    reactants.forEach(a => center.add(new THREE.Vector3().copy(a.physicalBody.position as any)));
+    center.divideScalar(reactants.length);
+    let electrons = reactants.reduce((sum, a) => sum + a.electronsCount, 0);
+
+    reactants.forEach(a => this.deleteAtom(a));
+
+    const products = [...reaction.products].sort((a, b) => (b.protons + b.neutrons) - (a.protons + a.neutrons));
+    products.forEach((nucleus, i) => {
+      const direction = new THREE.Vector3(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).normalize();
+      const productElectrons = Math.min(nucleus.protons, electrons);
+      electrons -= productElectrons;
+
+      const atom = this.createAtom({
+        protons: nucleus.protons,
+        neutrons: nucleus.neutrons,
+        electrons: productElectrons,
+        position: center.clone().addScaledVector(direction, 1.5 + i)
+      });
+      // Lighter products carry off more of the released energy
+      const speed = Math.sqrt(Math.max(0, reaction.qValue) / (nucleus.protons + nucleus.neutrons)) * 2;
+      atom.physicalBody.velocity.set(direction.x * speed, direction.y * speed, direction.z * speed);
+    });
+
+    // Report only what fits in the system, not what overflowed the energy bar
+    const before = this.transientHeatEnergy;
+    this.transientHeatEnergy = Math.max(0, Math.min(100, before + reaction.qValue * this.energyPerMeV));
+    const formula = this.nuclearEngine.formula(reaction);
+    this.lastNuclearReaction = {
+      formula,
+      qValue: reaction.qValue,
+      massDefect: this.nuclearEngine.massDefect(reaction),
+      systemEnergyChange: this.transientHeatEnergy - before
+    };
+
+    const titles = { fusion: 'Fusión', fission: 'Fisión', capture: 'Captura neutrónica' };
+    this.showNotification(`⚛️ ${titles[reaction.type]}: ${formula} (${reaction.qValue.toFixed(1)} MeV)`, 'success');
+  }
+
+  /**
+   * Shoots a free neutron from the edge of the scene at the selected atom, or the centre
+   */
+  fireNeutron(): void {
+    const target = this.selectedAtom && !this.selectedAtom.isMoleculeMember
+      ? new THREE.Vector3().copy(this.selectedAtom.physicalBody.position as any)
+      : new THREE.Vector3();
+    const origin = target.clone().add(new THREE.Vector3(-20, (Math.random() - 0.5) * 2, 0));
+    const neutron = this.createAtom({ protons: 0, neutrons: 1, electrons: 0, position: origin });
+    const velocity = target.sub(origin).normalize().multiplyScalar(this.neutronSpeed);
+    neutron.physicalBody.velocity.set(velocity.x, velocity.y, velocity.z);
+  }
+
+  // ==================== ELECTRIC FIELD ====================
+
+  /**
+   * Places a field region around the selected atom or molecule (or the middle of the scene),
+   * or removes it
+   */
+  toggleElectricField(): void {
+    if (this.electricField) {
+      this.scene.remove(this.electricField.visual);
+      this.electricField.visual.children.forEach(child => {
+        if (child instanceof THREE.ArrowHelper) {
+          child.dispose();
+          return;
+        }
+        const part = child as THREE.Mesh | THREE.LineSegments;
+        part.geometry.dispose();
+        (part.material as THREE.Material).dispose();
+      });
+      this.electricField = null;
+      this.fieldAlignment = null;
+      this.showNotification('Campo eléctrico retirado', 'info');
+      return;
+    }
+
+    const centre = new THREE.Vector3();
+    if (this.selectedAtom && !this.selectedAtom.isMoleculeMember) centre.copy(this.selectedAtom.physicalBody.position as any);
+    else if (this.selectedMolecule) centre.copy(this.selectedMolecule.physicalBody.position as any);
+
+    const size = this.fieldHalfSize * 2;
+    const visual = new THREE.Group();
+    const box = new THREE.BoxGeometry(size, size, size);
+    visual.add(
+      new THREE.Mesh(box, new THREE.MeshBasicMaterial({ color: 0xffeb3b, transparent: true, opacity: 0.05, depthWrite: false })),
+      new THREE.LineSegments(new THREE.EdgesGeometry(box), new THREE.LineBasicMaterial({ color: 0xffeb3b, transparent: true, opacity: 0.4 }))
+    );
+
+    const arrows: ElectricFieldRegion['arrows'] = [];
+    for (const x of [-0.5, 0, 0.5]) {
+      for (const y of [-0.5, 0, 0.5]) {
+        const arrow = new THREE.ArrowHelper(this.fieldDirection, new THREE.Vector3(), this.fieldArrowLength, 0xffeb3b, 1, 0.6);
+        arrows.push({ arrow, anchor: new THREE.Vector3(x * size, y * size, -this.fieldHalfSize) });
+        visual.add(arrow);
+      }
+    }
+    visual.position.copy(centre);
+    this.scene.add(visual);
+
+    this.electricField = { centre, visual, arrows };
+    this.pointFieldArrows();
+    this.showNotification('Campo eléctrico colocado: empuja los iones y orienta las moléculas polares', 'info');
+  }
+
+  onFieldStrengthChanged(strength: number): void {
+    this.fieldStrength = strength;
+  }
+
+  onFieldAngleChanged(angle: number): void {
+    this.fieldAngle = angle;
+    this.pointFieldArrows();
+  }
+
+  private pointFieldArrows(): void {
+    const direction = this.fieldDirection;
+    this.electricField?.arrows.forEach(({ arrow, anchor }) => {
+      arrow.setDirection(direction);
+      arrow.position.copy(anchor).addScaledVector(direction, -this.fieldArrowLength / 2);
+    });
+  }
+
+  private get fieldDirection(): THREE.Vector3 {
+    const angle = this.fieldAngle * Math.PI / 180;
+    return new THREE.Vector3(Math.cos(angle), Math.sin(angle), 0);
+  }
+
+  private isInField(position: { x: number, y: number, z: number }): boolean {
+    const centre = this.electricField!.centre;
+    return Math.abs(position.x - centre.x) <= this.fieldHalfSize
+      && Math.abs(position.y - centre.y) <= this.fieldHalfSize
+      && Math.abs(position.z - centre.z) <= this.fieldHalfSize;
+  }
+
+  /**
+   * Inside the region the field pushes every charge along it (F = qE) and turns every dipole
+   * towards it (τ = μ × E). Thermal jitter works against the turning, so alignment drops
+   * as the temperature rises.
+   */
+  private applyElectricField(): void {
+    const direction = this.fieldDirection;
+    const field = new CANNON.Vec3(direction.x, direction.y, direction.z).scale(this.fieldStrength);
+
+    this.atoms.forEach(atom => {
+      const charge = this.chemistryEngine.getCharge(atom);
+      if (atom.isMoleculeMember || charge === 0 || !this.isInField(atom.physicalBody.position)) return;
+      atom.physicalBody.applyForce(field.scale(charge * this.fieldChargeForce));
+    });
+
+    let alignment = 0;
+    let polarMolecules = 0;
+    this.molecules.forEach(molecule => {
+      const body = molecule.physicalBody;
+      if (!this.isInField(body.position)) return;
+
+      const charge = molecule.atoms.reduce((sum, atom) => sum + this.chemistryEngine.getCharge(atom), 0);
+      if (charge !== 0) body.applyForce(field.scale(charge * this.fieldChargeForce));
+
+      if (!this.intermolecularEngine.isPolar(molecule.polarity)) return;
+      const local = molecule.polarity.dipole;
+      const dipole = body.quaternion.vmult(new CANNON.Vec3(local.x, local.y, local.z));
+      body.torque.vadd(dipole.cross(field).scale(this.fieldTorqueScale), body.torque);
+
+      alignment += dipole.unit().dot(new CANNON.Vec3(direction.x, direction.y, direction.z));
+      polarMolecules++;
+    });
+    this.fieldAlignment = polarMolecules > 0 ? alignment / polarMolecules : null;
+  }
+
+  // ==================== CATALYSIS ====================
+
+  toggleCatalyst(): void {
+    const atom = this.selectedAtom;
+    if (!atom) return;
+
+    atom.isCatalyst = !atom.isCatalyst;
+    const existingHalo = atom.visuals.nucleus.getObjectByName('catalyst-halo') as THREE.Mesh | undefined;
+    if (existingHalo) {
+      atom.visuals.nucleus.remove(existingHalo);
+      existingHalo.geometry.dispose();
+      (existingHalo.material as THREE.Material).dispose();
+    }
+
+    if (atom.isCatalyst) {
+      const radius = (atom.physicalBody.shapes[0] as CANNON.Sphere).radius;
+      const halo = new THREE.Mesh(
+        new THREE.SphereGeometry(radius * 1.8, 16, 12),
+        new THREE.MeshBasicMaterial({ color: 0xffd54f, wireframe: true, transparent: true, opacity: 0.35 })
+      );
+      halo.name = 'catalyst-halo';
+      atom.visuals.nucleus.add(halo);
+    }
+
+    this.showNotification(
+      atom.isCatalyst ? `${atom.elementName} actúa como catalizador` : `${atom.elementName} ya no es catalizador`,
+      'info'
+    );
+  }
+
+  /**
+   * Places a catalytic slab of the given element below the scene, or removes it if it is
+   * already there. Placing a different element swaps the slab.
+   */
+  toggleCatalystSurface(element: number): void {
+    const previous = this.catalystSurface;
+    if (previous) {
+      this.scene.remove(previous.visual);
+      previous.visual.geometry.dispose();
+      (previous.visual.material as THREE.Material).dispose();
+      this.world.removeBody(previous.body);
+      this.catalystSurface = null;
+    }
+    if (previous?.element === element) {
+      this.showNotification('Superficie catalítica retirada', 'info');
+      return;
+    }
+
+    const surface = CATALYST_SURFACES.find(s => s.element === element);
+    if (!surface) return;
+
+    const halfExtents = new CANNON.Vec3(20, 0.5, 12);
+    const body = new CANNON.Body({
+      mass: 0,
+      shape: new CANNON.Box(halfExtents),
+      position: new CANNON.Vec3(0, -12, 0)
+    });
+    const visual = new THREE.Mesh(
+      new THREE.BoxGeometry(halfExtents.x * 2, halfExtents.y * 2, halfExtents.z * 2),
+      new THREE.MeshStandardMaterial({ color: surface.color, metalness: 0.8, roughness: 0.35 })
+    );
+    visual.position.copy(body.position as any);
+
+    this.world.addBody(body);
+    this.scene.add(visual);
+    this.catalystSurface = { element, body, visual };
+    this.showNotification(`Superficie de ${surface.label} colocada`, 'success');
+  }
+
+  /**
+   * Catalyst atoms and the catalytic surface, each with the point of it closest to a position
+   */
+  private getCatalystSites(): { element: number, closestPoint: (p: THREE.Vector3) => THREE.Vector3 }[] {
+    const sites = this.atoms
+      .filter(a => a.isCatalyst && !a.isMoleculeMember)
+      .map(a => ({
+        element: a.protons,
+        closestPoint: (_: THREE.Vector3) => new THREE.Vector3().copy(a.physicalBody.position as any)
+      }));
+
+    if (this.catalystSurface) {
+      const box = new THREE.Box3().setFromObject(this.catalystSurface.visual);
+      sites.push({ element: this.catalystSurface.element, closestPoint: (p: THREE.Vector3) => box.clampPoint(p, new THREE.Vector3()) });
+    }
+    return sites;
+  }
+
+  private catalystsNear(position: THREE.Vector3): number[] {
+    return this.getCatalystSites()
+      .filter(site => site.closestPoint(position).distanceTo(position) < this.catalystReach)
+      .map(site => site.element);
+  }
+
+  private isCatalysedHere(match: ReactionMatch): boolean {
+    const center = new THREE.Vector3();
+    match.reactants.forEach(r => center.add(new THREE.Vector3().copy(this.getSpeciesBody(r).position as any)));
+    center.divideScalar(match.reactants.length);
+    return this.reactionEngine.isCatalysedBy(match.recipe, this.catalystsNear(center));
+  }
+
+  /**
+   * Reactants of a catalysed recipe are drawn onto a nearby catalyst, where they meet
+   */
+  private adsorbOnCatalysts(species: ReactionSpecies[]): void {
+    const sites = this.getCatalystSites();
+    if (sites.length === 0) return;
+
+    species.forEach(s => {
+      const composition = s.atoms.map(a => a.protons).sort((a, b) => a - b).join(',');
+      const body = this.getSpeciesBody(s);
+      const position = new THREE.Vector3().copy(body.position as any);
+
+      for (const site of sites) {
+        const catalysed = MOLECULAR_RECIPES.some(recipe =>
+          this.reactionEngine.isCatalysedBy(recipe, [site.element]) &&
+          recipe.reactants.some(r => this.reactionEngine.parseFormula(r.element).sort((a, b) => a - b).join(',') === composition)
+        );
+        if (!catalysed) continue;
+
+        const toSite = site.closestPoint(position).sub(position);
+        const distance = toSite.length();
+        if (distance < 1 || distance > this.catalystReach * 2) continue;
+
+        toSite.normalize().multiplyScalar(body.mass * 2);
+        body.applyForce(new CANNON.Vec3(toSite.x, toSite.y, toSite.z));
+        break;
+      }
+    });
+  }
+
+  // ==================== NOTIFICATIONS ====================
+
+  showNotification(message: string, type: 'success' | 'error' | 'info' | 'warning'): void {
+    this.notification = { message, type };
+    setTimeout(() => {
+      this.notification = null;
+    }, 3000);
+  }
+
+  getNotificationIcon(): string {
+    if (!this.notification) return '';
+    switch (this.notification.type) {
+      case 'success': return '✓';
+      case 'error': return '✗';
+      case 'warning': return '⚠';
+      case 'info': return 'ℹ';
+      default: return '';
+    }
+  }
+
+  // ==================== HELPER METHODS ====================
+
+  /**
+   * Element symbol in ion notation (Na⁺, Mg²⁺, Cl⁻) when the atom is charged
+   */
+  getAtomSymbol(atom: Atom): string {
+    if (atom.protons === 0) return 'n';
+    const symbol = this.elementRegistry.getSymbol(atom.protons);
+    const charge = this.chemistryEngine.getCharge(atom);
+    if (charge === 0) return symbol;
+
+    const magnitude = Math.abs(charge) === 1
+      ? ''
+      : Math.abs(charge).toString().split('').map(d => '⁰¹²³⁴⁵⁶⁷⁸⁹'[parseInt(d)]).join('');
+    return symbol + magnitude + (charge > 0 ? '⁺' : '⁻');
+  }
+
+  getElectronConfiguration(atom: Atom): string {
+    if (atom.electronsCount === 0) return '—';
+    return formatConfiguration(this.elementRegistry.getElectronConfiguration(atom.protons, atom.electronsCount), true);
+  }
+
+  getAtomCharge(atom: Atom): string {
+    const charge = this.chemistryEngine.getCharge(atom);
+    return charge > 0 ? `+${charge}` : `${charge}`;
+  }
+
+  selectMoleculeById(id: string): void {
+    const molecule = this.molecules.find(m => m.id === id);
+    if (molecule) {
+      this.selectMolecule(molecule);
+    }
+  }
+
+  // ==================== PANEL DRAGGING ====================
+
+  startDragPanel(event: MouseEvent, panelName: string): void {
+    // Only start drag from the drag handle
+    const target = event.target as HTMLElement;
+    if (!target.classList.contains('drag-handle')) return;
+    
+    event.preventDefault();
+    event.stopPropagation();
+    
+    this.draggingPanel = panelName;
+    this.panelDragStart = { x: event.clientX, y: event.clientY };
+    this.panelStartPos = { ...this.panelPositions[panelName as keyof typeof this.panelPositions] };
+    
+    const onMouseMove = (e: MouseEvent) => {
+      if (!this.draggingPanel) return;
+      
+      const deltaX = this.panelDragStart.x - e.clientX;
+      const deltaY = e.clientY - this.panelDragStart.y;
+      
+      const panel = this.panelPositions[this.draggingPanel as keyof typeof this.panelPositions];
+      panel.x = Math.max(0, this.panelStartPos.x + deltaX);
+      panel.y = Math.max(0, this.panelStartPos.y + deltaY);
+    };
+    
+    const onMouseUp = () => {
+      this.draggingPanel = null;
+      document.removeEventListener('mousemove', onMouseMove);
+      document.removeEventListener('mouseup', onMouseUp);
+    };
+    
+    document.addEventListener('mousemove', onMouseMove);
+    document.addEventListener('mouseup', onMouseUp);
+  }
+
+
+  // ==================== ATOM MANAGEMENT ====================
+
+  private createAtom(config: {protons: number, neutrons: number, electrons: number, position?: THREE.Vector3}): Atom {
+    const atom = this.buildAtom(config.protons, config.neutrons, config.electrons, config.position);
+    this.atoms.push(atom);
+    this.scene.add(atom.visuals.nucleus, atom.visuals.electrons, atom.visuals.elementName);
+    this.world.addBody(atom.physicalBody);
+    
+    // Apply current visual settings
+    atom.visuals.elementName.visible = this.showLabels;
+    atom.visuals.electrons.visible = this.showElectrons;
+    return atom;
+  }
+
+  private buildAtom(protons: number, neutrons: number, electronsCount: number, position = new THREE.Vector3()): Atom {
+    const massNumber = protons + neutrons;
+    const nucleusRadius = Math.cbrt(massNumber) * 0.7;
+    const config = this.currentModeConfig.physics;
+    
+    const physicalBody = new CANNON.Body({ 
+      mass: massNumber > 0 ? massNumber : 1, 
+      shape: new CANNON.Sphere(nucleusRadius || 0.5), 
+      position: new CANNON.Vec3(position.x, position.y, position.z),
+      linearDamping: config.linearDamping,
+      angularDamping: config.angularDamping
+    });
+    
+    // Start with zero velocity for controlled behavior
+    physicalBody.velocity.set(0, 0, 0);
+    physicalBody.addEventListener('collide', this.handleCollision);
+    
+    const newAtom: Atom = {
+      id: this.nextId++, 
+      protons, 
+      neutrons, 
+      electronsCount, 
+      elementName: '',
+      visuals: { 
+        nucleus: new THREE.Group(), 
+        electrons: new THREE.Group(), 
+        elementName: new THREE.Mesh() 
+      },
+      physicalBody
+    };
+    
+    this.updateNucleusVisuals(newAtom);
+    this.updateElectronsVisuals(newAtom);
+    this.updateElementNameVisuals(newAtom);
+    return newAtom;
+  }
+
+  private deleteAtom(atomToDelete: Atom): void {
+    // If atom is part of a molecule, break the molecule first
+    const moleculeContainingAtom = this.molecules.find(m => m.atoms.some(a => a.id === atomToDelete.id));
+    if (moleculeContainingAtom) {
+      this.breakMolecule(moleculeContainingAtom, true);
+    }
+
+    // Remove atom
+    this.atoms = this.atoms.filter(a => a.id !== atomToDelete.id);
+    this.world.removeBody(atomToDelete.physicalBody);
+    this.scene.remove(atomToDelete.visuals.nucleus, atomToDelete.visuals.electrons, atomToDelete.visuals.elementName);
+
+    // Remove bonds connected to this atom
+    const bondsToRemove = this.bonds.filter(b => b.atomA.id === atomToDelete.id || b.atomB.id === atomToDelete.id);
+    bondsToRemove.forEach(b => this.deleteBond(b, true));
+    this.chemistryEngine.removeAtom(atomToDelete);
+
+    // Update selection
+    if (this.selectedAtom?.id === atomToDelete.id) {
+      this.selectedAtom = this.atoms.length > 0 ? this.atoms[0] : null;
+      if (this.selectedAtom) this.selectAtom(this.selectedAtom);
+      else this.updateUIBindings();
+    }
+    
+    // Remove from bonding selection
+    this.selectedAtomsForBonding = this.selectedAtomsForBonding.filter(a => a.id !== atomToDelete.id);
+    
+    this.identifyMolecules();
+  }
+
+  deleteAtomClicked(event: MouseEvent, atom: Atom): void {
+    event.stopPropagation();
+    this.deleteAtom(atom);
+  }
+
+  selectAtom(atom: Atom): void {
+    // Clear molecule selection
+    if (this.selectedMolecule) {
+      this.selectedMolecule = null;
+    }
+    
+    // Clear previous atom selection highlight
+    if (this.selectedAtom) {
+      (this.selectedAtom.visuals.elementName.material as THREE.MeshStandardMaterial).color.set(0xffffff);
+    }
+    
+    this.selectedAtom = atom;
+    (this.selectedAtom.visuals.elementName.material as THREE.MeshStandardMaterial).color.set(0xffff00);
+    this.updateUIBindings();
+  }
+
+  addAtom(): void {
+    const position = new THREE.Vector3(
+      (Math.random() - 0.5) * 15, 
       (Math.random() - 0.5) * 15, 
       (Math.random() - 0.5) * 5
     );
@@ -787,14 +1656,14 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
   addProton(): void { 
     if(this.selectedAtom) { 
       this.selectedAtom.protons++; 
-      this.updateAtom(this.selectedAtom); 
+      this.updateAtom(this.selectedAtom, this.selectedAtom.protons - 1); 
     } 
   }
   
   removeProton(): void { 
     if(this.selectedAtom && this.selectedAtom.protons > 1) { 
       this.selectedAtom.protons--; 
-      this.updateAtom(this.selectedAtom); 
+      this.updateAtom(this.selectedAtom, this.selectedAtom.protons + 1); 
     } 
   }
   
@@ -814,23 +1683,73 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
   
   addElectron(): void { 
     if(this.selectedAtom) { 
-      this.selectedAtom.electronsCount++; 
-      this.updateElectronsVisuals(this.selectedAtom); 
-      this.updateUIBindings(); 
+      // Capturing an electron gives back what it would cost to remove it again (the electron affinity for a neutral atom)
+      const released = this.elementRegistry.getIonizationEnergy(this.selectedAtom.protons, this.selectedAtom.electronsCount + 1);
+      this.changeElectrons(this.selectedAtom, 1, released);
     } 
   }
   
   removeElectron(): void { 
     if(this.selectedAtom && this.selectedAtom.electronsCount > 0) { 
-      this.selectedAtom.electronsCount--; 
-      this.updateElectronsVisuals(this.selectedAtom); 
-      this.updateUIBindings(); 
+      const cost = this.elementRegistry.getIonizationEnergy(this.selectedAtom.protons, this.selectedAtom.electronsCount);
+      this.changeElectrons(this.selectedAtom, -1, -cost);
     } 
   }
 
-  updateAtom(atom: Atom): void {
-    const electronDifference = atom.protons - atom.electronsCount;
-    atom.electronsCount += electronDifference;
+  /**
+   * kJ/mol needed to remove the next electron from the atom
+   */
+  getNextIonizationEnergy(atom: Atom): number {
+    if (atom.electronsCount === 0) return 0;
+    return this.elementRegistry.getIonizationEnergy(atom.protons, atom.electronsCount) * this.kJPerMolPerEV;
+  }
+
+  /**
+   * Adds or removes one electron, settling the energy (in eV, positive when released)
+   * with the system. Changes the system cannot pay for, and electrons the ion cannot
+   * bind, are refused.
+   */
+  private changeElectrons(atom: Atom, delta: 1 | -1, releasedEV: number): void {
+    const kJPerMol = releasedEV * this.kJPerMolPerEV;
+    const energy = kJPerMol / this.enthalpyPerEnergyUnit;
+    const before = this.getAtomSymbol(atom);
+
+    if (delta > 0 && atom.protons === 0) {
+      this.showNotification('Un neutrón libre no tiene carga para retener electrones', 'warning');
+      return;
+    }
+    if (delta > 0 && !this.elementRegistry.canHoldElectrons(atom.protons, atom.electronsCount + 1)) {
+      this.showNotification(`${before} no puede retener otro electrón: su carga negativa lo repele`, 'warning');
+      return;
+    }
+    if (energy < 0 && this.transientHeatEnergy < -energy) {
+      const reason = delta < 0 ? `arrancar un electrón a ${before}` : `${before} repele el nuevo electrón y meterlo`;
+      this.showNotification(
+        `Energía insuficiente: ${reason} cuesta ${Math.round(-kJPerMol)} kJ/mol y el sistema tiene ${Math.round(this.transientHeatEnergy * this.enthalpyPerEnergyUnit)} kJ/mol`,
+        'warning'
+      );
+      return;
+    }
+
+    atom.electronsCount += delta;
+    const heatBefore = this.transientHeatEnergy;
+    this.transientHeatEnergy = Math.max(0, Math.min(100, heatBefore + energy));
+    this.updateElectronsVisuals(atom);
+    this.updateElementNameVisuals(atom);
+    this.updateUIBindings();
+
+    const after = this.getAtomSymbol(atom);
+    // The clamp can cut the gain short, so report what the system really gained or lost
+    const exchanged = (this.transientHeatEnergy - heatBefore) * this.enthalpyPerEnergyUnit;
+    const balance = energy >= 0 ? `libera ${Math.round(exchanged)}` : `consume ${Math.round(-exchanged)}`;
+    this.showNotification(`${before} ${delta > 0 ? '+ e⁻ ' : ''}→ ${after}${delta < 0 ? ' + e⁻' : ''}: ${balance} kJ/mol`, 'info');
+  }
+
+  updateAtom(atom: Atom, previousProtons: number = atom.protons): void {
+    // Keep the ion's net charge when the nucleus changes
+    const charge = previousProtons - atom.electronsCount;
+    // Without protons there is nothing left to hold the electrons
+    atom.electronsCount = atom.protons === 0 ? 0 : Math.max(0, atom.protons - charge);
     const massNumber = atom.protons + atom.neutrons;
     atom.physicalBody.mass = massNumber > 0 ? massNumber : 1;
     (atom.physicalBody.shapes[0] as CANNON.Sphere).radius = Math.cbrt(massNumber) * 0.7 || 0.5;
@@ -897,7 +1816,17 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
   }
 
   private updateElectronsVisuals(atom: Atom): void {
+    atom.visuals.electrons.children.forEach(child => {
+      const electron = child as THREE.Mesh | THREE.Points;
+      electron.geometry.dispose();
+      if (electron.material !== this.orbitalCloudMaterial) (electron.material as THREE.Material).dispose();
+    });
     atom.visuals.electrons.clear();
+    if (this.orbitalView) {
+      this.buildOrbitalClouds(atom);
+      return;
+    }
+
     const electronGeo = new THREE.SphereGeometry(0.15, 12, 12);
     const electronMat = new THREE.MeshStandardMaterial({ 
       color: 0x4fc3f7, 
@@ -905,14 +1834,15 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
       emissiveIntensity: 0.8 
     });
     
-    const shells = [2, 8, 18, 32];
-    let electronsToPlace = atom.electronsCount;
-    let shellIndex = 0;
-    
-    while (electronsToPlace > 0 && shellIndex < shells.length) {
-      const shellCapacity = shells[shellIndex];
-      const electronsInShell = Math.min(electronsToPlace, shellCapacity);
-      const shellRadius = (shellIndex + 1) * 2 + (atom.physicalBody.shapes[0] as CANNON.Sphere).radius;
+    // Shells hold what the electron configuration puts in them (potassium is 2, 8, 8, 1)
+    const shells = shellOccupancy(this.elementRegistry.getElectronConfiguration(atom.protons, atom.electronsCount));
+    const nucleusRadius = (atom.physicalBody.shapes[0] as CANNON.Sphere).radius;
+    // An excited atom has its outermost electron lifted one shell out
+    const excited = (atom.excitedUntil ?? 0) > Date.now() && atom.electronsCount > 0;
+    if (excited) shells[shells.length - 1]--;
+
+    shells.forEach((electronsInShell, shellIndex) => {
+      const shellRadius = (shellIndex + 1) * 2 + nucleusRadius;
       
       for (let i = 0; i < electronsInShell; i++) {
         const e = new THREE.Mesh(electronGeo, electronMat);
@@ -921,9 +1851,51 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
         e.position.setFromSphericalCoords(shellRadius, phi, theta);
         atom.visuals.electrons.add(e);
       }
-      
-      electronsToPlace -= electronsInShell;
-      shellIndex++;
+    });
+
+    if (excited) {
+      const e = new THREE.Mesh(electronGeo, new THREE.MeshStandardMaterial({
+        color: 0xffeb3b,
+        emissive: 0xffeb3b,
+        emissiveIntensity: 1.2
+      }));
+      e.position.setFromSphericalCoords((shells.length + 1) * 2 + nucleusRadius, Math.PI / 2, Math.random() * 2 * Math.PI);
+      atom.visuals.electrons.add(e);
+    }
+  }
+
+  /**
+   * One point cloud per occupied orbital, sampled from |ψ|² with more points for a full
+   * orbital. Warm and cool points mark the positive and negative lobes of the wavefunction.
+   */
+  private buildOrbitalClouds(atom: Atom): void {
+    // The nucleons (spheres of radius 0.4) fill a ball far larger than a real nucleus, so
+    // every cloud is pushed out past it, the way the Bohr shells are, instead of hiding inside
+    const nucleusRadius = (atom.physicalBody.shapes[0] as CANNON.Sphere).radius + 0.4;
+
+    const positive = new THREE.Color(0xff7043);
+    const negative = new THREE.Color(0x42a5f5);
+
+    for (const orbital of this.getOrbitals(atom)) {
+      if (atom.hiddenOrbitals?.includes(orbital.label)) continue;
+
+      const points = sampleOrbital(orbital, this.cloudPointsPerElectron * orbital.electrons);
+      const positions = new Float32Array(points.length * 3);
+      const colors = new Float32Array(points.length * 3);
+      points.forEach((p, i) => {
+        const r = Math.hypot(p.x, p.y, p.z);
+        const scale = r > 0 ? (nucleusRadius + r * this.sceneUnitsPerBohr) / r : 0;
+        positions.set([p.x * scale, p.y * scale, p.z * scale], i * 3);
+        const color = p.phase > 0 ? positive : negative;
+        colors.set([color.r, color.g, color.b], i * 3);
+      });
+
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+      geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+      const cloud = new THREE.Points(geometry, this.orbitalCloudMaterial);
+      cloud.name = orbital.label;
+      atom.visuals.electrons.add(cloud);
     }
   }
 
@@ -931,16 +1903,25 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     if (!this.font) return;
     
     const massNumber = atom.protons + atom.neutrons;
-    const name = this.elementNames[atom.protons] || 'Custom';
+    // A nucleus without protons is a free neutron
+    const name = atom.protons === 0 ? 'Neutron' : this.elementRegistry.getName(atom.protons);
     atom.elementName = `${name}-${massNumber}`;
     
+    // The 3D font has no superscript glyphs, so ions get a plain-text suffix (Na+, Mg2+, Cl-)
+    let label = atom.elementName;
+    const charge = this.chemistryEngine.getCharge(atom);
+    if (charge !== 0) {
+      const magnitude = Math.abs(charge) === 1 ? '' : Math.abs(charge);
+      label += ` ${this.elementRegistry.getSymbol(atom.protons)}${magnitude}${charge > 0 ? '+' : '-'}`;
+    }
+    
     if (atom.visuals.elementName.geometry) {
       this.scene.remove(atom.visuals.elementName);
       atom.visuals.elementName.geometry.dispose();
       (atom.visuals.elementName.material as THREE.Material).dispose();
     }
     
-    const geom = new TextGeometry(atom.elementName, { font: this.font, size: 0.6, depth: 0.05 });
+    const geom = new TextGeometry(label, { font: this.font, size: 0.6, depth: 0.05 });
     const mat = new THREE.MeshStandardMaterial({ color: 0xffffff });
     atom.visuals.elementName = new THREE.Mesh(geom, mat);
     geom.computeBoundingBox();
@@ -955,53 +1936,137 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
 
   // ==================== BONDING SYSTEM ====================
 
-  private createBond(atomA: Atom, atomB: Atom, suppressIdentify: boolean = false): void {
-    const bondId1 = `${atomA.id}-${atomB.id}`;
-    const bondId2 = `${atomB.id}-${atomA.id}`;
-    const bondExists = this.bonds.some(bond => bond.id === bondId1 || bond.id === bondId2);
+  private createBond(atomA: Atom, atomB: Atom, suppressIdentify: boolean = false, order: BondOrder = 1): boolean {
+    // Valence and duplicate checks live in the chemistry engine
+    if (!this.chemistryEngine.addBond(atomA, atomB, order)) return false;
     
-    if (bondExists) return;
-    
-    const bondId = bondId1;
-    
-    // Calculate ideal bond length
-    const radiusA = this.atomicRadii[atomA.protons] || 1.0;
-    const radiusB = this.atomicRadii[atomB.protons] || 1.0;
-    const idealBondLength = (radiusA + radiusB) * 2.5;
+    const bondId = `${atomA.id}-${atomB.id}`;
+    const type = this.chemistryEngine.isIonicPair(atomA, atomB) ? 'ionic' : 'covalent';
+    if (type === 'ionic') {
+      this.transferElectrons(atomA, atomB);
+    }
     
-    const constraint = new CANNON.DistanceConstraint(atomA.physicalBody, atomB.physicalBody, idealBondLength);
+    const constraint = new CANNON.DistanceConstraint(
+      atomA.physicalBody, atomB.physicalBody, this.calculateBondLength(atomA, atomB, order)
+    );
     constraint.collideConnected = false;
     this.world.addConstraint(constraint);
     
-    const bondMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0x4caf50, 
-      emissive: 0x4caf50, 
-      emissiveIntensity: 0.3,
-      transparent: true,
-      opacity: 0.9
-    });
-    const bondGeometry = new THREE.CylinderGeometry(0.1, 0.1, 1, 8);
-    const bondVisual = new THREE.Mesh(bondGeometry, bondMaterial);
-    bondVisual.visible = this.showBondsVisual;
+    const bondVisual = this.createFreeBondVisual(order, type);
     this.scene.add(bondVisual);
     
-    this.bonds.push({ id: bondId, atomA, atomB, constraint, visual: bondVisual });
+    this.bonds.push({ id: bondId, atomA, atomB, order, type, constraint, visual: bondVisual });
     
     if (!suppressIdentify) {
       this.identifyMolecules();
     }
+    return true;
   }
 
   private deleteBond(bondToDelete: Bond, suppressIdentify: boolean = false): void {
-    this.bonds = this.bonds.filter(b => b.id !== bondToDelete.id);
-    this.world.removeConstraint(bondToDelete.constraint);
-    this.scene.remove(bondToDelete.visual);
+    this.chemistryEngine.removeBond(bondToDelete.atomA, bondToDelete.atomB);
+    this.detachBond(bondToDelete);
     
     if (!suppressIdentify) {
       this.identifyMolecules();
     }
   }
 
+  /**
+   * Moves electrons from the metal to the non-metal so both end up as ions
+   */
+  private transferElectrons(atomA: Atom, atomB: Atom): void {
+    const transfer = this.chemistryEngine.planElectronTransfer(atomA, atomB);
+    if (!transfer) return;
+
+    const donor = transfer.donor as Atom;
+    const acceptor = transfer.acceptor as Atom;
+    donor.electronsCount -= transfer.electrons;
+    acceptor.electronsCount += transfer.electrons;
+
+    [donor, acceptor].forEach(atom => {
+      this.updateElectronsVisuals(atom);
+      this.updateElementNameVisuals(atom);
+    });
+    if (this.selectedAtom === donor || this.selectedAtom === acceptor) {
+      this.updateUIBindings();
+    }
+  }
+
+  /**
+   * Ideal constraint length for a bond between free atoms; double and triple bonds are shorter
+   */
+  private calculateBondLength(atomA: Atom, atomB: Atom, order: BondOrder): number {
+    const radiusA = this.elementRegistry.getAtomicRadius(atomA.protons);
+    const radiusB = this.elementRegistry.getAtomicRadius(atomB.protons);
+    return (radiusA + radiusB) * 2.5 * BOND_ORDER_LENGTH_FACTOR[order];
+  }
+
+  private setBondOrder(bond: Bond, order: BondOrder): void {
+    bond.order = order;
+    bond.constraint.distance = this.calculateBondLength(bond.atomA, bond.atomB, order);
+
+    const visual = this.createFreeBondVisual(order, bond.type);
+    visual.position.copy(bond.visual.position);
+    visual.quaternion.copy(bond.visual.quaternion);
+    visual.scale.copy(bond.visual.scale);
+    this.scene.remove(bond.visual);
+    this.disposeBondVisual(bond.visual);
+    this.scene.add(visual);
+    bond.visual = visual;
+  }
+
+  private createFreeBondVisual(order: BondOrder, type: Bond['type']): THREE.Group {
+    const color = type === 'ionic' ? 0xab47bc : 0x4caf50;
+    const bondMaterial = new THREE.MeshStandardMaterial({ 
+      color, 
+      emissive: color, 
+      emissiveIntensity: 0.3,
+      transparent: true,
+      opacity: 0.9
+    });
+    const bondVisual = this.buildBondVisual(order, 0.1, bondMaterial, 8);
+    bondVisual.visible = this.showBondsVisual;
+    return bondVisual;
+  }
+
+  /**
+   * One cylinder per shared electron pair, laid side by side. The group is
+   * unit-length along Y so callers can stretch it with scale.y like a single cylinder.
+   * All cylinders share the material, so recolouring one recolours the whole bond.
+   */
+  private buildBondVisual(order: BondOrder, radius: number, material: THREE.Material, segments: number): THREE.Group {
+    const group = new THREE.Group();
+    const cylinderRadius = order === 1 ? radius : radius * 0.7;
+    const geometry = new THREE.CylinderGeometry(cylinderRadius, cylinderRadius, 1, segments);
+    const spacing = cylinderRadius * 2.6;
+
+    for (let i = 0; i < order; i++) {
+      const cylinder = new THREE.Mesh(geometry, material);
+      cylinder.position.x = (i - (order - 1) / 2) * spacing;
+      group.add(cylinder);
+    }
+    return group;
+  }
+
+  private disposeBondVisual(visual: THREE.Group): void {
+    visual.children.forEach(child => {
+      const cylinder = child as THREE.Mesh;
+      cylinder.geometry.dispose();
+      (cylinder.material as THREE.Material).dispose();
+    });
+  }
+
+  /**
+   * Removes the physical constraint and visual of a bond while keeping it in the
+   * chemistry engine's bond graph (used when the bond becomes part of a molecule)
+   */
+  private detachBond(bond: Bond): void {
+    this.bonds = this.bonds.filter(b => b.id !== bond.id);
+    this.world.removeConstraint(bond.constraint);
+    this.scene.remove(bond.visual);
+  }
+
   private updateBondVisuals(): void {
     const bondsToRemove: Bond[] = [];
     
@@ -1010,8 +2075,8 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
       const posB = new THREE.Vector3().copy(bond.atomB.physicalBody.position as any);
       const distance = posA.distanceTo(posB);
       
-      const radiusA = this.atomicRadii[bond.atomA.protons] || 1.0;
-      const radiusB = this.atomicRadii[bond.atomB.protons] || 1.0;
+      const radiusA = this.elementRegistry.getAtomicRadius(bond.atomA.protons);
+      const radiusB = this.elementRegistry.getAtomicRadius(bond.atomB.protons);
       const maxBondLength = (radiusA + radiusB) * 5.0;
       
       if (distance > maxBondLength) {
@@ -1026,12 +2091,12 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
         
         // Visual stress indicator
         const stressRatio = distance / maxBondLength;
-        const mat = bond.visual.material as THREE.MeshStandardMaterial;
+        const mat = (bond.visual.children[0] as THREE.Mesh).material as THREE.MeshStandardMaterial;
         if (stressRatio > 0.6) {
           const redIntensity = Math.min(1, (stressRatio - 0.6) / 0.4);
           mat.color.setRGB(1, 1 - redIntensity * 0.7, 1 - redIntensity * 0.7);
         } else {
-          mat.color.setRGB(0.3, 0.69, 0.31);
+          mat.color.set(bond.type === 'ionic' ? 0xab47bc : 0x4caf50);
         }
       }
     }
@@ -1051,23 +2116,20 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     if (now - this.lastBondCheck < this.bondCheckInterval) return;
     this.lastBondCheck = now;
     
-    const systemEnergy = this.calculateSystemEnergy();
-    const bondThreshold = 4.0;
+    const reactionSpeed = this.currentModeConfig.reactions.reactionSpeed;
     const attractionThreshold = 8.0;
 
-    // Check for bonds between free atoms
-    for (let i = 0; i < this.atoms.length; i++) {
+    // Draw free atoms that could bond towards each other; they bond when they collide
+    // (greedy bonding is off in strict stoichiometry)
+    for (let i = 0; i < this.atoms.length && !this.stoichiometryStrict; i++) {
       for (let j = i + 1; j < this.atoms.length; j++) {
         const atomA = this.atoms[i];
         const atomB = this.atoms[j];
 
         if (atomA.isMoleculeMember || atomB.isMoleculeMember) continue;
+        if (atomA.isCatalyst || atomB.isCatalyst) continue;
 
-        const bondId1 = `${atomA.id}-${atomB.id}`;
-        const bondId2 = `${atomB.id}-${atomA.id}`;
-        const bondExists = this.bonds.some(bond => bond.id === bondId1 || bond.id === bondId2);
-        
-        if (bondExists) continue;
+        if (this.chemistryEngine.hasBond(atomA, atomB)) continue;
 
         const cooldownKey = `${Math.min(atomA.id, atomB.id)}-${Math.max(atomA.id, atomB.id)}`;
         const lastAttempt = this.bondingCooldowns.get(cooldownKey) || 0;
@@ -1075,13 +2137,13 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
 
         const distance = atomA.physicalBody.position.distanceTo(atomB.physicalBody.position);
 
-        if (distance < bondThreshold && this.shouldFormBond(atomA, atomB, systemEnergy)) {
-          this.bondingCooldowns.set(cooldownKey, now);
-          this.createBond(atomA, atomB, true);
-          setTimeout(() => this.identifyMolecules(), 100);
-        } else if (distance < attractionThreshold && this.shouldFormBond(atomA, atomB, systemEnergy)) {
-          // Gentle attraction
-          const forceMagnitude = (attractionThreshold - distance) * 0.02;
+        if (!this.shouldFormBond(atomA, atomB)) continue;
+
+        if (distance < attractionThreshold) {
+          // Gentle attraction, weaker for pairs that would rarely react
+          const temperature = this.calculateLocalTemperature([atomA.physicalBody, atomB.physicalBody]);
+          const reactivity = this.chemistryEngine.bondFormationProbability(atomA, atomB, temperature, reactionSpeed);
+          const forceMagnitude = (attractionThreshold - distance) * 0.02 * reactivity;
           const forceVector = new CANNON.Vec3()
             .copy(atomB.physicalBody.position as any)
             .vsub(atomA.physicalBody.position as any);
@@ -1094,310 +2156,323 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
       }
     }
 
-    // Check for molecular reactions (molecules reacting with free atoms or other molecules)
-    this.checkMolecularReactions(systemEnergy, bondThreshold, attractionThreshold, now);
+    // Hot molecules can shed their bonds
+    this.checkThermalDecomposition(reactionSpeed);
+
+    // Electrolysis at the electrodes, and reactants drawn together
+    this.checkRecipeReactions(reactionSpeed);
+    this.updateEquilibria(reactionSpeed);
   }
 
+  // ==================== REACTIONS ====================
+
   /**
-   * Check if molecules can react with free atoms or other molecules to form larger compounds
+   * Most reactions start from collisions (see processCollisions). Electrolysis happens at
+   * the electrode surfaces instead, so its recipes are checked here against the species at
+   * the electrodes. Reactants that are nearly in range are pulled together if the recipe
+   * forms naturally.
    */
-  private checkMolecularReactions(systemEnergy: number, bondThreshold: number, attractionThreshold: number, now: number): void {
-    // Get free atoms (not part of any molecule)
-    const freeAtoms = this.atoms.filter(a => !a.isMoleculeMember);
-    
-    // Check molecule-atom reactions
-    for (const molecule of this.molecules) {
-      // Skip if molecule is already a complex compound (more than 2 atoms)
-      // Only simple diatomic molecules can be broken for reactions
-      if (molecule.atoms.length > 2) continue;
-      
-      const moleculePos = molecule.physicalBody.position;
-      
-      for (const freeAtom of freeAtoms) {
-        const freeAtomPos = freeAtom.physicalBody.position;
-        const distance = moleculePos.distanceTo(freeAtomPos);
-        
-        // Check if this could form a more stable/complex molecule
-        if (distance < attractionThreshold) {
-          const canReact = this.canMoleculeReactWithAtom(molecule, freeAtom, systemEnergy);
-          
-          if (canReact) {
-            const cooldownKey = `mol-${molecule.id}-atom-${freeAtom.id}`;
-            const lastAttempt = this.bondingCooldowns.get(cooldownKey) || 0;
-            if (now - lastAttempt < 3000) continue;
-            
-            if (distance < bondThreshold * 1.5) {
-              // Trigger reaction: break molecule and form new bonds
-              this.bondingCooldowns.set(cooldownKey, now);
-              this.triggerMolecularReaction(molecule, freeAtom);
-              return; // Process one reaction at a time
-            } else {
-              // Apply attraction force between molecule and free atom
-              const forceMagnitude = (attractionThreshold - distance) * 0.015;
-              const forceVector = new CANNON.Vec3(
-                freeAtomPos.x - moleculePos.x,
-                freeAtomPos.y - moleculePos.y,
-                freeAtomPos.z - moleculePos.z
-              );
-              forceVector.normalize();
-              forceVector.scale(forceMagnitude, forceVector);
-              
-              molecule.physicalBody.applyForce(forceVector, new CANNON.Vec3(0, 0, 0));
-              freeAtom.physicalBody.applyForce(forceVector.scale(-1, new CANNON.Vec3()), new CANNON.Vec3(0, 0, 0));
-            }
-          }
-        }
-      }
+  private checkRecipeReactions(reactionSpeed: number): void {
+    const conditions = this.getReactionConditions();
+    // Electrolysis only happens at the electrode surfaces
+    const species = this.currentEnergyType === 'electrolysis'
+      ? this.collectSpecies().filter(s => this.isAtElectrode(s.position))
+      : this.collectSpecies();
+
+    const matches = this.reactionEngine.findReactions(species, conditions)
+      .filter(m => m.recipe.conditions.energyType === 'electrolysis');
+    if (matches.length > 0) {
+      const match = matches.find(m => {
+        const temperature = this.calculateLocalTemperature(m.reactants.map(r => this.getSpeciesBody(r)));
+        return Math.random() < this.reactionEngine.reactionProbability(m.recipe, temperature, reactionSpeed, conditions.voltage);
+      });
+      if (match) this.runReaction(match);
+      return;
     }
-    
-    // Check molecule-molecule reactions
-    for (let i = 0; i < this.molecules.length; i++) {
-      for (let j = i + 1; j < this.molecules.length; j++) {
-        const molA = this.molecules[i];
-        const molB = this.molecules[j];
-        
-        // Only allow reactions between simple molecules
-        if (molA.atoms.length > 2 || molB.atoms.length > 2) continue;
-        
-        const distance = molA.physicalBody.position.distanceTo(molB.physicalBody.position);
-        
-        if (distance < attractionThreshold) {
-          const canReact = this.canMoleculesReact(molA, molB, systemEnergy);
-          
-          if (canReact) {
-            const cooldownKey = `mol-${molA.id}-mol-${molB.id}`;
-            const lastAttempt = this.bondingCooldowns.get(cooldownKey) || 0;
-            if (now - lastAttempt < 3000) continue;
-            
-            if (distance < bondThreshold * 2) {
-              this.bondingCooldowns.set(cooldownKey, now);
-              this.triggerMoleculeMoleculeReaction(molA, molB);
-              return;
-            } else {
-              // Apply attraction
-              const forceMagnitude = (attractionThreshold - distance) * 0.01;
-              const forceVector = new CANNON.Vec3(
-                molB.physicalBody.position.x - molA.physicalBody.position.x,
-                molB.physicalBody.position.y - molA.physicalBody.position.y,
-                molB.physicalBody.position.z - molA.physicalBody.position.z
-              );
-              forceVector.normalize();
-              forceVector.scale(forceMagnitude, forceVector);
-              
-              molA.physicalBody.applyForce(forceVector, new CANNON.Vec3(0, 0, 0));
-              molB.physicalBody.applyForce(forceVector.scale(-1, new CANNON.Vec3()), new CANNON.Vec3(0, 0, 0));
-            }
-          }
-        }
-      }
+
+    const approaching = this.reactionEngine.findReaction(species, conditions, 2);
+    if (approaching && (approaching.recipe.naturalFormation || this.isCatalysedHere(approaching))) {
+      this.pullTogether(approaching.reactants);
     }
+
+    this.adsorbOnCatalysts(species);
+  }
+
+  private onBodyCollide(event: { body: CANNON.Body, target: CANNON.Body }): void {
+    // cannon-es dispatches the event on both bodies; keep one
+    if (event.target.id > event.body.id) return;
+
+    const impact = this.reactionEngine.measureImpact(event.target, event.body);
+    this.pendingCollisions.push({ bodyA: event.target, bodyB: event.body, impact });
   }
 
   /**
-   * Check if a molecule can react with a free atom to form a more complex compound
+   * Judges the first contacts of the last physics step. Recipes that include both colliding
+   * species react with collisionProbability; free atoms bond pairwise unless stoichiometry
+   * is strict. At most one reaction runs per step.
    */
-  private canMoleculeReactWithAtom(molecule: Molecule, freeAtom: Atom, systemEnergy: number): boolean {
-    // Get the composition of potential new molecule
-    const allAtoms = [...molecule.atoms, freeAtom];
-    const potentialMolecule = this.identifyMoleculeType(allAtoms);
-    
-    // If the result would be a known compound (not just "Compound"), it's a valid reaction
-    if (potentialMolecule && !potentialMolecule.name.startsWith('Compound')) {
-      // Check if we have enough energy for the reaction
-      const activationEnergy = this.calculateReactionActivationEnergy(molecule, freeAtom);
-      return systemEnergy >= activationEnergy;
-    }
-    
-    // Check if the free atom can bond with any atom in the molecule
-    for (const moleculeAtom of molecule.atoms) {
-      const bondsOnMoleculeAtom = this.countAtomBondsInMolecule(moleculeAtom, molecule);
-      const maxBondsForMoleculeAtom = this.maxBonds[moleculeAtom.protons] || 4;
-      
-      if (bondsOnMoleculeAtom < maxBondsForMoleculeAtom) {
-        // This atom in the molecule has available bonding sites
-        const freeAtomBonds = this.countAtomBonds(freeAtom);
-        const maxFreeAtomBonds = this.maxBonds[freeAtom.protons] || 4;
-        
-        if (freeAtomBonds < maxFreeAtomBonds) {
-          return systemEnergy >= 5; // Minimum energy for reaction
+  private processCollisions(): void {
+    const collisions = this.pendingCollisions;
+    this.pendingCollisions = [];
+    if (collisions.length === 0 || this.reactionInProgress) return;
+    if (this.currentModeConfig.reactions.nuclearReactions) {
+      this.processNuclearCollisions(collisions);
+      return;
+    }
+    if (!this.currentModeConfig.reactions.autoReactions) return;
+
+    const reactionSpeed = this.currentModeConfig.reactions.reactionSpeed;
+    const conditions = this.getReactionConditions();
+    const species = this.collectSpecies();
+
+    for (const { bodyA, bodyB, impact } of collisions) {
+      const speciesA = species.find(s => this.getSpeciesBody(s) === bodyA);
+      const speciesB = species.find(s => this.getSpeciesBody(s) === bodyB);
+      if (!speciesA || !speciesB) continue;
+
+      const temperature = this.calculateLocalTemperature([bodyA, bodyB]);
+      const contactPoint = new THREE.Vector3().copy(bodyA.position as any).add(bodyB.position as any).multiplyScalar(0.5);
+      const catalysts = this.catalystsNear(contactPoint);
+      const match = this.reactionEngine.findReactions(species, conditions, 1, [speciesA, speciesB])
+        .find(m => Math.random() < this.reactionEngine.collisionProbability(m.recipe, impact, temperature, reactionSpeed, catalysts));
+      if (match && this.runReaction(match)) return;
+
+      if (!this.stoichiometryStrict && speciesA.atoms.length === 1 && speciesB.atoms.length === 1) {
+        const atomA = speciesA.atoms[0] as Atom;
+        const atomB = speciesB.atoms[0] as Atom;
+        const cooldownKey = `${Math.min(atomA.id, atomB.id)}-${Math.max(atomA.id, atomB.id)}`;
+        if (Date.now() - (this.bondingCooldowns.get(cooldownKey) || 0) < 2000) continue;
+        if (!this.shouldFormBond(atomA, atomB)) continue;
+
+        const catalysed = this.reactionEngine.catalysesBond(atomA.protons, atomB.protons, catalysts);
+        const probability = this.chemistryEngine.bondFormationProbability(atomA, atomB, temperature, reactionSpeed, catalysed) * impact.alignment;
+        if (Math.random() < probability) {
+          this.bondingCooldowns.set(cooldownKey, Date.now());
+          this.createBond(atomA, atomB, true, this.chemistryEngine.suggestBondOrder(atomA, atomB));
+          setTimeout(() => this.identifyMolecules(), 100);
+          return;
         }
       }
     }
-    
-    return false;
   }
 
   /**
-   * Check if two molecules can react with each other
+   * Each bond of each molecule may break with the Arrhenius probability of its bond
+   * enthalpy at the molecule's local temperature. The molecule splits into the fragments
+   * left by the broken bond, and the system cools by the bond enthalpy.
    */
-  private canMoleculesReact(molA: Molecule, molB: Molecule, systemEnergy: number): boolean {
-    // Combine atoms and check if they form a known compound
-    const allAtoms = [...molA.atoms, ...molB.atoms];
-    const potentialMolecule = this.identifyMoleculeType(allAtoms);
-    
-    if (potentialMolecule && !potentialMolecule.name.startsWith('Compound')) {
-      const activationEnergy = this.calculateMoleculeMoleculeActivationEnergy(molA, molB);
-      return systemEnergy >= activationEnergy;
+  private checkThermalDecomposition(reactionSpeed: number): void {
+    for (const molecule of [...this.molecules]) {
+      const temperature = this.calculateLocalTemperature([molecule.physicalBody]);
+      const bonds = this.getMoleculeBonds(molecule);
+      const broken = bonds.find(([a, b, order]) =>
+        Math.random() < this.reactionEngine.dissociationProbability(a.protons, b.protons, order, temperature, reactionSpeed)
+      );
+      if (broken && this.splitMolecule(molecule, broken)) {
+        this.showNotification(`Disociación térmica: ${molecule.name}`, 'warning');
+      }
     }
-    
-    return false;
+  }
+
+  private getMoleculeBonds(molecule: Molecule): [Atom, Atom, BondOrder][] {
+    const bonds: [Atom, Atom, BondOrder][] = [];
+    molecule.atoms.forEach((atomA, i) => {
+      molecule.atoms.slice(i + 1).forEach(atomB => {
+        const order = this.chemistryEngine.getBondOrder(atomA, atomB);
+        if (order) bonds.push([atomA, atomB, order]);
+      });
+    });
+    return bonds;
   }
 
   /**
-   * Calculate activation energy needed for molecule-atom reaction
+   * Breaks one bond of the molecule. Heat draws the bond enthalpy from the system and
+   * leaves the molecule whole (returning false) when the system cannot pay for it; an
+   * absorbed photon brings the energy itself.
    */
-  private calculateReactionActivationEnergy(molecule: Molecule, freeAtom: Atom): number {
-    // Base energy depends on breaking existing bonds in the molecule
-    let baseEnergy = 5;
-    
-    // Diatomic molecules need more energy to break
-    if (molecule.atoms.length === 2) {
-      const atomA = molecule.atoms[0];
-      const atomB = molecule.atoms[1];
-      
-      // H-H bond is relatively weak
-      if (atomA.protons === 1 && atomB.protons === 1) {
-        baseEnergy = 8;
-      }
-      // O=O double bond is stronger
-      else if (atomA.protons === 8 && atomB.protons === 8) {
-        baseEnergy = 15;
-      }
-      // N≡N triple bond is very strong
-      else if (atomA.protons === 7 && atomB.protons === 7) {
-        baseEnergy = 25;
-      }
+  private splitMolecule(molecule: Molecule, [brokenA, brokenB, order]: [Atom, Atom, BondOrder], source: 'heat' | 'light' = 'heat'): boolean {
+    if (source === 'heat') {
+      const cost = this.reactionEngine.getBondEnthalpy(brokenA.protons, brokenB.protons, order) / this.enthalpyPerEnergyUnit;
+      if (this.transientHeatEnergy < cost) return false;
+      this.transientHeatEnergy -= cost;
     }
-    
-    return baseEnergy;
+
+    const remaining = this.getMoleculeBonds(molecule).filter(([a, b]) => !(a === brokenA && b === brokenB));
+
+    this.breakMolecule(molecule, true);
+    remaining.forEach(([a, b, order]) => this.createBond(a, b, true, order));
+
+    // Keep the fragments from snapping straight back together
+    const cooldownKey = `${Math.min(brokenA.id, brokenB.id)}-${Math.max(brokenA.id, brokenB.id)}`;
+    this.bondingCooldowns.set(cooldownKey, Date.now());
+
+    this.identifyMolecules();
+    return true;
   }
 
   /**
-   * Calculate activation energy for molecule-molecule reaction
+   * Tracks both directions of every reversible recipe whose species are in the scene
    */
-  private calculateMoleculeMoleculeActivationEnergy(molA: Molecule, molB: Molecule): number {
-    return this.calculateReactionActivationEnergy(molA, molA.atoms[0]) + 
-           this.calculateReactionActivationEnergy(molB, molB.atoms[0]);
+  private updateEquilibria(reactionSpeed: number): void {
+    const species = this.collectSpecies();
+    const temperature = this.calculateTemperature();
+    this.equilibria = MOLECULAR_RECIPES
+      .map(recipe => this.reactionEngine.describeEquilibrium(recipe, species, temperature, reactionSpeed))
+      .filter((state): state is EquilibriumState => state !== null)
+      .filter(state => [...state.reactants, ...state.products].some(side => side.count > 0));
+  }
+
+  private getReactionConditions(): ReactionConditions {
+    return {
+      heatIntensity: this.heatIntensity,
+      energyType: this.currentEnergyType,
+      voltage: this.electrolysisActive ? this.electrolysisVoltage : 0,
+      wavelength: this.lightActive ? this.lightWavelength : 0
+    };
   }
 
   /**
-   * Count bonds for an atom within a molecule context
+   * Free atoms and molecules as reaction species
    */
-  private countAtomBondsInMolecule(atom: Atom, molecule: Molecule): number {
-    // In a diatomic molecule, each atom has 1 bond (or more for double/triple bonds)
-    if (molecule.atoms.length === 2) {
-      // Check for multiple bonds based on element types
-      const otherAtom = molecule.atoms.find(a => a.id !== atom.id);
-      if (otherAtom) {
-        // O=O has double bond
-        if (atom.protons === 8 && otherAtom.protons === 8) return 2;
-        // N≡N has triple bond
-        if (atom.protons === 7 && otherAtom.protons === 7) return 3;
-      }
-      return 1;
-    }
-    
-    // For larger molecules, count actual bonds
-    return this.bonds.filter(b => 
-      (b.atomA.id === atom.id || b.atomB.id === atom.id) &&
-      molecule.atoms.some(a => a.id === b.atomA.id) &&
-      molecule.atoms.some(a => a.id === b.atomB.id)
-    ).length;
+  private collectSpecies(): ReactionSpecies[] {
+    const freeAtoms: ReactionSpecies[] = this.atoms
+      .filter(a => !a.isMoleculeMember && !a.isCatalyst)
+      .map(a => ({ id: `atom-${a.id}`, atoms: [a], position: a.physicalBody.position }));
+    const molecules: ReactionSpecies[] = this.molecules
+      .map(m => ({ id: m.id, atoms: m.atoms, position: m.physicalBody.position }));
+    return [...freeAtoms, ...molecules];
+  }
+
+  private getSpeciesBody(species: ReactionSpecies): CANNON.Body {
+    const molecule = this.molecules.find(m => m.id === species.id);
+    return molecule ? molecule.physicalBody : (species.atoms[0] as Atom).physicalBody;
+  }
+
+  private pullTogether(reactants: ReactionSpecies[]): void {
+    const center = new CANNON.Vec3();
+    reactants.forEach(r => center.vadd(this.getSpeciesBody(r).position, center));
+    center.scale(1 / reactants.length, center);
+
+    reactants.forEach(r => {
+      const body = this.getSpeciesBody(r);
+      const force = center.vsub(body.position);
+      const distance = force.length();
+      if (distance === 0) return;
+      force.normalize();
+      force.scale(distance * 0.015, force);
+      body.applyForce(force, new CANNON.Vec3(0, 0, 0));
+    });
   }
 
   /**
-   * Trigger a reaction between a molecule and a free atom
+   * Breaks the reactant molecules and rebonds their atoms into the recipe's products.
+   * Endothermic reactions the system cannot pay for are refused and return false.
    */
-  private triggerMolecularReaction(molecule: Molecule, freeAtom: Atom): void {
-    this.reactionInProgress = true;
-    
-    // Store position for new atoms
-    const reactionCenter = new THREE.Vector3(
-      molecule.physicalBody.position.x,
-      molecule.physicalBody.position.y,
-      molecule.physicalBody.position.z
-    );
-    
-    // Break the molecule and release its atoms
-    this.breakMolecule(molecule, true);
-    
-    // Move the free atom closer to the reaction center
-    freeAtom.physicalBody.position.set(
-      reactionCenter.x + (Math.random() - 0.5) * 2,
-      reactionCenter.y + (Math.random() - 0.5) * 2,
-      reactionCenter.z + (Math.random() - 0.5) * 2
-    );
-    
-    // Give atoms some initial velocity toward each other
-    const releasedAtoms = this.atoms.filter(a => !a.isMoleculeMember);
-    releasedAtoms.forEach(atom => {
-      const dirToCenter = new CANNON.Vec3(
-        reactionCenter.x - atom.physicalBody.position.x,
-        reactionCenter.y - atom.physicalBody.position.y,
-        reactionCenter.z - atom.physicalBody.position.z
+  private runReaction(match: ReactionMatch): boolean {
+    const heat = this.reactionHeat(match);
+    if (heat < 0 && this.transientHeatEnergy < -heat) {
+      this.showNotification(
+        `Energía insuficiente: ${match.recipe.formula} consume ${Math.round(-heat * this.enthalpyPerEnergyUnit)} kJ/mol y el sistema tiene ${Math.round(this.transientHeatEnergy * this.enthalpyPerEnergyUnit)} kJ/mol`,
+        'warning'
       );
-      dirToCenter.normalize();
-      dirToCenter.scale(2, dirToCenter);
-      atom.physicalBody.velocity.copy(dirToCenter);
+      return false;
+    }
+
+    this.reactionInProgress = true;
+
+    const reactionCenter = new THREE.Vector3();
+    match.reactants.forEach(r => reactionCenter.add(this.getSpeciesBody(r).position as any));
+    reactionCenter.divideScalar(match.reactants.length);
+
+    match.reactants.forEach(r => {
+      const molecule = this.molecules.find(m => m.id === r.id);
+      if (molecule) this.breakMolecule(molecule, true);
     });
-    
-    this.showNotification('¡Reacción en progreso!', 'info');
-    
-    // Allow new bonds to form after a short delay
+
+    const products = this.reactionEngine.planProducts(match);
+    products.forEach((product, index) => {
+      const angle = (2 * Math.PI * index) / products.length;
+      const electrode = product.electrode && this.electrodes.find(e => e.role === product.electrode);
+      const productCenter = electrode
+        ? electrode.position.clone().add(new THREE.Vector3(product.electrode === 'cathode' ? 2 : -2, 0, 0))
+        : reactionCenter.clone().add(
+            new THREE.Vector3(Math.cos(angle), Math.sin(angle), 0).multiplyScalar(products.length > 1 ? 4 : 0)
+          );
+      const atoms = product.atoms as Atom[];
+
+      atoms.forEach(atom => {
+        atom.physicalBody.position.set(
+          productCenter.x + (Math.random() - 0.5) * 2,
+          productCenter.y + (Math.random() - 0.5) * 2,
+          productCenter.z + (Math.random() - 0.5) * 2
+        );
+        // Gas released at an electrode bubbles up
+        atom.physicalBody.velocity.set(0, electrode ? 2 : 0, 0);
+      });
+      product.structure.bonds.forEach(([a, b, order]) => this.createBond(atoms[a], atoms[b], true, order));
+
+      if (electrode) {
+        const gas = this.collectedGas[electrode.role];
+        gas[product.structure.formula] = (gas[product.structure.formula] || 0) + 1;
+      }
+    });
+
+    this.identifyMolecules();
+    this.releaseReactionHeat(match, reactionCenter);
+    this.showNotification(`¡Reacción: ${match.recipe.formula}!`, 'success');
+
+    // Allow new reactions after a short delay
     setTimeout(() => {
       this.reactionInProgress = false;
     }, 500);
+    return true;
   }
 
   /**
-   * Trigger a reaction between two molecules
+   * Energy units the reaction gives to the system, negative when it takes them
    */
-  private triggerMoleculeMoleculeReaction(molA: Molecule, molB: Molecule): void {
-    this.reactionInProgress = true;
-    
-    // Calculate reaction center
-    const reactionCenter = new THREE.Vector3(
-      (molA.physicalBody.position.x + molB.physicalBody.position.x) / 2,
-      (molA.physicalBody.position.y + molB.physicalBody.position.y) / 2,
-      (molA.physicalBody.position.z + molB.physicalBody.position.z) / 2
-    );
-    
-    // Break both molecules
-    this.breakMolecule(molA, true);
-    this.breakMolecule(molB, true);
-    
-    // Move released atoms toward reaction center
-    const releasedAtoms = this.atoms.filter(a => !a.isMoleculeMember);
-    releasedAtoms.forEach(atom => {
-      const dirToCenter = new CANNON.Vec3(
-        reactionCenter.x - atom.physicalBody.position.x,
-        reactionCenter.y - atom.physicalBody.position.y,
-        reactionCenter.z - atom.physicalBody.position.z
-      );
-      dirToCenter.normalize();
-      dirToCenter.scale(1.5, dirToCenter);
-      atom.physicalBody.velocity.copy(dirToCenter);
-    });
-    
-    this.showNotification('¡Reacción molecular en progreso!', 'info');
-    
-    setTimeout(() => {
-      this.reactionInProgress = false;
-    }, 500);
+  private reactionHeat(match: ReactionMatch): number {
+    // In electrolysis the electric current supplies the energy, not the surroundings
+    if (match.recipe.conditions.energyType === 'electrolysis') return 0;
+    const heat = -this.reactionEngine.calculateEnthalpy(match.recipe).deltaH / this.enthalpyPerEnergyUnit;
+    // Light pays for what an endothermic photoreaction takes; an exothermic one still heats the system
+    return match.recipe.conditions.energyType === 'light' ? Math.max(0, heat) : heat;
   }
 
-  private shouldFormBond(atomA: Atom, atomB: Atom, systemEnergy: number): boolean {
-    if (!this.chemistryEngine.canFormBond(atomA, atomB, systemEnergy)) {
-      return false;
-    }
+  /**
+   * Exothermic reactions heat the system and kick nearby particles; endothermic ones
+   * draw the energy from the system and slow nearby particles down
+   */
+  private releaseReactionHeat(match: ReactionMatch, center: THREE.Vector3): void {
+    const enthalpy = this.reactionEngine.calculateEnthalpy(match.recipe);
+    const heat = this.reactionHeat(match);
+    const before = this.transientHeatEnergy;
+    this.transientHeatEnergy = Math.max(0, Math.min(100, before + heat));
+
+    const centerVec = new CANNON.Vec3(center.x, center.y, center.z);
+    const nearbyBodies = [
+      ...this.atoms.filter(a => !a.isMoleculeMember).map(a => a.physicalBody),
+      ...this.molecules.map(m => m.physicalBody)
+    ].filter(body => body.position.distanceTo(centerVec) < this.reactionHeatRadius);
+
+    nearbyBodies.forEach(body => {
+      if (heat > 0) {
+        const intensity = heat * 0.3;
+        body.velocity.x += (Math.random() - 0.5) * intensity;
+        body.velocity.y += (Math.random() - 0.5) * intensity;
+        body.velocity.z += (Math.random() - 0.5) * intensity;
+      } else {
+        body.velocity.scale(Math.max(0.2, 1 + heat / 20), body.velocity);
+      }
+    });
 
-    // Check valence
-    const bondsA = this.countAtomBonds(atomA);
-    const bondsB = this.countAtomBonds(atomB);
-    const maxA = this.maxBonds[atomA.protons] || 4;
-    const maxB = this.maxBonds[atomB.protons] || 4;
+    // The clamp can cut the change short, so report what the system really gained or lost
+    this.lastReactionEnergy = { formula: match.recipe.formula, ...enthalpy, systemEnergyChange: this.transientHeatEnergy - before };
+  }
 
-    return bondsA < maxA && bondsB < maxB;
+  private shouldFormBond(atomA: Atom, atomB: Atom): boolean {
+    // Valence is enforced by the engine's bond graph
+    return this.chemistryEngine.canFormBond(atomA, atomB);
   }
 
 
@@ -1432,15 +2507,15 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
         
         if (!existingMolecule) {
           const moleculeInfo = this.identifyMoleculeType(connectedComponent);
-          if (moleculeInfo) {
-            const molecule = this.createMolecule(moleculeId, moleculeInfo, connectedComponent);
-            if (molecule) {
-              this.molecules.push(molecule);
-              
-              if (!this.discoveredMolecules.includes(moleculeInfo.name)) {
-                this.discoveredMolecules.push(moleculeInfo.name);
-                this.showNotification(`¡Nueva molécula descubierta: ${moleculeInfo.name}!`, 'success');
-              }
+          const molecule = this.createMolecule(moleculeId, moleculeInfo, connectedComponent);
+          if (molecule) {
+            this.molecules.push(molecule);
+            
+            if (moleculeInfo.impossible) {
+              this.showNotification(`Conectividad imposible: ${moleculeInfo.impossible.join('; ')}`, 'error');
+            } else if (!this.discoveredMolecules.includes(moleculeInfo.name)) {
+              this.discoveredMolecules.push(moleculeInfo.name);
+              this.showNotification(`¡Nueva molécula descubierta: ${moleculeInfo.name}!`, 'success');
             }
           }
         }
@@ -1450,44 +2525,23 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     this.moleculeNames = this.molecules.map(m => m.name);
   }
 
-  private identifyMoleculeType(atoms: Atom[]): { name: string, geometry: string, bondLength: number } | null {
-    const counts = new Map<number, number>();
-    atoms.forEach(a => {
-      const count = counts.get(a.protons) || 0;
-      counts.set(a.protons, count + 1);
-    });
-
-    const hCount = counts.get(1) || 0;
-    const cCount = counts.get(6) || 0;
-    const nCount = counts.get(7) || 0;
-    const oCount = counts.get(8) || 0;
+  private identifyMoleculeType(atoms: Atom[]): { name: string, geometry: string, bondLength: number, transitions?: PhaseTransitions, impossible?: string[] } {
+    const centralAtom: Atom = this.chemistryEngine.findOptimalCentralAtom(atoms);
+    const geometry = this.chemistryEngine.getAtomGeometry(centralAtom);
+    const formula = this.generateMolecularFormula(atoms);
 
-    // Known molecules
-    if (oCount === 1 && hCount === 2 && atoms.length === 3) {
-      return { name: 'Water (H₂O)', geometry: 'bent', bondLength: 2.0 };
-    }
-    if (cCount === 1 && oCount === 2 && atoms.length === 3) {
-      return { name: 'Carbon Dioxide (CO₂)', geometry: 'linear', bondLength: 2.2 };
+    // Compare the actual bond graph against the library of known structures
+    const identification = this.chemistryEngine.identifyStructure(atoms);
+    if (identification.status === 'impossible') {
+      return { name: `Impossible Structure (${formula})`, geometry, bondLength: 2.0, impossible: identification.problems };
     }
-    if (cCount === 1 && hCount === 4 && atoms.length === 5) {
-      return { name: 'Methane (CH₄)', geometry: 'tetrahedral', bondLength: 1.8 };
-    }
-    if (nCount === 1 && hCount === 3 && atoms.length === 4) {
-      return { name: 'Ammonia (NH₃)', geometry: 'trigonal_pyramidal', bondLength: 1.6 };
-    }
-    if (hCount === 2 && atoms.length === 2) {
-      return { name: 'Hydrogen Gas (H₂)', geometry: 'linear', bondLength: 1.2 };
-    }
-    if (oCount === 2 && atoms.length === 2) {
-      return { name: 'Oxygen Gas (O₂)', geometry: 'linear', bondLength: 1.5 };
-    }
-    if (nCount === 2 && atoms.length === 2) {
-      return { name: 'Nitrogen Gas (N₂)', geometry: 'linear', bondLength: 1.6 };
+    if (identification.structure) {
+      const { name, bondLength, meltingPoint, boilingPoint } = identification.structure;
+      return { name, geometry, bondLength, transitions: { meltingPoint, boilingPoint } };
     }
 
     // Generate name for unknown molecules
-    const formula = this.generateMolecularFormula(atoms);
-    return { name: `Compound (${formula})`, geometry: 'complex', bondLength: 2.0 };
+    return { name: `Compound (${formula})`, geometry, bondLength: 2.0 };
   }
 
   private generateMolecularFormula(atoms: Atom[]): string {
@@ -1501,7 +2555,7 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     const sortedElements = Array.from(composition.entries()).sort((a, b) => a[0] - b[0]);
 
     for (const [protons, count] of sortedElements) {
-      const symbol = this.elementSymbols[protons] || `E${protons}`;
+      const symbol = this.elementRegistry.getElement(protons)?.symbol || `E${protons}`;
       if (count === 1) {
         parts.push(symbol);
       } else {
@@ -1513,7 +2567,7 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     return parts.join('');
   }
 
-  private createMolecule(moleculeId: string, moleculeInfo: { name: string, geometry: string, bondLength: number }, atoms: Atom[]): Molecule | null {
+  private createMolecule(moleculeId: string, moleculeInfo: { name: string, geometry: string, bondLength: number, transitions?: PhaseTransitions }, atoms: Atom[]): Molecule | null {
     const moleculeMass = atoms.reduce((sum, a) => sum + a.physicalBody.mass, 0);
     const moleculeCenter = new THREE.Vector3();
     atoms.forEach(a => moleculeCenter.add(a.physicalBody.position as any));
@@ -1526,28 +2580,16 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
       linearDamping: config.linearDamping,
       angularDamping: config.angularDamping,
     });
+    compoundBody.addEventListener('collide', this.handleCollision);
 
     const moleculeVisual = new THREE.Group();
-    
-    // Better bond visualization with thicker, brighter bonds
-    const bondMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0x00ff88, 
-      emissive: 0x00ff88, 
-      emissiveIntensity: 0.6,
-      metalness: 0.3,
-      roughness: 0.4
-    });
-    const bondGeometry = new THREE.CylinderGeometry(0.15, 0.15, 1, 12);
-    const bondsVisuals: THREE.Mesh[] = [];
 
-    // Use larger bond length for clearer geometry visualization
-    const scaledMoleculeInfo = {
-      ...moleculeInfo,
-      bondLength: moleculeInfo.bondLength * 1.5  // Scale up for visibility
-    };
+    // Use larger bond length for clearer geometry visualization, never letting heavy nuclei overlap
+    const largestNucleus = Math.max(...atoms.map(a => (a.physicalBody.shapes[0] as CANNON.Sphere).radius));
+    const bondLength = Math.max(moleculeInfo.bondLength * 1.5, largestNucleus * 2);
     
-    const relativePositions = this.calculateMolecularGeometry(atoms, scaledMoleculeInfo);
-    if (!relativePositions) return null;
+    const relativePositions = this.chemistryEngine.calculateGraphPositions(atoms, bondLength);
+    if (relativePositions.size === 0) return null;
 
     atoms.forEach(a => {
       this.world.removeBody(a.physicalBody);
@@ -1564,153 +2606,173 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
       a.isMoleculeMember = true;
     });
 
-    // Create bond visuals between connected atoms
+    const bondsVisuals = this.createMoleculeBondVisuals(atoms);
+    bondsVisuals.forEach(v => moleculeVisual.add(v));
+
     const moleculeBonds = this.bonds.filter(b => atoms.includes(b.atomA) && atoms.includes(b.atomB));
-    moleculeBonds.forEach(bond => {
-      const posA = relativePositions.get(bond.atomA.id)!;
-      const posB = relativePositions.get(bond.atomB.id)!;
-      const bondVisual = new THREE.Mesh(bondGeometry, bondMaterial.clone());
-      const distance = posA.distanceTo(posB);
-      bondVisual.scale.y = distance;
-      bondVisual.position.copy(posA).lerp(posB, 0.5);
-      bondVisual.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), posB.clone().sub(posA).normalize());
-      moleculeVisual.add(bondVisual);
-      bondsVisuals.push(bondVisual);
-    });
 
-    // If no explicit bonds, create bonds based on geometry
-    if (moleculeBonds.length === 0 && atoms.length > 1) {
-      const centralAtom = this.findBestCentralAtom(atoms);
-      const centralPos = relativePositions.get(centralAtom.id)!;
-      
-      atoms.forEach(a => {
-        if (a.id !== centralAtom.id) {
-          const atomPos = relativePositions.get(a.id)!;
-          const bondVisual = new THREE.Mesh(bondGeometry, bondMaterial.clone());
-          const distance = centralPos.distanceTo(atomPos);
-          bondVisual.scale.y = distance;
-          bondVisual.position.copy(centralPos).lerp(atomPos, 0.5);
-          bondVisual.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), atomPos.clone().sub(centralPos).normalize());
-          moleculeVisual.add(bondVisual);
-          bondsVisuals.push(bondVisual);
-        }
-      });
-    }
+    // The molecule body replaces the constraints, but the bonds stay in the engine's graph
+    moleculeBonds.forEach(b => this.detachBond(b));
 
-    moleculeBonds.forEach(b => this.deleteBond(b, true));
+    const polarity = this.describePolarity(atoms);
+    const dipoleArrow = this.createDipoleArrow(atoms, polarity);
+    if (dipoleArrow) moleculeVisual.add(dipoleArrow);
 
     this.world.addBody(compoundBody);
     this.scene.add(moleculeVisual);
 
-    return { id: moleculeId, name: moleculeInfo.name, atoms, visual: moleculeVisual, physicalBody: compoundBody, bondsVisuals };
+    return {
+      id: moleculeId,
+      name: moleculeInfo.name,
+      atoms,
+      visual: moleculeVisual,
+      physicalBody: compoundBody,
+      bondsVisuals,
+      polarity,
+      // Unknown species get melting and boiling points from their own attractions
+      transitions: moleculeInfo.transitions ?? this.intermolecularEngine.estimateTransitions(this.moleculeMembers(atoms), polarity)
+    };
+  }
+
+  /**
+   * Bond dipoles, size and hydrogen-bonding sites of a molecule, with its atoms placed
+   * where they sit in the molecule group
+   */
+  private describePolarity(atoms: Atom[]): MolecularPolarity {
+    const bonds: [number, number][] = [];
+    for (let i = 0; i < atoms.length; i++) {
+      for (let j = i + 1; j < atoms.length; j++) {
+        if (this.chemistryEngine.getBondOrder(atoms[i], atoms[j]) > 0) bonds.push([atoms[i].id, atoms[j].id]);
+      }
+    }
+    return this.intermolecularEngine.describe(this.moleculeMembers(atoms), bonds);
+  }
+
+  /**
+   * Arrow through the middle of a polar molecule along its dipole, from the δ− end to the
+   * δ+ end, drawn over the atoms so it stays visible inside the molecule
+   */
+  private createDipoleArrow(atoms: Atom[], polarity: MolecularPolarity): THREE.ArrowHelper | null {
+    if (!this.intermolecularEngine.isPolar(polarity)) return null;
+
+    const centre = new THREE.Vector3();
+    atoms.forEach(a => centre.add(a.visuals.nucleus.position));
+    centre.divideScalar(atoms.length);
+
+    const length = polarity.dipole.length() * this.dipoleArrowScale;
+    const direction = polarity.dipole.clone().normalize();
+    const origin = centre.addScaledVector(direction, -length / 2);
+    const arrow = new THREE.ArrowHelper(direction, origin, length, this.dipoleArrowColor, length * 0.25, length * 0.15);
+    [arrow.line.material, arrow.cone.material].forEach(material => (material as THREE.Material).depthTest = false);
+    arrow.renderOrder = 1;
+    return arrow;
   }
 
+  private moleculeMembers(atoms: Atom[]): MoleculeMember[] {
+    return atoms.map(a => ({ id: a.id, protons: a.protons, electronsCount: a.electronsCount, position: a.visuals.nucleus.position }));
+  }
+
+  getIntermolecularForceLabel(molecule: Molecule): string {
+    const dipole = molecule.polarity.dipole.length();
+    const label = INTERMOLECULAR_FORCE_LABELS[this.intermolecularEngine.strongestForce(molecule.polarity)];
+    return dipole > 0 ? `${label} · ${dipole.toFixed(2)} D` : label;
+  }
+
+  getDipoleMoment(molecule: Molecule): number {
+    return molecule.polarity.dipole.length();
+  }
+
+  getPolarityLabel(molecule: Molecule): string {
+    if (this.intermolecularEngine.isPolar(molecule.polarity)) return 'Polar';
+    return this.intermolecularEngine.cancelsBondDipoles(molecule.polarity)
+      ? 'No polar (los dipolos de enlace se cancelan)'
+      : 'No polar';
+  }
+
+  getPhase(molecule: Molecule): Phase {
+    return this.intermolecularEngine.phaseAt(molecule.transitions, this.calculateTemperature());
+  }
 
-  private calculateMolecularGeometry(atoms: Atom[], moleculeInfo: { name: string, geometry: string, bondLength: number }): Map<number, THREE.Vector3> | null {
-    const relativePositions = new Map<number, THREE.Vector3>();
-    const bondLength = moleculeInfo.bondLength;
+  getPhaseLabel(molecule: Molecule): string {
+    const { meltingPoint, boilingPoint } = molecule.transitions;
+    const points = meltingPoint === boilingPoint
+      ? `sublima ${Math.round(meltingPoint)} K`
+      : `fusión ${Math.round(meltingPoint)} K · ebullición ${Math.round(boilingPoint)} K`;
+    return `${PHASE_LABELS[this.getPhase(molecule)]} (${points})`;
+  }
 
-    if (moleculeInfo.geometry === 'linear') {
-      if (atoms.length === 2) {
-        relativePositions.set(atoms[0].id, new THREE.Vector3(-bondLength / 2, 0, 0));
-        relativePositions.set(atoms[1].id, new THREE.Vector3(bondLength / 2, 0, 0));
-      } else if (atoms.length === 3) {
-        const centralAtom = this.findBestCentralAtom(atoms);
-        const otherAtoms = atoms.filter(a => a.id !== centralAtom.id);
-        relativePositions.set(centralAtom.id, new THREE.Vector3(0, 0, 0));
-        relativePositions.set(otherAtoms[0].id, new THREE.Vector3(-bondLength, 0, 0));
-        relativePositions.set(otherAtoms[1].id, new THREE.Vector3(bondLength, 0, 0));
+  /**
+   * Draws every bond of the molecule from the engine's bond graph, using the
+   * atoms' positions relative to the molecule group
+   */
+  private createMoleculeBondVisuals(atoms: Atom[]): THREE.Group[] {
+    // Better bond visualization with thicker, brighter bonds
+    const bondMaterial = new THREE.MeshStandardMaterial({ 
+      color: 0x00ff88, 
+      emissive: 0x00ff88, 
+      emissiveIntensity: 0.6,
+      metalness: 0.3,
+      roughness: 0.4
+    });
+    const bondsVisuals: THREE.Group[] = [];
+
+    const addVisual = (atomA: Atom, atomB: Atom, order: BondOrder) => {
+      const posA = atomA.visuals.nucleus.position;
+      const posB = atomB.visuals.nucleus.position;
+      const material = bondMaterial.clone();
+      if (this.chemistryEngine.getCharge(atomA) * this.chemistryEngine.getCharge(atomB) < 0) {
+        material.color.set(0xab47bc);
+        material.emissive.set(0xab47bc);
       }
-    } else if (moleculeInfo.geometry === 'bent') {
-      const centralAtom = this.findBestCentralAtom(atoms);
-      const otherAtoms = atoms.filter(a => a.id !== centralAtom.id);
-      const angle = 104.5 * (Math.PI / 180);
-      
-      relativePositions.set(centralAtom.id, new THREE.Vector3(0, 0, 0));
-      relativePositions.set(otherAtoms[0].id, new THREE.Vector3(
-        bondLength * Math.sin(angle / 2),
-        bondLength * Math.cos(angle / 2),
-        0
-      ));
-      relativePositions.set(otherAtoms[1].id, new THREE.Vector3(
-        -bondLength * Math.sin(angle / 2),
-        bondLength * Math.cos(angle / 2),
-        0
-      ));
-    } else if (moleculeInfo.geometry === 'tetrahedral') {
-      const centralAtom = this.findBestCentralAtom(atoms);
-      const otherAtoms = atoms.filter(a => a.id !== centralAtom.id);
-      
-      relativePositions.set(centralAtom.id, new THREE.Vector3(0, 0, 0));
-      
-      const tetrahedralPositions = [
-        new THREE.Vector3(1, 1, 1),
-        new THREE.Vector3(-1, -1, 1),
-        new THREE.Vector3(-1, 1, -1),
-        new THREE.Vector3(1, -1, -1)
-      ];
-      
-      otherAtoms.forEach((atom, index) => {
-        if (index < tetrahedralPositions.length) {
-          const pos = tetrahedralPositions[index].normalize().multiplyScalar(bondLength);
-          relativePositions.set(atom.id, pos);
-        }
-      });
-    } else if (moleculeInfo.geometry === 'trigonal_pyramidal') {
-      const centralAtom = this.findBestCentralAtom(atoms);
-      const otherAtoms = atoms.filter(a => a.id !== centralAtom.id);
-      
-      relativePositions.set(centralAtom.id, new THREE.Vector3(0, 0, 0));
-      
-      otherAtoms.forEach((atom, index) => {
-        const angle = (2 * Math.PI * index) / 3;
-        const pos = new THREE.Vector3(
-          bondLength * Math.cos(angle) * 0.8,
-          -bondLength * 0.5,
-          bondLength * Math.sin(angle) * 0.8
-        );
-        relativePositions.set(atom.id, pos);
-      });
-    } else {
-      // Default arrangement
-      if (atoms.length === 2) {
-        relativePositions.set(atoms[0].id, new THREE.Vector3(-bondLength / 2, 0, 0));
-        relativePositions.set(atoms[1].id, new THREE.Vector3(bondLength / 2, 0, 0));
-      } else {
-        const centralAtom = this.findBestCentralAtom(atoms);
-        const otherAtoms = atoms.filter(a => a.id !== centralAtom.id);
-        
-        relativePositions.set(centralAtom.id, new THREE.Vector3(0, 0, 0));
-        
-        otherAtoms.forEach((atom, index) => {
-          const angle = (2 * Math.PI * index) / otherAtoms.length;
-          const pos = new THREE.Vector3(
-            bondLength * Math.cos(angle),
-            bondLength * Math.sin(angle),
-            0
-          );
-          relativePositions.set(atom.id, pos);
-        });
+      const bondVisual = this.buildBondVisual(order, 0.15, material, 12);
+      bondVisual.scale.y = posA.distanceTo(posB);
+      bondVisual.position.copy(posA).lerp(posB, 0.5);
+      bondVisual.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), posB.clone().sub(posA).normalize());
+      bondsVisuals.push(bondVisual);
+    };
+
+    for (let i = 0; i < atoms.length; i++) {
+      for (let j = i + 1; j < atoms.length; j++) {
+        const order = this.chemistryEngine.getBondOrder(atoms[i], atoms[j]);
+        if (order > 0) addVisual(atoms[i], atoms[j], order as BondOrder);
       }
     }
 
-    return relativePositions.size > 0 ? relativePositions : null;
+    // If no explicit bonds, create bonds based on geometry
+    if (bondsVisuals.length === 0 && atoms.length > 1) {
+      const centralAtom: Atom = this.chemistryEngine.findOptimalCentralAtom(atoms);
+      atoms.forEach(a => {
+        if (a.id !== centralAtom.id) addVisual(centralAtom, a, 1);
+      });
+    }
+
+    return bondsVisuals;
   }
 
-  private findBestCentralAtom(atoms: Atom[]): Atom {
-    return atoms.reduce((best, current) => {
-      const bestValence = this.valenceElectrons[best.protons] || 0;
-      const currentValence = this.valenceElectrons[current.protons] || 0;
-      const bestElectronegativity = this.electronegativity[best.protons] || 0;
-      const currentElectronegativity = this.electronegativity[current.protons] || 0;
-      
-      const bestScore = bestValence - bestElectronegativity;
-      const currentScore = currentValence - currentElectronegativity;
-      
-      return currentScore > bestScore ? current : best;
+  /**
+   * Redraws the molecule's bonds after a bond order changed and identifies it again, since
+   * the orders decide which known structure it is. Polarity follows which atoms are bonded
+   * and where they sit, neither of which changes.
+   */
+  private refreshMoleculeBonds(molecule: Molecule): void {
+    molecule.bondsVisuals.forEach(v => {
+      molecule.visual.remove(v);
+      this.disposeBondVisual(v);
     });
+    molecule.bondsVisuals = this.createMoleculeBondVisuals(molecule.atoms);
+    molecule.bondsVisuals.forEach(v => molecule.visual.add(v));
+
+    const moleculeInfo = this.identifyMoleculeType(molecule.atoms);
+    molecule.name = moleculeInfo.name;
+    molecule.transitions = moleculeInfo.transitions
+      ?? this.intermolecularEngine.estimateTransitions(this.moleculeMembers(molecule.atoms), molecule.polarity);
+    if (!moleculeInfo.impossible && !this.discoveredMolecules.includes(moleculeInfo.name)) {
+      this.discoveredMolecules.push(moleculeInfo.name);
+    }
+    this.moleculeNames = this.molecules.map(m => m.name);
   }
 
+
   private selectMolecule(molecule: Molecule): void {
     if (this.selectedAtom) {
       (this.selectedAtom.visuals.elementName.material as THREE.MeshStandardMaterial).color.set(0xffffff);
@@ -1733,6 +2795,7 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     
     molecule.atoms.forEach((atom, index) => {
       atom.isMoleculeMember = false;
+      this.chemistryEngine.removeAtom(atom);
       
       atom.physicalBody.position.set(
         moleculePosition.x + (Math.random() - 0.5) * 2,
@@ -1797,9 +2860,17 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
   onRecipeSelected(recipe: MolecularRecipe): void {
     this.currentRecipe = recipe;
     this.heatIntensity = recipe.conditions.heatIntensity;
-    this.activationEnergyWater = recipe.conditions.activationEnergy;
     this.currentEnergyType = recipe.conditions.energyType;
     this.showMolecularCatalog = false;
+
+    if (recipe.conditions.energyType === 'electrolysis' && !this.electrolysisActive) {
+      this.showLabTools = true;
+      this.toggleElectrolysis();
+    }
+    if (recipe.conditions.energyType === 'light' && !this.lightActive) {
+      this.showLabTools = true;
+      this.toggleLightSource();
+    }
   }
 
   onCreateReactants(recipe: MolecularRecipe): void {
@@ -1808,27 +2879,39 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     let xOffset = -8;
     recipe.reactants.forEach((reactant) => {
       for (let i = 0; i < reactant.count; i++) {
-        if (reactant.element.includes('₂')) {
-          const atomicNumber = reactant.atomicNumber;
-          const pos1 = new THREE.Vector3(xOffset, (Math.random() - 0.5) * 4, 0);
-          const pos2 = new THREE.Vector3(xOffset + 2, (Math.random() - 0.5) * 4, 0);
-          
-          this.createAtom({protons: atomicNumber, neutrons: atomicNumber, electrons: atomicNumber, position: pos1});
-          this.createAtom({protons: atomicNumber, neutrons: atomicNumber, electrons: atomicNumber, position: pos2});
-          xOffset += 5;
-        } else {
-          const atomicNumber = reactant.atomicNumber;
-          const pos = new THREE.Vector3(xOffset, (Math.random() - 0.5) * 4, 0);
-          this.createAtom({protons: atomicNumber, neutrons: atomicNumber, electrons: atomicNumber, position: pos});
-          xOffset += 4;
-        }
+        const position = new THREE.Vector3(xOffset, (Math.random() - 0.5) * 4, 0);
+        const atomCount = this.spawnSpecies(reactant.element, position);
+        xOffset += 2 + atomCount * 1.5;
       }
     });
     
+    this.identifyMolecules();
     this.showMolecularCatalog = false;
     this.showNotification(`Reactivos cargados para: ${recipe.name}`, 'success');
   }
 
+  /**
+   * Creates the atoms of a formula such as 'C' or 'H₂'. Formulas of known molecules
+   * are bonded following the structure so they start out as molecules.
+   */
+  private spawnSpecies(formula: string, position: THREE.Vector3): number {
+    const protons = this.reactionEngine.parseFormula(formula);
+    const atoms = protons.map((atomicNumber, i) => this.createAtom({
+      protons: atomicNumber,
+      neutrons: this.elementRegistry.getDefaultNeutrons(atomicNumber),
+      electrons: atomicNumber,
+      position: position.clone().add(new THREE.Vector3(i * 2, 0, 0))
+    }));
+
+    const structure = atoms.length > 1 ? this.reactionEngine.getStructureByFormula(formula) : undefined;
+    if (structure) {
+      const unused = [...atoms];
+      const slots = structure.atoms.map(atomicNumber => unused.splice(unused.findIndex(a => a.protons === atomicNumber), 1)[0]);
+      structure.bonds.forEach(([a, b, order]) => this.createBond(slots[a], slots[b], true, order));
+    }
+    return atoms.length;
+  }
+
   // ==================== MOUSE INTERACTION ====================
 
   private onWindowResize(): void {
@@ -1843,21 +2926,25 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
   }
 
-  private findIntersectedObject(): { atom?: Atom, molecule?: Molecule } {
+  /**
+   * `moleculeAtom` is the atom hit inside a molecule, used by manual bonding to raise bond orders
+   */
+  private findIntersectedObject(): { atom?: Atom, molecule?: Molecule, moleculeAtom?: Atom } {
     this.raycaster.setFromCamera(this.mouse, this.camera);
     const intersects = this.raycaster.intersectObjects(this.scene.children, true);
 
     for (const intersect of intersects) {
-      const molecule = this.molecules.find(m => this.isObjectInGroup(intersect.object, m.visual));
-      if (molecule) {
-        return { molecule };
-      }
-
       const atom = this.atoms.find(a =>
         a.visuals.nucleus === intersect.object.parent ||
         a.visuals.electrons === intersect.object.parent ||
         a.visuals.elementName === intersect.object
       );
+
+      const molecule = this.molecules.find(m => this.isObjectInGroup(intersect.object, m.visual));
+      if (molecule) {
+        return { molecule, moleculeAtom: atom?.isMoleculeMember ? atom : undefined };
+      }
+
       if (atom && !atom.isMoleculeMember) {
         return { atom };
       }
@@ -1968,6 +3055,8 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
       } else {
         this.selectAtom(intersected.atom);
       }
+    } else if (this.manualBondingMode && intersected.moleculeAtom) {
+      this.handleManualBondSelection(intersected.moleculeAtom);
     } else if (intersected.molecule) {
       this.selectMolecule(intersected.molecule);
     }
@@ -1985,6 +3074,8 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
       } else {
         this.selectAtom(intersected.atom);
       }
+    } else if (this.manualBondingMode && intersected.moleculeAtom) {
+      this.handleManualBondSelection(intersected.moleculeAtom);
     } else if (intersected.molecule) {
       this.selectMolecule(intersected.molecule);
     }
@@ -1997,14 +3088,23 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     this.frameId = requestAnimationFrame(() => this.animate());
     
     const currentTime = Date.now();
-    const deltaTime = (currentTime - this.lastUpdateTime) / 1000;
+    const deltaTime = Math.min((currentTime - this.lastUpdateTime) / 1000, this.maxFrameTime);
     this.lastUpdateTime = currentTime;
     
     // Skip physics if paused
     if (!this.isPaused) {
       // Apply time scale from mode and speed
       const timeScale = this.currentModeConfig.physics.timeScale * this.simulationSpeed;
+      this.applyElectrostaticForces();
+      this.applyIntermolecularForces();
+      this.applyPhaseBehaviour();
+      if (this.electrolysisActive) this.applyElectrodeForces();
+      if (this.electricField) this.applyElectricField();
       this.world.step((1 / 60) * timeScale);
+      this.processCollisions();
+      if (this.lightActive) this.updatePhotons(deltaTime);
+      this.checkRadioactiveDecay(deltaTime);
+      this.updateDecayParticles(deltaTime);
       
       // Decay transient heat energy
       const decayRate = this.currentModeConfig.reactions.energyDecayRate;
@@ -2039,11 +3139,17 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
           nameVisual.position.copy(position as any).add(new THREE.Vector3(-textWidth / 2, 4, 0));
         }
         
-        // Rotate electrons
-        if (!this.isPaused) {
+        // Rotate electrons; orbitals are stationary states and keep their orientation
+        if (!this.isPaused && !this.orbitalView) {
           atom.visuals.electrons.rotation.y += 0.01 * this.simulationSpeed;
         }
       }
+
+      // Excited electrons fall back once the absorbed energy is re-emitted
+      if (atom.excitedUntil && atom.excitedUntil <= currentTime) {
+        atom.excitedUntil = undefined;
+        this.updateElectronsVisuals(atom);
+      }
     }
     
     this.updateBondVisuals();
@@ -2080,6 +3186,201 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
     });
   }
 
+  /**
+   * Coulomb's law between every pair of charged bodies. Molecules act as a single
+   * body carrying the net charge of their atoms.
+   */
+  private applyElectrostaticForces(): void {
+    const charged: { body: CANNON.Body, charge: number }[] = [];
+
+    this.atoms.forEach(atom => {
+      const charge = this.chemistryEngine.getCharge(atom);
+      if (!atom.isMoleculeMember && charge !== 0) {
+        charged.push({ body: atom.physicalBody, charge });
+      }
+    });
+    this.molecules.forEach(mol => {
+      const charge = mol.atoms.reduce((sum, a) => sum + this.chemistryEngine.getCharge(a), 0);
+      if (charge !== 0) {
+        charged.push({ body: mol.physicalBody, charge });
+      }
+    });
+
+    for (let i = 0; i < charged.length; i++) {
+      for (let j = i + 1; j < charged.length; j++) {
+        const a = charged[i];
+        const b = charged[j];
+        const direction = b.body.position.vsub(a.body.position);
+        const distance = direction.length();
+        if (distance > this.coulombCutoff || distance === 0) continue;
+
+        // Soften close range so overlapping ions don't explode apart
+        const r = Math.max(distance, 2);
+        const magnitude = this.coulombConstant * a.charge * b.charge / (r * r);
+        direction.normalize();
+
+        // Positive magnitude (like charges) pushes a away from b
+        a.body.applyForce(direction.scale(-magnitude));
+        b.body.applyForce(direction.scale(magnitude));
+      }
+    }
+  }
+
+  /**
+   * Dispersion and dipole–dipole attraction between molecule centres, plus hydrogen bonds
+   * pulling donor hydrogens towards acceptor atoms on neighbouring molecules
+   */
+  private applyIntermolecularForces(): void {
+    this.hydrogenBondLines.children.forEach(line => ((line as THREE.Line).geometry.dispose()));
+    this.hydrogenBondLines.clear();
+    const temperature = this.calculateTemperature();
+
+    for (let i = 0; i < this.molecules.length; i++) {
+      for (let j = i + 1; j < this.molecules.length; j++) {
+        const a = this.molecules[i];
+        const b = this.molecules[j];
+        const direction = b.physicalBody.position.vsub(a.physicalBody.position);
+        const distance = direction.length();
+        const contact = a.physicalBody.boundingRadius + b.physicalBody.boundingRadius;
+        if (distance === 0 || distance > contact * this.intermolecularRange) continue;
+        // Above its boiling point a molecule has too much energy to stay bound to its neighbours
+        if (this.intermolecularEngine.phaseAt(a.transitions, temperature) === 'gas'
+          || this.intermolecularEngine.phaseAt(b.transitions, temperature) === 'gas') continue;
+
+        const wellDepth = this.intermolecularEngine.dispersionEnergy(a.polarity, b.polarity)
+          + this.intermolecularEngine.dipoleEnergy(a.polarity, b.polarity, temperature);
+        const pull = this.intermolecularEngine.attraction(wellDepth, contact, distance) * this.intermolecularForceScale;
+        direction.normalize();
+        a.physicalBody.applyForce(direction.scale(pull));
+        b.physicalBody.applyForce(direction.scale(-pull));
+
+        this.applyHydrogenBonds(a, b);
+        this.applyHydrogenBonds(b, a);
+      }
+    }
+  }
+
+  /**
+   * Each X–H of the donor pulls the nearest lined-up acceptor atom of the other molecule.
+   * The force acts on the atoms themselves, so it also turns the molecules to face each other.
+   */
+  private applyHydrogenBonds(donor: Molecule, acceptor: Molecule): void {
+    if (acceptor.polarity.acceptors.length === 0) return;
+
+    for (const { hydrogen, partner } of donor.polarity.donors) {
+      const hydrogenPos = this.atomWorldPosition(donor, hydrogen);
+      const partnerPos = this.atomWorldPosition(donor, partner);
+      const bondAxis = hydrogenPos.vsub(partnerPos);
+      bondAxis.normalize();
+
+      for (const acceptorId of acceptor.polarity.acceptors) {
+        const acceptorPos = this.atomWorldPosition(acceptor, acceptorId);
+        const direction = acceptorPos.vsub(hydrogenPos);
+        const distance = direction.length();
+        if (distance === 0 || distance > this.hydrogenBondLength * 2) continue;
+
+        // Hydrogen bonds are directional: X–H···A has to be close to a straight line
+        direction.normalize();
+        const alignment = bondAxis.dot(direction);
+        if (alignment < 0.5) continue;
+
+        const donorAtom = donor.atoms.find(a => a.id === partner)!;
+        const acceptorAtom = acceptor.atoms.find(a => a.id === acceptorId)!;
+        const energy = this.intermolecularEngine.hydrogenBondEnergy(donorAtom.protons, acceptorAtom.protons);
+        const pull = this.intermolecularEngine.attraction(energy, this.hydrogenBondLength, distance) * this.intermolecularForceScale * alignment;
+
+        donor.physicalBody.applyForce(direction.scale(pull), hydrogenPos.vsub(donor.physicalBody.position));
+        acceptor.physicalBody.applyForce(direction.scale(-pull), acceptorPos.vsub(acceptor.physicalBody.position));
+
+        if (distance < this.hydrogenBondLength * 1.4) this.drawHydrogenBond(hydrogenPos, acceptorPos);
+      }
+    }
+  }
+
+  /**
+   * Solids are held on a cubic lattice where their species has gathered, liquids lose
+   * energy slowly so the attractions cluster them, and gases get thermal kicks that
+   * keep them spread out
+   */
+  private applyPhaseBehaviour(): void {
+    const temperature = this.calculateTemperature();
+    const solids = new Map<string, Molecule[]>();
+
+    for (const molecule of this.molecules) {
+      const body = molecule.physicalBody;
+      const phase = this.intermolecularEngine.phaseAt(molecule.transitions, temperature);
+      if (phase === 'solid') {
+        solids.set(molecule.name, [...(solids.get(molecule.name) ?? []), molecule]);
+      } else if (phase === 'liquid') {
+        body.velocity.scale(this.liquidDamping, body.velocity);
+      } else {
+        const kick = this.gasAgitation * Math.sqrt(temperature / body.mass);
+        body.velocity.x += (Math.random() - 0.5) * kick;
+        body.velocity.y += (Math.random() - 0.5) * kick;
+        body.velocity.z += (Math.random() - 0.5) * kick;
+      }
+    }
+
+    solids.forEach(species => this.holdOnLattice(species));
+  }
+
+  /**
+   * Springs each molecule of a solid species to a site of a cubic lattice centred on the
+   * species, spaced so neighbours just touch, and damps its motion and tumbling
+   */
+  private holdOnLattice(molecules: Molecule[]): void {
+    const centre = new CANNON.Vec3();
+    molecules.forEach(m => centre.vadd(m.physicalBody.position, centre));
+    centre.scale(1 / molecules.length, centre);
+    const spacing = 2 * Math.max(...molecules.map(m => m.physicalBody.boundingRadius));
+
+    // The sites nearest the centre, one per molecule
+    const reach = Math.ceil(Math.cbrt(molecules.length));
+    const sites: CANNON.Vec3[] = [];
+    for (let x = -reach; x <= reach; x++) {
+      for (let y = -reach; y <= reach; y++) {
+        for (let z = -reach; z <= reach; z++) {
+          sites.push(new CANNON.Vec3(centre.x + x * spacing, centre.y + y * spacing, centre.z + z * spacing));
+        }
+      }
+    }
+    sites.sort((a, b) => a.distanceSquared(centre) - b.distanceSquared(centre));
+    sites.length = molecules.length;
+
+    // Closest molecule–site pairs are settled first, so molecules keep the sites they sit on
+    const pairs = molecules.flatMap(molecule => sites.map(site => ({
+      molecule, site, distance: site.distanceSquared(molecule.physicalBody.position)
+    }))).sort((a, b) => a.distance - b.distance);
+    const placed = new Set<Molecule>();
+    const taken = new Set<CANNON.Vec3>();
+
+    for (const { molecule, site } of pairs) {
+      if (placed.has(molecule) || taken.has(site)) continue;
+      placed.add(molecule);
+      taken.add(site);
+
+      const body = molecule.physicalBody;
+      body.applyForce(site.vsub(body.position).scale(this.latticeStiffness * body.mass));
+      body.velocity.scale(this.solidDamping, body.velocity);
+      body.angularVelocity.scale(this.solidDamping, body.angularVelocity);
+    }
+  }
+
+  private atomWorldPosition(molecule: Molecule, atomId: number): CANNON.Vec3 {
+    const local = molecule.atoms.find(a => a.id === atomId)!.visuals.nucleus.position;
+    return molecule.physicalBody.pointToWorldFrame(new CANNON.Vec3(local.x, local.y, local.z));
+  }
+
+  private drawHydrogenBond(from: CANNON.Vec3, to: CANNON.Vec3): void {
+    const geometry = new THREE.BufferGeometry().setFromPoints([
+      new THREE.Vector3(from.x, from.y, from.z),
+      new THREE.Vector3(to.x, to.y, to.z)
+    ]);
+    const line = new THREE.Line(geometry, this.hydrogenBondMaterial);
+    line.computeLineDistances();
+    this.hydrogenBondLines.add(line);
+  }
+
   private applyGlobalHeatContinuous(): void {
     const jitter = Math.max(0, this.heatIntensity) * 0.02;
     
@@ -2087,6 +3388,10 @@ export class SimulationComponent implements AfterViewInit, OnDestroy {
       m.physicalBody.velocity.x += (Math.random() - 0.5) * jitter;
       m.physicalBody.velocity.y += (Math.random() - 0.5) * jitter;
       m.physicalBody.velocity.z += (Math.random() - 0.5) * jitter;
+      // Collisions also set molecules tumbling, scrambling any alignment
+      m.physicalBody.angularVelocity.x += (Math.random() - 0.5) * jitter;
+      m.physicalBody.angularVelocity.y += (Math.random() - 0.5) * jitter;
+      m.physicalBody.angularVelocity.z += (Math.random() - 0.5) * jitter;
     });
     
     this.atoms.forEach(a => {
@@ -14,7 +14,16 @@ export interface ExperimentPreset {
   id: string;
   name: string;
   description: string;
-  atoms: { element: number; count: number; label: string }[];
+  // Atoms of the element's most common isotope unless `neutrons` is given
+  atoms: { element: number; count: number; label: string; neutrons?: number }[];
+  // Known molecules spawned already bonded
+  molecules?: { formula: string; count: number; label: string }[];
+  // Lab tool the experiment sets up
+  tool?: 'electrolysis' | 'light' | 'electric-field';
+  // Atomic number of the catalytic surface the experiment places
+  catalyst?: number;
+  // Simulation mode the experiment switches to
+  mode?: string;
   targetMolecule: string;
   hints: string[];
   energyRequired: number;
@@ -89,6 +98,9 @@ export interface ExperimentPreset {
             <span *ngFor="let atom of exp.atoms" class="atom-badge">
               {{ atom.count }}× {{ atom.label }}
             </span>
+            <span *ngFor="let molecule of exp.molecules" class="atom-badge">
+              {{ molecule.count }}× {{ molecule.label }}
+            </span>
           </div>
         </div>
       </div>